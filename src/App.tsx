@@ -8,6 +8,7 @@ import EntityDetail from "./pages/EntityDetail";
 import TimelinePage from "./pages/Timeline";
 import RelationshipsPage from "./pages/Relationships";
 import GalaxyMap from "./pages/GalaxyMap";
+import QueryBuilderPage from "./pages/QueryBuilder";
 
 export default function App() {
   return (
@@ -19,6 +20,7 @@ export default function App() {
           <Route path="/worlds/:worldId" element={<WorldDetail />} />
           <Route path="/worlds/:worldId/timeline" element={<TimelinePage />} />
           <Route path="/worlds/:worldId/graph" element={<RelationshipsPage />} />
+          <Route path="/worlds/:worldId/query" element={<QueryBuilderPage />} />
           <Route path="/worlds/:worldId/galaxy" element={<GalaxyMap />} />
           <Route path="/worlds/:worldId/galaxy/:starSystemId" element={<GalaxyMap />} />
           <Route path="/worlds/:worldId/:entityType" element={<EntityList />} />
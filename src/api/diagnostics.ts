@@ -0,0 +1,58 @@
+import type { EntityType } from "../types";
+import type { ValidationIssue } from "./validation";
+
+// ─── Diagnostics store ──────────────────────────────────────────
+// Collects schema problems found in tool / Firestore responses so they can
+// be shown in the dev panel instead of surfacing as render errors.
+
+export interface Diagnostic {
+  /** Stable key: one entry per source + record, replaced when the record is re-checked */
+  key: string;
+  source: string;
+  entityType: EntityType;
+  recordId?: string;
+  recordName?: string;
+  issues: ValidationIssue[];
+  /** Whether the record was left out of what the source shows */
+  dropped: boolean;
+  timestamp: number;
+}
+
+type Listener = () => void;
+
+let diagnostics: Diagnostic[] = [];
+const listeners = new Set<Listener>();
+
+function emit() {
+  for (const listener of listeners) listener();
+}
+
+export function reportDiagnostics(entry: Omit<Diagnostic, "key" | "timestamp">) {
+  const key = `${entry.source}:${entry.entityType}/${entry.recordId ?? entry.recordName ?? "?"}`;
+  const existing = diagnostics.find((d) => d.key === key);
+  // Refetches report the same problems again — don't churn subscribers
+  if (existing && JSON.stringify(existing.issues) === JSON.stringify(entry.issues)) return;
+
+  if (import.meta.env.DEV) {
+    console.warn(
+      `[worldbuilder] ${entry.source}: invalid ${entry.entityType} record ${entry.recordId ?? entry.recordName ?? "?"}`,
+      entry.issues.map((i) => `${i.path}: ${i.message}`)
+    );
+  }
+  diagnostics = [{ ...entry, key, timestamp: Date.now() }, ...diagnostics.filter((d) => d.key !== key)];
+  emit();
+}
+
+export function clearDiagnostics() {
+  diagnostics = [];
+  emit();
+}
+
+export function getDiagnostics(): Diagnostic[] {
+  return diagnostics;
+}
+
+export function subscribeDiagnostics(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
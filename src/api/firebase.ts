@@ -1,9 +1,47 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  type DocumentData,
+  type Firestore,
+  type FirestoreDataConverter,
+} from "firebase/firestore";
 
-const firebaseConfig = {
-  projectId: "we-are-the-walrus",
-};
+// ─── Config (set via env vars at build time) ────────────────────
+// Direct Firestore reads are optional; everything else goes through the
+// Worldbuilder API. Set the project ID to enable them, and the emulator
+// host (e.g. "127.0.0.1:8080") to read from a local emulator instead.
+const PROJECT_ID = import.meta.env.VITE_FIREBASE_PROJECT_ID ?? "";
+const EMULATOR_HOST = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST ?? "";
 
-const app = initializeApp(firebaseConfig);
-export const db = getFirestore(app);
+let db: Firestore | null = null;
+
+export function isFirestoreConfigured(): boolean {
+  return !!PROJECT_ID;
+}
+
+/** The Firestore instance, created on first use */
+export function getDb(): Firestore {
+  if (!PROJECT_ID) {
+    throw new Error("Firestore is not configured — set VITE_FIREBASE_PROJECT_ID");
+  }
+  if (!db) {
+    db = getFirestore(initializeApp({ projectId: PROJECT_ID }));
+    if (EMULATOR_HOST) {
+      const [host, port] = EMULATOR_HOST.split(":");
+      connectFirestoreEmulator(db, host, Number(port) || 8080);
+    }
+  }
+  return db;
+}
+
+/**
+ * Typed converter for entity subcollections — merges the document ID into
+ * the data so reads come back as `T` instead of raw DocumentData.
+ */
+export function entityConverter<T extends { id: string }>(): FirestoreDataConverter<T> {
+  return {
+    toFirestore: (entity) => entity as DocumentData,
+    fromFirestore: (snapshot) => ({ id: snapshot.id, ...snapshot.data() }) as T,
+  };
+}
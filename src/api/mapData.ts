@@ -0,0 +1,64 @@
+import { collection, getDocs } from "firebase/firestore";
+import type { EntityType, EntityTypeMap } from "../types";
+import { entityConverter, getDb, isFirestoreConfigured } from "./firebase";
+import { fetchQuery } from "./queryCache";
+
+// ─── Galaxy map data source ─────────────────────────────────────
+// The map needs whole collections (every system, planet, region…). By
+// default they come from the API's `list_*` tools, following
+// `nextPageToken` to the end; `VITE_GALAXY_DATA_SOURCE=firestore` reads
+// the world's subcollections directly instead (see api/firebase).
+
+export interface MapDataSource {
+  /** Shown in load errors */
+  label: string;
+  listAll<E extends EntityType>(
+    worldId: string,
+    entityType: E,
+    options?: { force?: boolean }
+  ): Promise<EntityTypeMap[E][]>;
+}
+
+/** The server's page size cap */
+const PAGE_SIZE = 100;
+
+const apiSource: MapDataSource = {
+  label: "the Worldbuilder API",
+  async listAll<E extends EntityType>(worldId: string, entityType: E, options: { force?: boolean } = {}) {
+    const toolName: string = `list_${entityType}`;
+    const all: EntityTypeMap[E][] = [];
+    let startAfter: string | undefined;
+    // Follow cursors to the end — a partial map would look complete
+    for (;;) {
+      const response = await fetchQuery<EntityTypeMap[E][]>(
+        toolName,
+        { worldId, limit: PAGE_SIZE, startAfter },
+        { force: options.force }
+      );
+      if (!response.success) throw new Error(response.error ?? `${toolName} failed`);
+      all.push(...(response.data ?? []));
+      if (response.nextPageToken && response.nextPageToken === startAfter) {
+        throw new Error(`${toolName} returned the same page cursor twice`);
+      }
+      startAfter = response.nextPageToken;
+      if (!startAfter) break;
+    }
+    return all;
+  },
+};
+
+const firestoreSource: MapDataSource = {
+  label: "Firestore",
+  async listAll<E extends EntityType>(worldId: string, entityType: E) {
+    const snap = await getDocs(
+      collection(getDb(), "worlds", worldId, entityType).withConverter(entityConverter<EntityTypeMap[E]>())
+    );
+    return snap.docs.map((d) => d.data());
+  },
+};
+
+export function mapDataSource(): MapDataSource {
+  return import.meta.env.VITE_GALAXY_DATA_SOURCE === "firestore" && isFirestoreConfigured()
+    ? firestoreSource
+    : apiSource;
+}
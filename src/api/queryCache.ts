@@ -0,0 +1,214 @@
+import type { EntityType, ToolResponse } from "../types";
+import type { ToolName, ToolArgs, ToolResult } from "./tools";
+import { callTool } from "./worldbuilder";
+import { toolEntityType } from "./validation";
+
+// ─── Shared query cache ─────────────────────────────────────────
+// One entry per tool name + args. Concurrent requests for the same key
+// share a single in-flight call; results are served immediately and
+// re-validated in the background once they are older than STALE_TIME.
+// Mutations invalidate every entry that touches the same world /
+// collection / id.
+
+/** How long a result counts as fresh (no background refetch) */
+const STALE_TIME = 30_000;
+
+/** Unobserved entries beyond this count are evicted, oldest first */
+const MAX_ENTRIES = 200;
+
+export interface QuerySnapshot {
+  response: ToolResponse<unknown> | null;
+  error: string | null;
+  fetching: boolean;
+}
+
+interface CacheEntry {
+  toolName: string;
+  args: Record<string, unknown>;
+  snapshot: QuerySnapshot;
+  fetchedAt: number;
+  inFlight: Promise<ToolResponse<unknown>> | null;
+  listeners: Set<() => void>;
+}
+
+const EMPTY: QuerySnapshot = { response: null, error: null, fetching: false };
+
+const cache = new Map<string, CacheEntry>();
+
+/** JSON with sorted object keys and `undefined` values dropped */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function queryKey(toolName: string, args: object): string {
+  return `${toolName}:${stableStringify(args)}`;
+}
+
+function getEntry(toolName: string, args: Record<string, unknown>): CacheEntry {
+  const key = queryKey(toolName, args);
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = { toolName, args, snapshot: EMPTY, fetchedAt: 0, inFlight: null, listeners: new Set() };
+    cache.set(key, entry);
+    evict();
+  }
+  return entry;
+}
+
+function evict() {
+  if (cache.size <= MAX_ENTRIES) return;
+  const idle = [...cache.entries()]
+    .filter(([, e]) => e.listeners.size === 0 && !e.inFlight)
+    .sort(([, a], [, b]) => a.fetchedAt - b.fetchedAt);
+  for (const [key] of idle.slice(0, cache.size - MAX_ENTRIES)) cache.delete(key);
+}
+
+function update(entry: CacheEntry, patch: Partial<QuerySnapshot>) {
+  entry.snapshot = { ...entry.snapshot, ...patch };
+  for (const listener of entry.listeners) listener();
+}
+
+function run(entry: CacheEntry): Promise<ToolResponse<unknown>> {
+  if (entry.inFlight) return entry.inFlight;
+  // A retry starts clean rather than showing the last attempt's error
+  update(entry, { fetching: true, error: null });
+  const promise = callTool(entry.toolName, entry.args)
+    .then((response) => {
+      entry.fetchedAt = Date.now();
+      update(entry, {
+        response,
+        error: response.success ? null : response.error ?? "Unknown error",
+        fetching: false,
+      });
+      return response;
+    })
+    .catch((err: unknown) => {
+      update(entry, { error: err instanceof Error ? err.message : String(err), fetching: false });
+      throw err;
+    })
+    .finally(() => {
+      entry.inFlight = null;
+    });
+  entry.inFlight = promise;
+  return promise;
+}
+
+export interface FetchOptions {
+  /** Bypass the cache even if the stored result is still fresh */
+  force?: boolean;
+}
+
+/**
+ * Cached `callTool`: returns the stored response while it is fresh,
+ * otherwise fetches (sharing any request already in flight).
+ */
+export function fetchQuery<K extends ToolName>(
+  toolName: K,
+  args: ToolArgs<K>,
+  options?: FetchOptions
+): Promise<ToolResponse<ToolResult<K>>>;
+export function fetchQuery<T = unknown, N extends string = string>(
+  toolName: N extends ToolName ? never : N,
+  args: Record<string, unknown>,
+  options?: FetchOptions
+): Promise<ToolResponse<T>>;
+export function fetchQuery(
+  toolName: string,
+  args: object,
+  options: FetchOptions = {}
+): Promise<ToolResponse<unknown>> {
+  const entry = getEntry(toolName, args as Record<string, unknown>);
+  const fresh = entry.snapshot.response && Date.now() - entry.fetchedAt < STALE_TIME;
+  if (fresh && !options.force && !entry.inFlight) return Promise.resolve(entry.snapshot.response!);
+  return run(entry);
+}
+
+/** Current state for a key — stable between changes, for useSyncExternalStore */
+export function getQuerySnapshot(key: string): QuerySnapshot {
+  return cache.get(key)?.snapshot ?? EMPTY;
+}
+
+export function subscribeQuery(
+  toolName: string,
+  args: object,
+  listener: () => void
+): () => void {
+  const entry = getEntry(toolName, args as Record<string, unknown>);
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
+
+// ─── Invalidation ───────────────────────────────────────────────
+interface Scope {
+  worldId?: string;
+  /** null = spans collections (worlds, summaries, relationship lookups…) */
+  collection: EntityType | null;
+  id?: string;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function queryScope(entry: CacheEntry): Scope {
+  const collection = toolEntityType(entry.toolName, entry.args);
+  return {
+    worldId: str(entry.args.worldId),
+    collection,
+    id: entry.toolName.startsWith("get_") && collection ? str(entry.args.id) : undefined,
+  };
+}
+
+function affects(query: Scope, mutation: Scope): boolean {
+  if (mutation.worldId && query.worldId && query.worldId !== mutation.worldId) return false;
+  if (!mutation.collection || !query.collection) return true;
+  if (query.collection !== mutation.collection) return false;
+  return !(query.id && mutation.id && query.id !== mutation.id);
+}
+
+/**
+ * Mark every entry matching the scope stale. Observed entries refetch
+ * right away (keeping their current data on screen); the rest refetch
+ * the next time they are used.
+ */
+export function invalidateQueries(scope: Scope) {
+  for (const entry of cache.values()) {
+    if (!affects(queryScope(entry), scope)) continue;
+    entry.fetchedAt = 0;
+    if (entry.listeners.size > 0) run(entry).catch(() => {});
+  }
+}
+
+const MUTATION_RE = /^(create|update|delete|batch_create)_(.+)$/;
+
+/** Invalidate whatever a successful mutation may have changed */
+export function invalidateForMutation(
+  toolName: string,
+  args: Record<string, unknown>,
+  result?: unknown
+) {
+  const worldId = str(args.worldId);
+  const match = toolName.match(MUTATION_RE);
+  if (!match || match[2] === "world") {
+    // World-level and game-state tools touch anything in the world
+    invalidateQueries({ worldId, collection: null });
+    return;
+  }
+  const [, op, rest] = match;
+  const collection =
+    op === "batch_create" ? toolEntityType(`list_${rest}`, args) : toolEntityType(`get_${rest}`, args);
+  const resultId = result && typeof result === "object" ? str((result as { id?: unknown }).id) : undefined;
+  invalidateQueries({
+    worldId,
+    collection,
+    id: op === "batch_create" ? undefined : str(args.id) ?? resultId,
+  });
+}
@@ -0,0 +1,132 @@
+import type {
+  EntityType,
+  EntityTypeMap,
+  EntitySingular,
+  Relationship,
+  TimelineEvent,
+  World,
+  WorldSettings,
+  WorldSummary,
+  Entity,
+  EventSignificance,
+} from "../types";
+
+// ─── Typed tool registry ────────────────────────────────────────
+// Maps every MCP tool name to its argument and result types so that
+// `callTool("get_character", …)` infers both from the tool name.
+
+/** The nine operators accepted by search_* and query_world */
+export type SearchOperator =
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "array-contains"
+  | "in"
+  | "array-contains-any";
+
+export interface QueryFilter {
+  field: string;
+  operator: SearchOperator;
+  value: unknown;
+}
+
+export interface PageArgs {
+  limit?: number;
+  startAfter?: string;
+}
+
+/** Fields set by the server, never sent on create / update */
+type ServerFields = "id" | "worldId" | "createdAt" | "updatedAt";
+
+type EntityFields<E extends EntityType> = Omit<EntityTypeMap[E], ServerFields>;
+
+interface ToolDef<A, R> {
+  args: A;
+  result: R;
+}
+
+type EntityTools = {
+  [E in EntityType as `create_${EntitySingular<E>}`]: ToolDef<
+    { worldId: string; id?: string } & EntityFields<E>,
+    EntityTypeMap[E]
+  >;
+} & {
+  [E in EntityType as `get_${EntitySingular<E>}`]: ToolDef<{ worldId: string; id: string }, EntityTypeMap[E]>;
+} & {
+  [E in EntityType as `update_${EntitySingular<E>}`]: ToolDef<
+    { worldId: string; id: string } & Partial<EntityFields<E>>,
+    EntityTypeMap[E]
+  >;
+} & {
+  [E in EntityType as `delete_${EntitySingular<E>}`]: ToolDef<{ worldId: string; id: string }, unknown>;
+} & {
+  [E in EntityType as `list_${E}`]: ToolDef<
+    { worldId: string } & PageArgs & Partial<Record<string, unknown>>,
+    EntityTypeMap[E][]
+  >;
+} & {
+  [E in EntityType as `search_${E}`]: ToolDef<
+    { worldId: string } & QueryFilter & PageArgs,
+    EntityTypeMap[E][]
+  >;
+} & {
+  [E in EntityType as `batch_create_${E}`]: ToolDef<{ worldId: string; items: EntityFields<E>[] }, unknown>;
+};
+
+interface EntityUpdate {
+  collection: EntityType;
+  id: string;
+  updates: Record<string, unknown>;
+}
+
+type WorldFields = Omit<World, "id" | "entityCounts" | "createdAt" | "updatedAt">;
+
+interface SpecialTools {
+  create_world: ToolDef<Partial<WorldFields> & { name: string; id?: string; settings?: WorldSettings }, World>;
+  get_world: ToolDef<{ worldId: string }, World>;
+  update_world: ToolDef<{ worldId: string } & Partial<WorldFields>, World>;
+  delete_world: ToolDef<{ worldId: string }, unknown>;
+  list_worlds: ToolDef<PageArgs, World[]>;
+  find_entity_relationships: ToolDef<
+    {
+      worldId: string;
+      entityId: string;
+      entityType?: EntityType;
+      relationshipType?: string;
+      direction?: "outgoing" | "incoming" | "both";
+      limit?: number;
+    },
+    Relationship[]
+  >;
+  get_timeline: ToolDef<
+    { worldId: string; era?: string; significance?: EventSignificance } & PageArgs,
+    TimelineEvent[]
+  >;
+  get_npc_context: ToolDef<{ worldId: string; characterId: string }, Record<string, unknown>>;
+  get_location_context: ToolDef<{ worldId: string; locationId: string }, Record<string, unknown>>;
+  get_faction_context: ToolDef<{ worldId: string; factionId: string }, Record<string, unknown>>;
+  get_world_summary: ToolDef<{ worldId: string }, WorldSummary>;
+  record_game_event: ToolDef<
+    { worldId: string; event: Partial<Omit<TimelineEvent, ServerFields>>; entityUpdates?: EntityUpdate[] },
+    unknown
+  >;
+  update_game_state: ToolDef<{ worldId: string; updates: EntityUpdate[] }, unknown>;
+  query_world: ToolDef<
+    {
+      worldId: string;
+      entityType: EntityType;
+      filters?: QueryFilter[];
+      sortBy?: { field: string; direction: "asc" | "desc" };
+    } & PageArgs,
+    Entity[]
+  >;
+}
+
+export type ToolRegistry = EntityTools & SpecialTools;
+
+export type ToolName = keyof ToolRegistry;
+export type ToolArgs<K extends ToolName> = ToolRegistry[K]["args"];
+export type ToolResult<K extends ToolName> = ToolRegistry[K]["result"];
@@ -0,0 +1,379 @@
+import { ENTITY_SINGULAR, ENTITY_TYPES, type EntityType, type ToolResponse } from "../types";
+import { ENTITY_FIELDS, type FieldSpec } from "../types/fields";
+import { reportDiagnostics } from "./diagnostics";
+
+// ─── Schema description ─────────────────────────────────────────
+export type Schema =
+  | { kind: "string"; options?: readonly string[] }
+  | { kind: "number" }
+  | { kind: "boolean" }
+  | { kind: "unknown" }
+  | { kind: "array"; items: Schema; nonEmpty?: boolean }
+  | { kind: "object"; fields: Record<string, Schema>; required?: readonly string[] }
+  | { kind: "record"; values: Schema };
+
+/**
+ * "error"   — the value has the wrong shape (e.g. an object where text is
+ *             expected, a missing required field). `validateRecords` drops
+ *             these for consumers that read the fields directly.
+ * "warning" — the value is usable but off-schema (number vs. string,
+ *             unknown enum value).
+ */
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  /** Field path within the record, e.g. `stars[0].spectralClass` */
+  path: string;
+  message: string;
+  severity: IssueSeverity;
+}
+
+const str = (options?: readonly string[]): Schema => ({ kind: "string", options });
+const num: Schema = { kind: "number" };
+const bool: Schema = { kind: "boolean" };
+const any: Schema = { kind: "unknown" };
+const arr = (items: Schema, nonEmpty?: boolean): Schema => ({ kind: "array", items, nonEmpty });
+const obj = (fields: Record<string, Schema>, required?: readonly string[]): Schema => ({
+  kind: "object",
+  fields,
+  required,
+});
+const rec = (values: Schema): Schema => ({ kind: "record", values });
+
+// ─── Validation ─────────────────────────────────────────────────
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+/** Validate a value against a schema and collect every issue found */
+export function validate(value: unknown, schema: Schema, path = ""): ValidationIssue[] {
+  const at = path || "(root)";
+  const mismatch = (expected: string, severity: IssueSeverity): ValidationIssue[] => [
+    { path: at, message: `expected ${expected}, got ${describe(value)}`, severity },
+  ];
+  // Objects where a scalar is expected crash React children; scalars of the
+  // wrong primitive type just render oddly.
+  const scalarSeverity: IssueSeverity = typeof value === "object" ? "error" : "warning";
+
+  switch (schema.kind) {
+    case "unknown":
+      return [];
+    case "string":
+      if (typeof value !== "string") return mismatch("string", scalarSeverity);
+      if (schema.options && !schema.options.includes(value)) {
+        return [{ path: at, message: `unexpected value "${value}"`, severity: "warning" }];
+      }
+      return [];
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return mismatch("number", scalarSeverity);
+      return [];
+    case "boolean":
+      if (typeof value !== "boolean") return mismatch("boolean", scalarSeverity);
+      return [];
+    case "array": {
+      if (!Array.isArray(value)) return mismatch("array", "error");
+      if (schema.nonEmpty && value.length === 0) {
+        return [{ path: at, message: "must not be empty", severity: "error" }];
+      }
+      return value.flatMap((item, i) => validate(item, schema.items, `${path}[${i}]`));
+    }
+    case "record": {
+      if (!isPlainObject(value)) return mismatch("object", "error");
+      return Object.entries(value).flatMap(([k, v]) => validate(v, schema.values, joinPath(path, k)));
+    }
+    case "object": {
+      if (!isPlainObject(value)) return mismatch("object", "error");
+      const issues: ValidationIssue[] = [];
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined || value[key] === null) {
+          issues.push({ path: joinPath(path, key), message: "is required", severity: "error" });
+        }
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const v = value[key];
+        if (v === undefined || v === null) continue;
+        issues.push(...validate(v, fieldSchema, joinPath(path, key)));
+      }
+      return issues;
+    }
+  }
+}
+
+// ─── Entity schemas ─────────────────────────────────────────────
+const POSITION = obj({ azimuth: num, distance: num, elevation: num }, ["azimuth", "distance", "elevation"]);
+const ENTITY_REF = obj({ type: str(), id: str() }, ["type", "id"]);
+
+const STAR = obj(
+  {
+    name: str(),
+    spectralClass: str(),
+    color: str(),
+    radius: num,
+    mass: num,
+    luminosityClass: str(),
+    surfaceTemperature: num,
+    orbitRadius: num,
+    orbitAngle: num,
+  },
+  ["name"]
+);
+
+const ORBIT = obj(
+  { semiMajorAxis: num, eccentricity: num, inclination: num, orbitalPeriod: num, currentAngle: num },
+  ["semiMajorAxis", "eccentricity", "inclination", "orbitalPeriod", "currentAngle"]
+);
+
+const RENDER = obj(
+  {
+    radius: num,
+    primaryColor: str(),
+    secondaryColor: str(),
+    atmosphereColor: str(),
+    atmosphereIntensity: num,
+    texture: str(),
+    cloudCover: num,
+  },
+  ["radius", "primaryColor"]
+);
+
+/** Documented shapes of the "json" fields in ENTITY_FIELDS */
+const NESTED_FIELDS: Partial<Record<EntityType, Record<string, Schema>>> = {
+  characters: {
+    skills: rec(num),
+    stats: rec(num),
+    dialogue: obj({ greeting: str(), farewell: str(), topics: arr(str()), personality_notes: str() }),
+  },
+  planets: {
+    coordinates: obj({ x: num, y: num, z: num }),
+    orbit: ORBIT,
+    render: RENDER,
+  },
+  locations: {
+    coordinates: obj({ x: num, y: num, z: num }),
+  },
+  species: {
+    relations: rec(str()),
+  },
+  items: {
+    craftingRecipe: obj(
+      {
+        ingredients: arr(obj({ itemId: str(), name: str(), quantity: num }, ["name"])),
+        skillRequired: str(),
+        facility: str(),
+      },
+      ["ingredients"]
+    ),
+  },
+  quests: {
+    objectives: arr(
+      obj(
+        { description: str(), type: str(), targetId: str(), quantity: num, completed: bool, optional: bool },
+        ["description"]
+      )
+    ),
+    rewards: arr(obj({ type: str(), itemId: str(), amount: num, factionId: str(), description: str() }, ["type"])),
+  },
+  events: {
+    participantIds: arr(obj({ type: str(), id: str(), role: str() }, ["type", "id"])),
+  },
+  lore: {
+    relatedEntityIds: arr(ENTITY_REF),
+  },
+  economies: {
+    scope: obj({ planetId: str(), factionId: str(), locationId: str() }),
+    resources: arr(
+      obj({ itemId: str(), name: str(), basePrice: num, supply: str(), demand: str(), description: str() }, ["name"])
+    ),
+    tradeRoutes: arr(
+      obj(
+        {
+          fromLocationId: str(),
+          toLocationId: str(),
+          goods: arr(str()),
+          risk: str(["safe", "low", "moderate", "high", "extreme"]),
+          description: str(),
+        },
+        ["fromLocationId", "toLocationId"]
+      )
+    ),
+  },
+  conflicts: {
+    belligerents: arr(
+      obj(
+        { factionId: str(), role: str(["aggressor", "defender", "ally", "neutral-observer"]), strength: str() },
+        ["factionId"]
+      )
+    ),
+  },
+  "galactic-regions": {
+    bounds: obj(
+      {
+        azimuthStart: num,
+        azimuthEnd: num,
+        distanceMin: num,
+        distanceMax: num,
+        elevationMin: num,
+        elevationMax: num,
+      },
+      ["azimuthStart", "azimuthEnd", "distanceMin", "distanceMax"]
+    ),
+    center: POSITION,
+  },
+  religions: {
+    deities: arr(obj({ name: str(), title: str(), domain: str(), description: str() }, ["name"])),
+    holyTexts: arr(obj({ name: str(), description: str() }, ["name"])),
+  },
+  "star-systems": {
+    position: POSITION,
+    stars: arr(STAR),
+  },
+  relationships: {
+    metadata: rec(any),
+  },
+};
+
+function fieldSchema(spec: FieldSpec): Schema {
+  switch (spec.kind) {
+    case "number":
+      return num;
+    case "boolean":
+      return bool;
+    case "enum":
+      return str(spec.options);
+    case "string[]":
+      return arr(str());
+    case "json":
+      return any;
+    default:
+      return str();
+  }
+}
+
+function buildEntitySchema(entityType: EntityType): Schema {
+  const specs = ENTITY_FIELDS[entityType];
+  const nested = NESTED_FIELDS[entityType] ?? {};
+  const fields: Record<string, Schema> = { id: str() };
+  for (const spec of specs) {
+    fields[spec.key] = nested[spec.key] ?? fieldSchema(spec);
+  }
+  const required = ["id", ...specs.filter((s) => s.required).map((s) => s.key)];
+  return obj(fields, required);
+}
+
+export const ENTITY_SCHEMAS = Object.fromEntries(
+  ENTITY_TYPES.map((t) => [t, buildEntitySchema(t)])
+) as Record<EntityType, Schema>;
+
+/** Extends an object schema with extra fields / required keys */
+function extend(base: Schema, fields: Record<string, Schema>, required: string[]): Schema {
+  if (base.kind !== "object") return base;
+  return obj({ ...base.fields, ...fields }, [...(base.required ?? []), ...required]);
+}
+
+/** What the galaxy map needs to place a system: a position and at least one star */
+export const MAP_STAR_SYSTEM_SCHEMA = extend(ENTITY_SCHEMAS["star-systems"], { stars: arr(STAR, true) }, [
+  "position",
+  "stars",
+]);
+
+/** What the system view needs to draw a planet: its orbit and render hints */
+export const MAP_PLANET_SCHEMA = extend(ENTITY_SCHEMAS.planets, {}, ["orbit", "render"]);
+
+/** What the galaxy map needs to draw a region's sector: its bounds */
+export const MAP_REGION_SCHEMA = extend(ENTITY_SCHEMAS["galactic-regions"], {}, ["bounds"]);
+
+// ─── Record filtering + reporting ───────────────────────────────
+export interface ValidateOptions {
+  /** Where the records came from, shown in the diagnostics panel */
+  source: string;
+  entityType: EntityType;
+  /** Treat warnings as errors (for consumers that can't cope with any deviation) */
+  strict?: boolean;
+}
+
+/**
+ * Validate a list of records, report problems, and return only the records
+ * that are safe to render. Records with warnings are kept.
+ */
+export function validateRecords<T>(records: unknown[], schema: Schema, options: ValidateOptions): T[] {
+  const valid: T[] = [];
+  for (const record of records) {
+    const issues = validate(record, schema).map((i) =>
+      options.strict ? { ...i, severity: "error" as const } : i
+    );
+    const dropped = issues.some((i) => i.severity === "error");
+    if (issues.length > 0) reportRecordIssues(record, issues, options, dropped);
+    if (!dropped) valid.push(record as T);
+  }
+  return valid;
+}
+
+function reportRecordIssues(record: unknown, issues: ValidationIssue[], options: ValidateOptions, dropped: boolean) {
+  const r = isPlainObject(record) ? record : {};
+  reportDiagnostics({
+    source: options.source,
+    entityType: options.entityType,
+    recordId: typeof r.id === "string" ? r.id : undefined,
+    recordName: typeof r.name === "string" ? r.name : typeof r.title === "string" ? r.title : undefined,
+    issues,
+    dropped,
+  });
+}
+
+const SINGULAR_TO_TYPE = Object.fromEntries(
+  Object.entries(ENTITY_SINGULAR).map(([type, singular]) => [singular, type as EntityType])
+) as Record<string, EntityType>;
+
+/** Which entity collection a tool's result holds, if any */
+export function toolEntityType(toolName: string, args: Record<string, unknown>): EntityType | null {
+  if (toolName === "query_world") {
+    const t = args.entityType;
+    return typeof t === "string" && t in ENTITY_SCHEMAS ? (t as EntityType) : null;
+  }
+  if (toolName === "find_entity_relationships") return "relationships";
+  if (toolName === "get_timeline") return "events";
+
+  const match = toolName.match(/^(get|create|update|list|search)_(.+)$/);
+  if (!match) return null;
+  const [, op, rest] = match;
+  if (op === "list" || op === "search") {
+    return rest in ENTITY_SCHEMAS ? (rest as EntityType) : null;
+  }
+  return SINGULAR_TO_TYPE[rest] ?? null;
+}
+
+/**
+ * Check a parsed tool response against the entity schema for that tool.
+ * Problems are reported but every record is returned as-is: the generic
+ * list, card and detail views render any shape, and a record left out
+ * here couldn't be opened to fix or delete it.
+ */
+export function checkToolResponse(
+  toolName: string,
+  args: Record<string, unknown>,
+  response: ToolResponse<unknown>
+): ToolResponse<unknown> {
+  if (!response.success || response.data === undefined || response.data === null) return response;
+  const entityType = toolEntityType(toolName, args);
+  if (!entityType) return response;
+
+  const schema = ENTITY_SCHEMAS[entityType];
+  const options = { source: toolName, entityType };
+
+  const records: unknown[] = Array.isArray(response.data) ? response.data : [response.data];
+  for (const record of records) {
+    const issues = validate(record, schema);
+    if (issues.length > 0) reportRecordIssues(record, issues, options, false);
+  }
+  return response;
+}
@@ -1,4 +1,6 @@
 import type { ToolResponse } from "../types";
+import type { ToolName, ToolArgs, ToolResult } from "./tools";
+import { checkToolResponse } from "./validation";
 
 // ─── Config (set via env vars at build time) ────────────────────
 const API_URL = import.meta.env.VITE_WORLDBUILDER_API_URL ?? "";
@@ -7,10 +9,20 @@ const API_KEY = import.meta.env.VITE_WORLDBUILDER_API_KEY ?? "";
 // ─── Core RPC caller ────────────────────────────────────────────
 let requestId = 0;
 
-export async function callTool<T = unknown>(
+/** Known tool: argument and result types are inferred from the name */
+export async function callTool<K extends ToolName>(
+  toolName: K,
+  args: ToolArgs<K>
+): Promise<ToolResponse<ToolResult<K>>>;
+/** Dynamically named tool (e.g. `get_${singular}`): result type supplied by the caller */
+export async function callTool<T = unknown, N extends string = string>(
+  toolName: N extends ToolName ? never : N,
+  args?: Record<string, unknown>
+): Promise<ToolResponse<T>>;
+export async function callTool(
   toolName: string,
-  args: Record<string, unknown> = {}
-): Promise<ToolResponse<T>> {
+  args: object = {}
+): Promise<ToolResponse<unknown>> {
   const id = ++requestId;
 
   const response = await fetch(API_URL, {
@@ -45,7 +57,8 @@ export async function callTool<T = unknown>(
       }
 
       const innerText = envelope.result.content[0].text;
-      return JSON.parse(innerText) as ToolResponse<T>;
+      const parsed = JSON.parse(innerText) as ToolResponse<unknown>;
+      return checkToolResponse(toolName, args as Record<string, unknown>, parsed);
     }
   }
 
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Chip,
+  Drawer,
+  IconButton,
+  Stack,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import BugReportIcon from "@mui/icons-material/BugReport";
+import { Link as RouterLink, useParams } from "react-router-dom";
+import { clearDiagnostics } from "../api/diagnostics";
+import { useDiagnostics } from "../hooks/useDiagnostics";
+
+/**
+ * Dev-only toolbar button + drawer listing records that failed schema
+ * validation, with the offending field paths.
+ */
+export default function DiagnosticsPanel() {
+  const diagnostics = useDiagnostics();
+  const [open, setOpen] = useState(false);
+  const { worldId } = useParams<{ worldId: string }>();
+
+  const errorCount = diagnostics.filter((d) => d.issues.some((i) => i.severity === "error")).length;
+
+  return (
+    <>
+      <Tooltip title="Schema diagnostics">
+        <IconButton color="inherit" onClick={() => setOpen(true)}>
+          <Badge
+            badgeContent={diagnostics.length}
+            color={errorCount > 0 ? "error" : "warning"}
+            max={99}
+          >
+            <BugReportIcon />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Drawer anchor="right" open={open} onClose={() => setOpen(false)}>
+        <Box sx={{ width: { xs: 320, sm: 440 }, p: 2 }}>
+          <Stack direction="row" alignItems="center" justifyContent="space-between" mb={2}>
+            <Typography variant="h6">Schema diagnostics</Typography>
+            <Button size="small" onClick={clearDiagnostics} disabled={diagnostics.length === 0}>
+              Clear
+            </Button>
+          </Stack>
+
+          {diagnostics.length === 0 ? (
+            <Typography color="text.secondary">No invalid records.</Typography>
+          ) : (
+            <Stack spacing={1.5}>
+              {diagnostics.map((d) => {
+                const hasErrors = d.issues.some((i) => i.severity === "error");
+                return (
+                  <Box
+                    key={d.key}
+                    sx={{ p: 1.5, borderRadius: 1, border: 1, borderColor: hasErrors ? "error.dark" : "warning.dark" }}
+                  >
+                    <Stack direction="row" spacing={1} alignItems="center" mb={0.5}>
+                      <Chip label={d.entityType} size="small" variant="outlined" />
+                      <Typography variant="body2" fontWeight={600} noWrap sx={{ flex: 1 }}>
+                        {worldId && d.recordId ? (
+                          <RouterLink
+                            to={`/worlds/${worldId}/${d.entityType}/${d.recordId}`}
+                            onClick={() => setOpen(false)}
+                            style={{ color: "inherit" }}
+                          >
+                            {d.recordName ?? d.recordId}
+                          </RouterLink>
+                        ) : (
+                          d.recordName ?? d.recordId ?? "Unknown record"
+                        )}
+                      </Typography>
+                    </Stack>
+                    <Typography variant="caption" color="text.secondary" display="block" mb={0.5}>
+                      {d.source} · {d.dropped ? "left out" : hasErrors ? "shown with errors" : "shown with warnings"}
+                    </Typography>
+                    {d.issues.map((issue, i) => (
+                      <Typography
+                        key={i}
+                        variant="body2"
+                        color={issue.severity === "error" ? "error.light" : "warning.light"}
+                        sx={{ fontFamily: "monospace", fontSize: "0.75rem" }}
+                      >
+                        {issue.path}: {issue.message}
+                      </Typography>
+                    ))}
+                  </Box>
+                );
+              })}
+            </Stack>
+          )}
+        </Box>
+      </Drawer>
+    </>
+  );
+}
@@ -14,7 +14,7 @@ export default function EntityCard({ entity, entityType, worldId }: Props) {
   const singular = ENTITY_SINGULAR[entityType];
 
   const displayName = entity.name || entity.title || entity.id;
-const subtitle = entity.type || (entity.role as string) || (entity.category as string);
+  const subtitle = entity.type || entity.role || entity.category;
 
   return (
     <Card>
@@ -65,20 +65,20 @@ const subtitle = entity.type || (entity.role as string) || (entity.category as s
             </Typography>
           )}
 
-          {entity.tags && (entity.tags as string[]).length > 0 && (
+          {entity.tags && entity.tags.length > 0 && (
             <Stack direction="row" spacing={0.5} mt={1.5} flexWrap="wrap" useFlexGap>
-              {(entity.tags as string[]).slice(0, 4).map((tag: string) => (
+              {entity.tags.slice(0, 4).map((tag) => (
                 <Chip key={tag} label={tag} size="small" variant="outlined" sx={{ fontSize: "0.65rem" }} />
               ))}
-              {(entity.tags as string[]).length > 4 && (
-                <Chip label={`+${(entity.tags as string[]).length - 4}`} size="small" variant="outlined" sx={{ fontSize: "0.65rem" }} />
+              {entity.tags.length > 4 && (
+                <Chip label={`+${entity.tags.length - 4}`} size="small" variant="outlined" sx={{ fontSize: "0.65rem" }} />
               )}
             </Stack>
           )}
 
           {entity.status && (
             <Chip
-              label={String(entity.status)}
+              label={entity.status}
               size="small"
               color={entity.status === "alive" || entity.status === "active" ? "success" : "default"}
               sx={{ mt: 1.5, textTransform: "capitalize" }}
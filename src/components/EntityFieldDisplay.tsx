@@ -2,6 +2,8 @@ import { Typography, Box, Chip, Stack, alpha, IconButton, Tooltip } from "@mui/m
 import OpenInNewIcon from "@mui/icons-material/OpenInNew";
 import { ENTITY_SINGULAR } from "../types";
 import type { EntityType } from "../types";
+import { describeAge, displayDate, type Calendar } from "../utils/calendar";
+import { formatLabel } from "../utils/format";
 
 /** Reverse map: singular tool name → entity collection type */
 const SINGULAR_TO_TYPE: Record<string, EntityType> = Object.fromEntries(
@@ -25,12 +27,23 @@ interface Props {
   worldId?: string;
   /** Extra entity data – used to resolve generic refs like sourceType+sourceId */
   entityData?: Record<string, unknown>;
+  /** The world's calendar — date fields and birth-date ages are spelled through it */
+  calendar?: Calendar;
+  /** The world's present (its timeline end), for ages */
+  presentDay?: number | null;
+}
+
+/** In-world date text, formatted through the calendar (null when it isn't a date field) */
+function calendarText(label: string, value: string, calendar: Calendar, presentDay: number | null): string | null {
+  if (label === "date" || label.endsWith("Date")) return displayDate(value, calendar);
+  if (label === "age") return describeAge(value, calendar, presentDay);
+  return null;
 }
 
 /**
  * Renders a key-value field from an entity with smart formatting.
  */
-export default function EntityField({ label, value, worldId, entityData }: Props) {
+export default function EntityField({ label, value, worldId, entityData, calendar, presentDay = null }: Props) {
   if (value === null || value === undefined || value === "") return null;
 
   // Skip internal fields
@@ -116,6 +129,19 @@ export default function EntityField({ label, value, worldId, entityData }: Props
       );
     }
 
+    // In-world dates: the calendar's spelling, with the text as written alongside
+    const formatted = calendar && typeof value === "string" ? calendarText(label, value, calendar, presentDay) : null;
+    if (formatted && formatted !== value) {
+      return (
+        <Typography variant="body2" color="text.primary">
+          {formatted}{" "}
+          <Typography component="span" variant="caption" color="text.secondary">
+            ({String(value)})
+          </Typography>
+        </Typography>
+      );
+    }
+
     return (
       <Typography variant="body2" color="text.primary">
         {String(value)}
@@ -152,7 +178,7 @@ export default function EntityField({ label, value, worldId, entityData }: Props
         color="text.secondary"
         sx={{ letterSpacing: 1.5, fontSize: "0.65rem" }}
       >
-        {formatLabel(label)}
+        {formatLabel(label).toUpperCase()}
       </Typography>
       <Box mt={0.25} display="flex" alignItems="center">
         {rendered}
@@ -161,11 +187,3 @@ export default function EntityField({ label, value, worldId, entityData }: Props
     </Box>
   );
 }
-
-function formatLabel(key: string): string {
-  return key
-    .replace(/([A-Z])/g, " $1")
-    .replace(/[_-]/g, " ")
-    .trim()
-    .toUpperCase();
-}
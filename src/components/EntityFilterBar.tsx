@@ -0,0 +1,148 @@
+import {
+  Autocomplete,
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import type { EntityType } from "../types";
+import { ENTITY_FIELDS, LIST_FILTERS, type FieldSpec } from "../types/fields";
+import { hasTags, isListQueryActive, sortFields, type ListQuery } from "../utils/listQuery";
+import { formatLabel } from "../utils/format";
+
+interface Props {
+  entityType: EntityType;
+  query: ListQuery;
+  onChange: (query: ListQuery) => void;
+}
+
+/**
+ * Server-side filter + sort controls for an entity list, generated from the
+ * collection's documented list filters.
+ */
+export default function EntityFilterBar({ entityType, query, onChange }: Props) {
+  const specs = (LIST_FILTERS[entityType] ?? [])
+    .map((key) => ENTITY_FIELDS[entityType].find((f) => f.key === key))
+    .filter((f): f is FieldSpec => !!f);
+
+  const setFilter = (key: string, values: string[]) => {
+    const filters = { ...query.filters };
+    if (values.length > 0) filters[key] = values;
+    else delete filters[key];
+    onChange({ ...query, filters });
+  };
+
+  return (
+    <Box display="flex" flexWrap="wrap" gap={1.5} alignItems="center">
+      {specs.map((spec) => (
+        <MultiValueFilter
+          key={spec.key}
+          label={formatLabel(spec.key)}
+          options={spec.options ?? []}
+          // Enums only accept their documented values; everything else is free text
+          freeSolo={spec.kind !== "enum"}
+          placeholder={spec.ref ? `${spec.ref} ID` : undefined}
+          value={query.filters[spec.key] ?? []}
+          onChange={(values) => setFilter(spec.key, values)}
+        />
+      ))}
+
+      {hasTags(entityType) && (
+        <MultiValueFilter
+          label="Tags (any)"
+          options={[]}
+          freeSolo
+          value={query.tags}
+          onChange={(tags) => onChange({ ...query, tags })}
+        />
+      )}
+
+      <Box display="flex" alignItems="center">
+        <TextField
+          select
+          size="small"
+          label="Sort by"
+          value={query.sort?.field ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...query,
+              sort: e.target.value ? { field: e.target.value, direction: query.sort?.direction ?? "asc" } : null,
+            })
+          }
+          sx={{ width: 170 }}
+        >
+          <MenuItem value="">
+            <em>Default</em>
+          </MenuItem>
+          {sortFields(entityType).map((field) => (
+            <MenuItem key={field} value={field}>
+              {formatLabel(field)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Tooltip title={query.sort?.direction === "desc" ? "Descending" : "Ascending"}>
+          <span>
+            <IconButton
+              size="small"
+              disabled={!query.sort}
+              onClick={() =>
+                query.sort &&
+                onChange({
+                  ...query,
+                  sort: { ...query.sort, direction: query.sort.direction === "asc" ? "desc" : "asc" },
+                })
+              }
+            >
+              {query.sort?.direction === "desc" ? (
+                <ArrowDownwardIcon fontSize="small" />
+              ) : (
+                <ArrowUpwardIcon fontSize="small" />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {isListQueryActive(query) && (
+        <Button size="small" onClick={() => onChange({ filters: {}, tags: [], sort: null })}>
+          Clear filters
+        </Button>
+      )}
+    </Box>
+  );
+}
+
+function MultiValueFilter({
+  label,
+  options,
+  freeSolo,
+  placeholder,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: readonly string[];
+  freeSolo: boolean;
+  placeholder?: string;
+  value: string[];
+  onChange: (values: string[]) => void;
+}) {
+  return (
+    <Autocomplete
+      multiple
+      freeSolo={freeSolo}
+      size="small"
+      options={options as string[]}
+      value={value}
+      onChange={(_, values) => onChange(values.map((v) => v.trim()).filter(Boolean))}
+      renderInput={(params) => (
+        <TextField {...params} label={label} placeholder={value.length === 0 ? placeholder : undefined} />
+      )}
+      sx={{ width: 200 }}
+    />
+  );
+}
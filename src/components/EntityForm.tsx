@@ -0,0 +1,202 @@
+import { useState, useMemo } from "react";
+import {
+  Box,
+  Grid,
+  TextField,
+  MenuItem,
+  Button,
+  Stack,
+  Alert,
+  Autocomplete,
+  CircularProgress,
+} from "@mui/material";
+import type { EntityType } from "../types";
+import type { FieldSpec } from "../types/fields";
+import { formFields, toInput, fromInput } from "../utils/entityForm";
+import EntityPicker from "./EntityPicker";
+import { formatLabel } from "../utils/format";
+
+interface Props {
+  entityType: EntityType;
+  /** Existing entity when editing; omitted when creating */
+  entity?: Record<string, unknown>;
+  submitLabel: string;
+  submitting?: boolean;
+  error?: string | null;
+  onSubmit: (values: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Create / edit form for any entity type, generated from ENTITY_FIELDS.
+ * Calls `onSubmit` with every parsed field (empty fields as `undefined`).
+ */
+export default function EntityForm({
+  entityType,
+  entity,
+  submitLabel,
+  submitting,
+  error,
+  onSubmit,
+  onCancel,
+}: Props) {
+  const fields = useMemo(() => formFields(entityType, entity), [entityType, entity]);
+
+  const [inputs, setInputs] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map((f) => [f.key, toInput(f, entity?.[f.key])]))
+  );
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const setInput = (key: string, value: string) => {
+    setInputs((prev) => ({ ...prev, [key]: value }));
+    setFieldErrors((prev) => {
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const values: Record<string, unknown> = {};
+    const errors: Record<string, string> = {};
+    for (const field of fields) {
+      const parsed = fromInput(field, inputs[field.key] ?? "", entity?.[field.key]);
+      if ("error" in parsed) errors[field.key] = parsed.error;
+      else values[field.key] = parsed.value;
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) onSubmit(values);
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Grid container spacing={2}>
+        {fields.map((field) => (
+          <Grid key={field.key} size={{ xs: 12, md: isWide(field) ? 12 : 6 }}>
+            <FieldInput
+              field={field}
+              value={inputs[field.key] ?? ""}
+              error={fieldErrors[field.key]}
+              onChange={(v) => setInput(field.key, v)}
+            />
+          </Grid>
+        ))}
+      </Grid>
+
+      <Stack direction="row" spacing={1} justifyContent="flex-end" mt={3}>
+        <Button onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={submitting}
+          startIcon={submitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {submitLabel}
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
+
+function isWide(field: FieldSpec): boolean {
+  return field.kind === "text" || field.kind === "json";
+}
+
+function FieldInput({
+  field,
+  value,
+  error,
+  onChange,
+}: {
+  field: FieldSpec;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  const label = formatLabel(field.key) + (field.required ? " *" : "");
+  const helperText = error ?? (field.kind === "string[]" ? "Comma-separated" : undefined);
+
+  if (field.kind === "enum" || field.kind === "boolean") {
+    const documented = field.kind === "boolean" ? ["true", "false"] : field.options ?? [];
+    // A stored value outside the options (legacy data) stays selectable
+    const options = value && !documented.includes(value) ? [...documented, value] : documented;
+    return (
+      <TextField
+        select
+        fullWidth
+        size="small"
+        label={label}
+        value={value}
+        error={!!error}
+        helperText={error}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <MenuItem value="">
+          <em>Not set</em>
+        </MenuItem>
+        {options.map((o) => (
+          <MenuItem key={o} value={o}>
+            {field.kind === "boolean" ? (o === "true" ? "Yes" : "No") : o}
+          </MenuItem>
+        ))}
+      </TextField>
+    );
+  }
+
+  // Single reference (e.g. factionId): pick by name, or paste an ID
+  if (field.kind === "string" && field.ref) {
+    return (
+      <EntityPicker
+        fullWidth
+        label={label}
+        types={[field.ref]}
+        value={value ? { type: field.ref, id: value } : null}
+        onChange={(ref) => onChange(ref?.id ?? "")}
+        placeholder={`Search ${field.ref}…`}
+        error={!!error}
+        helperText={error}
+      />
+    );
+  }
+
+  // Free text with suggested values (e.g. faction "type")
+  if (field.kind === "string" && field.options) {
+    return (
+      <Autocomplete
+        freeSolo
+        options={field.options as string[]}
+        inputValue={value}
+        onInputChange={(_, v) => onChange(v)}
+        renderInput={(params) => (
+          <TextField {...params} size="small" label={label} error={!!error} helperText={error} />
+        )}
+      />
+    );
+  }
+
+  return (
+    <TextField
+      fullWidth
+      size="small"
+      label={label}
+      value={value}
+      error={!!error}
+      helperText={helperText}
+      onChange={(e) => onChange(e.target.value)}
+      type={field.kind === "number" ? "number" : "text"}
+      {...(isWide(field) ? { multiline: true, minRows: field.kind === "json" ? 3 : 2, maxRows: 12 } : {})}
+      slotProps={field.kind === "json" ? { htmlInput: { style: { fontFamily: "monospace", fontSize: "0.8rem" } } } : undefined}
+      placeholder={field.ref ? `${field.ref} ID` : undefined}
+    />
+  );
+}
@@ -0,0 +1,54 @@
+import type { SvgIconProps } from "@mui/material";
+import type { SvgIconComponent } from "@mui/icons-material";
+import PersonIcon from "@mui/icons-material/Person";
+import GroupsIcon from "@mui/icons-material/Groups";
+import PublicIcon from "@mui/icons-material/Public";
+import PlaceIcon from "@mui/icons-material/Place";
+import MemoryIcon from "@mui/icons-material/Memory";
+import DirectionsCarIcon from "@mui/icons-material/DirectionsCar";
+import PetsIcon from "@mui/icons-material/Pets";
+import Inventory2Icon from "@mui/icons-material/Inventory2";
+import AssignmentTurnedInIcon from "@mui/icons-material/AssignmentTurnedIn";
+import EventIcon from "@mui/icons-material/Event";
+import MenuBookIcon from "@mui/icons-material/MenuBook";
+import AccountBalanceIcon from "@mui/icons-material/AccountBalance";
+import HubIcon from "@mui/icons-material/Hub";
+import AutoAwesomeIcon from "@mui/icons-material/AutoAwesome";
+import LocalFireDepartmentIcon from "@mui/icons-material/LocalFireDepartment";
+import RadarIcon from "@mui/icons-material/Radar";
+import SelfImprovementIcon from "@mui/icons-material/SelfImprovement";
+import StarsIcon from "@mui/icons-material/Stars";
+import HelpOutlineIcon from "@mui/icons-material/HelpOutline";
+import { ENTITY_ICONS, type EntityType } from "../types";
+
+/** Icon components for the names listed in ENTITY_ICONS */
+const ICON_COMPONENTS: Record<string, SvgIconComponent> = {
+  Person: PersonIcon,
+  Groups: GroupsIcon,
+  Public: PublicIcon,
+  Place: PlaceIcon,
+  Memory: MemoryIcon,
+  DirectionsCar: DirectionsCarIcon,
+  Pets: PetsIcon,
+  Inventory2: Inventory2Icon,
+  AssignmentTurnedIn: AssignmentTurnedInIcon,
+  Event: EventIcon,
+  MenuBook: MenuBookIcon,
+  AccountBalance: AccountBalanceIcon,
+  Hub: HubIcon,
+  AutoAwesome: AutoAwesomeIcon,
+  LocalFireDepartment: LocalFireDepartmentIcon,
+  Radar: RadarIcon,
+  SelfImprovement: SelfImprovementIcon,
+  Stars: StarsIcon,
+};
+
+interface Props extends SvgIconProps {
+  type: EntityType | string;
+}
+
+/** The ENTITY_ICONS icon for an entity type (a question mark for unknown types) */
+export default function EntityIcon({ type, ...props }: Props) {
+  const Icon = ICON_COMPONENTS[ENTITY_ICONS[type as EntityType]] ?? HelpOutlineIcon;
+  return <Icon {...props} />;
+}
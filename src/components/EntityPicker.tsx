@@ -0,0 +1,214 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { Autocomplete, Box, CircularProgress, TextField, Typography } from "@mui/material";
+import { fetchQuery } from "../api/queryCache";
+import EntityIcon from "./EntityIcon";
+import { entityColor } from "../theme/entityColors";
+import type { Entity, EntityRef, EntityType } from "../types";
+import { ENTITY_TYPES, ENTITY_LABELS, ENTITY_SINGULAR } from "../types";
+
+interface Option extends EntityRef {
+  label: string;
+}
+
+interface Props {
+  /** Selected entity; `type` is "" for a raw ID typed in by hand with no type restriction */
+  value: EntityRef | null;
+  onChange: (value: EntityRef | null) => void;
+  /** Collections to search (default: every collection with a name) */
+  types?: EntityType[];
+  label?: string;
+  placeholder?: string;
+  size?: "small" | "medium";
+  fullWidth?: boolean;
+  error?: boolean;
+  helperText?: string;
+  /** Defaults to the `:worldId` route param */
+  worldId?: string;
+}
+
+const DEBOUNCE_MS = 250;
+/** Searching every collection at once waits for a longer term */
+const MIN_TERM_ALL_TYPES = 2;
+const PER_TYPE_LIMIT = 5;
+
+/** Relationships have no name to search by */
+const SEARCHABLE_TYPES = ENTITY_TYPES.filter((t) => t !== "relationships");
+
+/** Lore is titled rather than named */
+const nameField = (type: EntityType) => (type === "lore" ? "title" : "name");
+
+/**
+ * Name-prefix search for `term` in one collection, as a single request.
+ * Firestore range queries are case-sensitive and names are capitalized,
+ * so an all-lower-case term is searched capitalized.
+ */
+async function searchType(worldId: string, type: EntityType, term: string): Promise<Option[]> {
+  const prefix = term === term.toLowerCase() ? term.charAt(0).toUpperCase() + term.slice(1) : term;
+  const field = nameField(type);
+  const res = await fetchQuery("query_world", {
+    worldId,
+    entityType: type,
+    filters: [
+      { field, operator: ">=", value: prefix },
+      { field, operator: "<", value: `${prefix}\uf8ff` },
+    ],
+    limit: PER_TYPE_LIMIT,
+  }).catch(() => null);
+  return (res?.success ? (res.data as Entity[] | undefined) ?? [] : []).map((e) => ({
+    type,
+    id: e.id,
+    label: e.name || e.title || e.id,
+  }));
+}
+
+/**
+ * Autocomplete that finds entities by name across collections and
+ * returns `{ type, id }`. An exact ID can also be typed and confirmed
+ * with Enter.
+ */
+export default function EntityPicker({
+  value,
+  onChange,
+  types = SEARCHABLE_TYPES,
+  label = "Entity",
+  placeholder = "Search by name…",
+  size = "small",
+  fullWidth,
+  error,
+  helperText,
+  worldId: worldIdProp,
+}: Props) {
+  const params = useParams<{ worldId: string }>();
+  const worldId = worldIdProp ?? params.worldId ?? "";
+
+  const [input, setInput] = useState("");
+  const [results, setResults] = useState<{ term: string; options: Option[] }>({ term: "", options: [] });
+  const [selectedLabel, setSelectedLabel] = useState<{ id: string; label: string } | null>(null);
+
+  const term = input.trim();
+  const typesKey = types.join(",");
+  const searchable = types.length === 1 || term.length >= MIN_TERM_ALL_TYPES;
+
+  // Debounced search across the requested collections
+  useEffect(() => {
+    if (!term || !searchable || !worldId || term === selectedLabel?.label) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const perType = await Promise.all(types.map((t) => searchType(worldId, t, term)));
+      if (!cancelled) setResults({ term, options: perType.flat() });
+    }, DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [term, worldId, typesKey]);
+
+  // Resolve the display name of a value set from outside (e.g. an existing ID)
+  useEffect(() => {
+    if (!value?.id || !value.type || selectedLabel?.id === value.id) return;
+    const singular = ENTITY_SINGULAR[value.type as EntityType];
+    if (!singular || !worldId) return;
+    let cancelled = false;
+    fetchQuery<Entity>(`get_${singular}`, { worldId, id: value.id })
+      .then((res) => {
+        const name = res.data?.name || res.data?.title;
+        if (!cancelled && name) setSelectedLabel({ id: value.id, label: name });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [value?.id, value?.type, worldId, selectedLabel?.id]);
+
+  const selected: Option | null = value?.id
+    ? {
+        ...value,
+        label: selectedLabel?.id === value.id ? selectedLabel.label : value.id,
+      }
+    : null;
+
+  const searching = !!term && searchable && results.term !== term && term !== selected?.label;
+
+  // Text typed or pasted without pressing Enter still counts once focus leaves
+  const commitTyped = () => {
+    if (term === (selected?.label ?? "")) return;
+    if (!term) onChange(null);
+    else if (term !== value?.id) onChange({ type: types.length === 1 ? types[0] : "", id: term });
+  };
+  const options = results.term === term ? results.options : [];
+
+  return (
+    <Autocomplete<Option, false, false, true>
+      freeSolo
+      size={size}
+      fullWidth={fullWidth}
+      value={selected}
+      inputValue={input}
+      options={options}
+      loading={searching}
+      // Options already match server-side; don't filter them again
+      filterOptions={(o) => o}
+      groupBy={(o) => ENTITY_LABELS[o.type as EntityType] ?? o.type}
+      getOptionLabel={(o) => (typeof o === "string" ? o : o.label)}
+      getOptionKey={(o) => (typeof o === "string" ? o : `${o.type}/${o.id}`)}
+      isOptionEqualToValue={(a, b) => a.id === b.id && a.type === b.type}
+      onInputChange={(_, v) => setInput(v)}
+      onBlur={commitTyped}
+      onChange={(_, v) => {
+        if (v === null) {
+          onChange(null);
+        } else if (typeof v === "string") {
+          // Raw ID: typed only when there's a single candidate collection
+          const id = v.trim();
+          onChange(id ? { type: types.length === 1 ? types[0] : "", id } : null);
+        } else {
+          setSelectedLabel({ id: v.id, label: v.label });
+          onChange({ type: v.type, id: v.id });
+        }
+      }}
+      renderOption={({ key, ...props }, o) => (
+        <Box component="li" key={key} {...props} sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+          <EntityIcon type={o.type} fontSize="small" sx={{ color: entityColor(o.type) }} />
+          <Box sx={{ minWidth: 0 }}>
+            <Typography variant="body2" noWrap>
+              {o.label}
+            </Typography>
+            <Typography variant="caption" color="text.secondary" noWrap display="block">
+              {o.id}
+            </Typography>
+          </Box>
+        </Box>
+      )}
+      noOptionsText={
+        !term ? "Type to search" : searchable ? "No matches — press Enter to use as an ID" : "Keep typing to search"
+      }
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          placeholder={placeholder}
+          error={error}
+          helperText={helperText}
+          slotProps={{
+            input: {
+              ...params.InputProps,
+              startAdornment: selected?.type ? (
+                <EntityIcon type={selected.type} fontSize="small" sx={{ color: entityColor(selected.type), ml: 0.5 }} />
+              ) : (
+                params.InputProps.startAdornment
+              ),
+              endAdornment: (
+                <>
+                  {searching && <CircularProgress color="inherit" size={16} />}
+                  {params.InputProps.endAdornment}
+                </>
+              ),
+            },
+          }}
+        />
+      )}
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect, useRef } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Outlet, useNavigate, useLocation, Link as RouterLink } from "react-router-dom";
 import {
   AppBar,
@@ -21,8 +21,9 @@ import MenuIcon from "@mui/icons-material/Menu";
 import PublicIcon from "@mui/icons-material/Public";
 import HomeIcon from "@mui/icons-material/Home";
 import AutoStoriesIcon from "@mui/icons-material/AutoStories";
-import { callTool } from "../api/worldbuilder";
-import { ENTITY_SINGULAR, type EntityType } from "../types";
+import { fetchQuery } from "../api/queryCache";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import { ENTITY_SINGULAR, type EntityType, type World } from "../types";
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -47,8 +48,9 @@ export default function Layout() {
   }, [location.pathname]);
 
   // ─── Resolve UUID breadcrumb segments to entity names ─────────
+  // Lookups go through the shared query cache, so they reuse whatever the
+  // page itself already loaded instead of fetching it a second time.
   const [nameMap, setNameMap] = useState<Record<string, string>>({});
-  const nameCache = useRef<Record<string, string>>({});
 
   useEffect(() => {
     const parts = location.pathname.split("/").filter(Boolean);
@@ -58,7 +60,6 @@ export default function Layout() {
     for (let i = 0; i < parts.length; i++) {
       const seg = parts[i];
       if (!UUID_RE.test(seg)) continue;
-      if (nameCache.current[seg]) continue; // already cached
 
       // UUID right after "worlds" → it's a worldId
       if (parts[i - 1] === "worlds") {
@@ -66,12 +67,10 @@ export default function Layout() {
           id: seg,
           fetchFn: async () => {
             try {
-              const res = await callTool<{ world?: { name?: string }; name?: string }>(
-                "get_world",
-                { worldId: seg }
-              );
-              const w = res.data;
-              return (w as any)?.name ?? (w as any)?.world?.name ?? null;
+              const res = await fetchQuery("get_world", { worldId: seg });
+              // Some deployments wrap the world as { world: {...} }
+              const w = res.data as (World & { world?: World }) | undefined;
+              return w?.name ?? w?.world?.name ?? null;
             } catch {
               return null;
             }
@@ -89,7 +88,7 @@ export default function Layout() {
             id: seg,
             fetchFn: async () => {
               try {
-                const res = await callTool<{ name?: string; title?: string }>(
+                const res = await fetchQuery<{ name?: string; title?: string }>(
                   `get_${singular}`,
                   { worldId, id: seg }
                 );
@@ -106,10 +105,7 @@ export default function Layout() {
             id: seg,
             fetchFn: async () => {
               try {
-                const res = await callTool<{ name?: string }>(
-                  "get_star_system",
-                  { worldId, id: seg }
-                );
+                const res = await fetchQuery("get_star_system", { worldId, id: seg });
                 return res.data?.name ?? null;
               } catch {
                 return null;
@@ -132,7 +128,6 @@ export default function Layout() {
         })
       );
       if (!cancelled) {
-        Object.assign(nameCache.current, results);
         setNameMap((prev) => ({ ...prev, ...results }));
       }
     })();
@@ -240,6 +235,12 @@ export default function Layout() {
                 );
               })}
             </Breadcrumbs>
+            {import.meta.env.DEV && (
+              <>
+                <Box sx={{ flex: 1 }} />
+                <DiagnosticsPanel />
+              </>
+            )}
           </Toolbar>
         </AppBar>
 
@@ -0,0 +1,505 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { Box, Paper, Typography, IconButton, Tooltip, Stack } from "@mui/material";
+import ZoomInIcon from "@mui/icons-material/ZoomIn";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import CenterFocusStrongIcon from "@mui/icons-material/CenterFocusStrong";
+import type { Relationship } from "../types";
+import { ENTITY_LABELS, type EntityType } from "../types";
+import { entityColor } from "../theme/entityColors";
+import { stepForces, ALPHA_DECAY, ALPHA_MIN, type ForceNode, type ForceLink } from "../utils/forceLayout";
+
+export interface GraphNode {
+  id: string;
+  entityType?: string;
+  label: string;
+  /** Neighbours have been fetched */
+  expanded: boolean;
+  loading?: boolean;
+  root?: boolean;
+  /** Node this one was discovered from — new nodes spawn next to it */
+  parentId?: string;
+}
+
+interface Props {
+  nodes: GraphNode[];
+  edges: Relationship[];
+  selectedId: string | null;
+  onNodeClick: (node: GraphNode) => void;
+  /** Emphasized chain (e.g. a found path); everything else is dimmed */
+  highlight?: { nodeIds: Set<string>; edgeIds: Set<string> } | null;
+  height?: number;
+}
+
+// ─── Edge styling ───────────────────────────────────────────────
+const EDGE_CATEGORIES = [
+  { label: "Alliance", color: "#66bb6a", types: ["ALLIED_WITH", "TRADES_WITH", "PROTECTS", "MENTORS"] },
+  { label: "Hostility", color: "#ff5252", types: ["ENEMY_OF", "THREATENS"] },
+  {
+    label: "Hierarchy",
+    color: "#b388ff",
+    types: ["MEMBER_OF", "LEADER_OF", "SERVES", "CONTROLS", "OWNS", "WORSHIPS", "CREATED_BY"],
+  },
+  { label: "Place", color: "#00e5ff", types: ["LOCATED_AT", "LOCATED_ON", "INHABITS"] },
+  { label: "Kinship", color: "#ffd740", types: ["PARENT_OF", "CHILD_OF"] },
+];
+const OTHER_EDGE = { label: "Other", color: "#9e9e9e", types: [] as string[] };
+
+function edgeCategory(type: string) {
+  return EDGE_CATEGORIES.find((c) => c.types.includes(type)) ?? OTHER_EDGE;
+}
+
+const STATUS_STYLES: Record<string, { dash?: string; opacity: number }> = {
+  active: { opacity: 0.9 },
+  inactive: { dash: "4 4", opacity: 0.5 },
+  broken: { dash: "2 6", opacity: 0.7 },
+  secret: { dash: "1 4", opacity: 0.8 },
+  historical: { dash: "10 4", opacity: 0.45 },
+};
+
+/** Stroke width for a 0–10 strength (missing = middle) */
+function edgeWidth(strength?: number): number {
+  return 1 + ((strength ?? 5) / 10) * 3;
+}
+
+// ─── Geometry ───────────────────────────────────────────────────
+const VIEW_W = 800;
+const VIEW_H = 600;
+const NODE_R = 13;
+const ROOT_R = 18;
+const CURVE_SPACING = 28;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Move `from` toward `to` by `dist` */
+function towards(from: Point, to: Point, dist: number): Point {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const len = Math.sqrt(dx * dx + dy * dy) || 1;
+  return { x: from.x + (dx / len) * dist, y: from.y + (dy / len) * dist };
+}
+
+function truncate(text: string, max = 18): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Force-directed node-link view of relationships. Drag a node to pin it,
+ * double-click to release; drag the background to pan, scroll to zoom.
+ */
+export default function RelationshipGraph({
+  nodes,
+  edges,
+  selectedId,
+  onNodeClick,
+  highlight = null,
+  height = 600,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const simRef = useRef(new Map<string, ForceNode>());
+  const linksRef = useRef<ForceLink[]>([]);
+  const alphaRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+
+  const [positions, setPositions] = useState<Map<string, Point & { pinned: boolean }>>(new Map());
+  const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+
+  const tick = useCallback(() => {
+    const sim = [...simRef.current.values()];
+    stepForces(sim, linksRef.current, alphaRef.current);
+    alphaRef.current *= ALPHA_DECAY;
+    setPositions(new Map(sim.map((n) => [n.id, { x: n.x, y: n.y, pinned: !!n.pinned }])));
+    frameRef.current = alphaRef.current > ALPHA_MIN ? requestAnimationFrame(tick) : null;
+  }, []);
+
+  const reheat = useCallback(
+    (alpha: number) => {
+      alphaRef.current = Math.max(alphaRef.current, alpha);
+      if (frameRef.current === null) frameRef.current = requestAnimationFrame(tick);
+    },
+    [tick]
+  );
+
+  useEffect(
+    () => () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    },
+    []
+  );
+
+  // Keep the simulation in sync with the node / edge lists
+  const nodeSignature = nodes.map((n) => n.id).join("|");
+  const edgeSignature = edges.map((e) => e.id).join("|");
+  useEffect(() => {
+    const sim = simRef.current;
+    const ids = new Set(nodes.map((n) => n.id));
+    for (const id of sim.keys()) if (!ids.has(id)) sim.delete(id);
+
+    let added = 0;
+    for (const node of nodes) {
+      if (sim.has(node.id)) continue;
+      const parent = node.parentId ? sim.get(node.parentId) : undefined;
+      const angle = Math.random() * Math.PI * 2;
+      const spread = parent ? 40 : node.root ? 0 : 120;
+      sim.set(node.id, {
+        id: node.id,
+        x: (parent?.x ?? 0) + Math.cos(angle) * spread,
+        y: (parent?.y ?? 0) + Math.sin(angle) * spread,
+        vx: 0,
+        vy: 0,
+        pinned: false,
+      });
+      added++;
+    }
+
+    linksRef.current = edges
+      .filter((e) => e.sourceId !== e.targetId)
+      .map((e) => ({ source: e.sourceId, target: e.targetId, length: 150 - (e.strength ?? 5) * 6 }));
+
+    reheat(added > 0 ? 0.8 : 0.3);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodeSignature, edgeSignature]);
+
+  // ─── Pointer interaction ──────────────────────────────────────
+  const toSvgPoint = (clientX: number, clientY: number): Point => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return { x: 0, y: 0 };
+    const pt = svg.createSVGPoint();
+    pt.x = clientX;
+    pt.y = clientY;
+    const p = pt.matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const dragRef = useRef<
+    | { mode: "pan"; start: Point; startView: typeof view }
+    | { mode: "node"; id: string; startClient: Point; moved: boolean }
+    | null
+  >(null);
+
+  const handleBackgroundDown = (e: React.PointerEvent) => {
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode: "pan", start: toSvgPoint(e.clientX, e.clientY), startView: view };
+  };
+
+  const handleNodeDown = (e: React.PointerEvent, id: string) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode: "node", id, startClient: { x: e.clientX, y: e.clientY }, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toSvgPoint(e.clientX, e.clientY);
+    if (drag.mode === "pan") {
+      setView({ ...drag.startView, x: drag.startView.x + p.x - drag.start.x, y: drag.startView.y + p.y - drag.start.y });
+      return;
+    }
+    if (!drag.moved && Math.hypot(e.clientX - drag.startClient.x, e.clientY - drag.startClient.y) < 4) return;
+    drag.moved = true;
+    const node = simRef.current.get(drag.id);
+    if (!node) return;
+    node.x = (p.x - view.x) / view.k;
+    node.y = (p.y - view.y) / view.k;
+    node.pinned = true;
+    reheat(0.3);
+  };
+
+  // Pointer capture retargets click events, so double-clicks are detected here
+  const lastClickRef = useRef<{ id: string; time: number } | null>(null);
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode !== "node" || drag.moved) return;
+
+    const now = performance.now();
+    const last = lastClickRef.current;
+    lastClickRef.current = { id: drag.id, time: now };
+    const simNode = simRef.current.get(drag.id);
+    if (last?.id === drag.id && now - last.time < 350 && simNode?.pinned) {
+      simNode.pinned = false;
+      reheat(0.3);
+      return;
+    }
+    const node = nodes.find((n) => n.id === drag.id);
+    if (node) onNodeClick(node);
+  };
+
+  // Wheel zoom around the pointer (non-passive so the page doesn't scroll)
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const p = toSvgPoint(e.clientX, e.clientY);
+      setView((v) => {
+        const k = Math.min(4, Math.max(0.2, v.k * Math.exp(-e.deltaY * 0.0015)));
+        return { k, x: p.x - (p.x - v.x) * (k / v.k), y: p.y - (p.y - v.y) * (k / v.k) };
+      });
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const zoomBy = (factor: number) =>
+    setView((v) => {
+      const k = Math.min(4, Math.max(0.2, v.k * factor));
+      return { k, x: v.x * (k / v.k), y: v.y * (k / v.k) };
+    });
+
+  const fitView = () => {
+    const pts = [...positions.values()];
+    if (pts.length === 0) return setView({ x: 0, y: 0, k: 1 });
+    const xs = pts.map((p) => p.x);
+    const ys = pts.map((p) => p.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const k = Math.min(2, (VIEW_W - 80) / Math.max(maxX - minX, 1), (VIEW_H - 80) / Math.max(maxY - minY, 1));
+    setView({ k, x: -((minX + maxX) / 2) * k, y: -((minY + maxY) / 2) * k });
+  };
+
+  // ─── Derived drawing data ─────────────────────────────────────
+  // Parallel edges between the same pair fan out as curves
+  const edgeCurves = useMemo(() => {
+    const groups = new Map<string, Relationship[]>();
+    for (const e of edges) {
+      if (e.sourceId === e.targetId) continue;
+      const key = [e.sourceId, e.targetId].sort().join("|");
+      groups.set(key, [...(groups.get(key) ?? []), e]);
+    }
+    const offsets = new Map<string, number>();
+    for (const group of groups.values()) {
+      group.forEach((e, i) => {
+        // Normalize direction so offsets don't cancel for opposite edges
+        const flip = e.sourceId > e.targetId ? -1 : 1;
+        offsets.set(e.id, (i - (group.length - 1) / 2) * CURVE_SPACING * flip);
+      });
+    }
+    return offsets;
+  }, [edges]);
+
+  const radiusOf = (id: string) => (nodes.find((n) => n.id === id)?.root ? ROOT_R : NODE_R);
+
+  const presentTypes = [...new Set(nodes.map((n) => n.entityType).filter((t): t is string => !!t))];
+  const presentCategories = [...new Set(edges.map((e) => edgeCategory(e.type)))];
+  const presentStatuses = [...new Set(edges.map((e) => e.status ?? "active"))];
+
+  return (
+    <Box sx={{ position: "relative", height, borderRadius: 2, overflow: "hidden", bgcolor: "#070b16" }}>
+      <svg
+        ref={svgRef}
+        viewBox={`${-VIEW_W / 2} ${-VIEW_H / 2} ${VIEW_W} ${VIEW_H}`}
+        width="100%"
+        height="100%"
+        style={{ display: "block", touchAction: "none", cursor: "grab" }}
+        onPointerDown={handleBackgroundDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <defs>
+          {[...EDGE_CATEGORIES, OTHER_EDGE].map((c) => (
+            <marker
+              key={c.label}
+              id={`rel-arrow-${c.label}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M0,0 L10,5 L0,10 z" fill={c.color} />
+            </marker>
+          ))}
+        </defs>
+
+        <g transform={`translate(${view.x},${view.y}) scale(${view.k})`}>
+          {/* Edges */}
+          {edges.map((e) => {
+            const a = positions.get(e.sourceId);
+            const b = positions.get(e.targetId);
+            if (!a || !b || e.sourceId === e.targetId) return null;
+            const offset = edgeCurves.get(e.id) ?? 0;
+            const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+            const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            const control = { x: mid.x - ((b.y - a.y) / len) * offset, y: mid.y + ((b.x - a.x) / len) * offset };
+            const start = towards(a, control, radiusOf(e.sourceId) + 2);
+            const end = towards(b, control, radiusOf(e.targetId) + 2);
+            const category = edgeCategory(e.type);
+            const style = STATUS_STYLES[e.status ?? "active"] ?? STATUS_STYLES.active;
+            const marker = `url(#rel-arrow-${category.label})`;
+            const onPath = highlight?.edgeIds.has(e.id) ?? false;
+            const touchesSelected = selectedId !== null && (e.sourceId === selectedId || e.targetId === selectedId);
+            const highlighted = highlight ? onPath : touchesSelected;
+            const opacity = highlight && !onPath ? 0.12 : highlighted ? 1 : style.opacity;
+            const d = `M${start.x},${start.y} Q${control.x},${control.y} ${end.x},${end.y}`;
+            return (
+              <g key={e.id}>
+                {onPath && (
+                  <path d={d} fill="none" stroke="#fff" strokeOpacity={0.18} strokeWidth={edgeWidth(e.strength) + 8} />
+                )}
+                <path
+                  d={d}
+                  fill="none"
+                  stroke={category.color}
+                  strokeWidth={edgeWidth(e.strength) + (onPath ? 1 : 0)}
+                  strokeDasharray={style.dash}
+                  strokeOpacity={opacity}
+                  markerEnd={marker}
+                  markerStart={e.bidirectional ? marker : undefined}
+                >
+                  <title>
+                    {`${e.type.replace(/_/g, " ")}${e.strength !== undefined ? ` · strength ${e.strength}/10` : ""}${
+                      e.status ? ` · ${e.status}` : ""
+                    }${e.description ? `\n${e.description}` : ""}`}
+                  </title>
+                </path>
+                {highlighted && (
+                  <text
+                    x={(start.x + 2 * control.x + end.x) / 4}
+                    y={(start.y + 2 * control.y + end.y) / 4 - 4}
+                    textAnchor="middle"
+                    fontSize={9}
+                    fill={category.color}
+                    style={{ pointerEvents: "none" }}
+                  >
+                    {e.type.replace(/_/g, " ")}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Nodes */}
+          {nodes.map((n) => {
+            const p = positions.get(n.id);
+            if (!p) return null;
+            const r = n.root ? ROOT_R : NODE_R;
+            const color = entityColor(n.entityType);
+            return (
+              <g
+                key={n.id}
+                transform={`translate(${p.x},${p.y})`}
+                opacity={highlight && !highlight.nodeIds.has(n.id) ? 0.25 : 1}
+                style={{ cursor: "pointer" }}
+                onPointerDown={(e) => handleNodeDown(e, n.id)}
+              >
+                {p.pinned && (
+                  <circle r={r + 5} fill="none" stroke={color} strokeOpacity={0.6} strokeDasharray="3 3" />
+                )}
+                <circle
+                  r={r}
+                  fill={color}
+                  fillOpacity={n.expanded ? 0.95 : 0.45}
+                  stroke={n.id === selectedId ? "#fff" : color}
+                  strokeWidth={n.id === selectedId ? 3 : 1.5}
+                >
+                  {n.loading && (
+                    <animate attributeName="fill-opacity" values="0.2;0.9;0.2" dur="1s" repeatCount="indefinite" />
+                  )}
+                </circle>
+                <text
+                  y={r + 13}
+                  textAnchor="middle"
+                  fontSize={11}
+                  fill="rgba(255,255,255,0.8)"
+                  style={{ pointerEvents: "none", userSelect: "none" }}
+                >
+                  {truncate(n.label)}
+                </text>
+                <title>{`${n.label}${n.entityType ? ` (${n.entityType})` : ""}${
+                  n.expanded ? "" : "\nClick to expand"
+                }`}</title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      {/* Zoom controls */}
+      <Stack sx={{ position: "absolute", top: 8, right: 8 }} spacing={0.5}>
+        <Tooltip title="Zoom in" placement="left">
+          <IconButton size="small" onClick={() => zoomBy(1.25)} sx={{ bgcolor: "background.paper" }}>
+            <ZoomInIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Zoom out" placement="left">
+          <IconButton size="small" onClick={() => zoomBy(0.8)} sx={{ bgcolor: "background.paper" }}>
+            <ZoomOutIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Fit to view" placement="left">
+          <IconButton size="small" onClick={fitView} sx={{ bgcolor: "background.paper" }}>
+            <CenterFocusStrongIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      {/* Legend */}
+      <Paper
+        sx={{
+          position: "absolute",
+          left: 8,
+          bottom: 8,
+          p: 1.5,
+          maxWidth: 260,
+          bgcolor: "rgba(18,24,41,0.85)",
+          pointerEvents: "none",
+        }}
+      >
+        {presentTypes.length > 0 && (
+          <Stack direction="row" flexWrap="wrap" useFlexGap columnGap={1.5} rowGap={0.5} mb={1}>
+            {presentTypes.map((t) => (
+              <Box key={t} display="flex" alignItems="center" gap={0.5}>
+                <Box sx={{ width: 10, height: 10, borderRadius: "50%", bgcolor: entityColor(t) }} />
+                <Typography variant="caption">{ENTITY_LABELS[t as EntityType] ?? t}</Typography>
+              </Box>
+            ))}
+          </Stack>
+        )}
+        {presentCategories.length > 0 && (
+          <Stack direction="row" flexWrap="wrap" useFlexGap columnGap={1.5} rowGap={0.5} mb={1}>
+            {presentCategories.map((c) => (
+              <Box key={c.label} display="flex" alignItems="center" gap={0.5}>
+                <Box sx={{ width: 14, height: 3, bgcolor: c.color }} />
+                <Typography variant="caption">{c.label}</Typography>
+              </Box>
+            ))}
+          </Stack>
+        )}
+        {presentStatuses.length > 1 && (
+          <Stack direction="row" flexWrap="wrap" useFlexGap columnGap={1.5} rowGap={0.5} mb={1}>
+            {presentStatuses.map((s) => (
+              <Box key={s} display="flex" alignItems="center" gap={0.5}>
+                <svg width={18} height={6}>
+                  <line
+                    x1={0}
+                    y1={3}
+                    x2={18}
+                    y2={3}
+                    stroke="#fff"
+                    strokeWidth={2}
+                    strokeDasharray={STATUS_STYLES[s]?.dash}
+                    strokeOpacity={STATUS_STYLES[s]?.opacity ?? 0.9}
+                  />
+                </svg>
+                <Typography variant="caption" sx={{ textTransform: "capitalize" }}>
+                  {s}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        )}
+        <Typography variant="caption" color="text.secondary" display="block">
+          Faded nodes: click to expand · drag to pin, double-click to release · line width = strength ·
+          ⟷ arrows = bidirectional
+        </Typography>
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState, useCallback, useSyncExternalStore } from "react";
+import { Box, useMediaQuery, useTheme } from "@mui/material";
+
+interface Props<T> {
+  items: T[];
+  /** Fixed height of every row, in px */
+  rowHeight: number;
+  gap?: number;
+  /** Extra rows rendered above and below the viewport */
+  overscan?: number;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+/** Scroll position bucket size — re-render at most once per this many px */
+const SCROLL_STEP = 50;
+
+function subscribeViewport(listener: () => void) {
+  window.addEventListener("scroll", listener, { passive: true });
+  window.addEventListener("resize", listener);
+  return () => {
+    window.removeEventListener("scroll", listener);
+    window.removeEventListener("resize", listener);
+  };
+}
+
+const getScrollBucket = () => Math.floor(window.scrollY / SCROLL_STEP);
+const getViewportHeight = () => window.innerHeight;
+
+/**
+ * Window-scrolled grid that only mounts the rows near the viewport.
+ * Columns follow the same breakpoints as the regular entity grids
+ * (1 / 2 / 3 across xs / sm / md+).
+ */
+export default function VirtualGrid<T>({
+  items,
+  rowHeight,
+  gap = 16,
+  overscan = 4,
+  getKey,
+  renderItem,
+}: Props<T>) {
+  const theme = useTheme();
+  const isSm = useMediaQuery(theme.breakpoints.up("sm"));
+  const isMd = useMediaQuery(theme.breakpoints.up("md"));
+  const columns = isMd ? 3 : isSm ? 2 : 1;
+
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const containerRef = useCallback((el: HTMLDivElement | null) => setContainer(el), []);
+
+  const scrollBucket = useSyncExternalStore(subscribeViewport, getScrollBucket);
+  const viewportHeight = useSyncExternalStore(subscribeViewport, getViewportHeight);
+
+  const stride = rowHeight + gap;
+  const rowCount = Math.ceil(items.length / columns);
+
+  // Offset of the grid from the top of the document
+  const offsetTop = container ? container.getBoundingClientRect().top + window.scrollY : 0;
+  const scrollTop = scrollBucket * SCROLL_STEP - offsetTop;
+  const firstRow = Math.max(0, Math.floor(scrollTop / stride) - overscan);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight + SCROLL_STEP) / stride) + overscan);
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row < lastRow; row++) {
+    const rowItems = items.slice(row * columns, row * columns + columns);
+    rows.push(
+      <Box
+        key={row}
+        sx={{
+          position: "absolute",
+          top: row * stride,
+          left: 0,
+          right: 0,
+          height: rowHeight,
+          display: "grid",
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gap: `${gap}px`,
+        }}
+      >
+        {rowItems.map((item) => (
+          <Box key={getKey(item)} sx={{ height: "100%", "& > .MuiCard-root": { height: "100%" } }}>
+            {renderItem(item)}
+          </Box>
+        ))}
+      </Box>
+    );
+  }
+
+  return (
+    <Box ref={containerRef} sx={{ position: "relative", height: Math.max(0, rowCount * stride - gap) }}>
+      {rows}
+    </Box>
+  );
+}
@@ -0,0 +1,53 @@
+import { useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { LoopContext, type AnimationLoopHandle, type FrameTask } from "./loopContext";
+
+/** Longest frame step honoured, so a backgrounded tab doesn't jump orbits */
+const MAX_DELTA = 0.1;
+
+/**
+ * The map's single per-frame callback. Children register tasks through
+ * `useLoopTask` instead of each owning a `useFrame`, and all of them see
+ * the same simulated clock. Passing a new `seek` object jumps that clock.
+ */
+export default function AnimationLoop({
+  timeSpeed,
+  seek,
+  children,
+}: {
+  timeSpeed: number;
+  seek?: { simTime: number };
+  children: React.ReactNode;
+}) {
+  const tasks = useRef(new Set<FrameTask>());
+  const simTime = useRef(0);
+  const lastSeek = useRef<{ simTime: number } | undefined>(undefined);
+
+  const handle = useMemo<AnimationLoopHandle>(
+    () => ({
+      add: (task) => {
+        tasks.current.add(task);
+        return () => {
+          tasks.current.delete(task);
+        };
+      },
+    }),
+    []
+  );
+
+  useFrame(({ clock }, rawDelta) => {
+    const delta = Math.min(rawDelta, MAX_DELTA);
+    let simDelta = delta * timeSpeed;
+    if (seek && seek !== lastSeek.current) {
+      lastSeek.current = seek;
+      simDelta = seek.simTime - simTime.current;
+      simTime.current = seek.simTime;
+    } else {
+      simTime.current += simDelta;
+    }
+    const frame = { simTime: simTime.current, simDelta, elapsed: clock.elapsedTime, delta };
+    for (const task of tasks.current) task(frame);
+  });
+
+  return <LoopContext.Provider value={handle}>{children}</LoopContext.Provider>;
+}
@@ -0,0 +1,163 @@
+import { useMemo, useRef, useState } from "react";
+import { Html } from "@react-three/drei";
+import type { ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import { cylToCartesian } from "../../utils/galaxy";
+import { CONTESTED_COLOR } from "../../theme/mapColors";
+import type { Theater } from "../../utils/mapReferences";
+import { useLoopTask } from "./loopContext";
+import type { MapStarSystem } from "./types";
+
+/** Inner radius of the first theater ring around a system */
+const RING_RADIUS = 0.55;
+const RING_WIDTH = 0.08;
+/** Further conflicts in the same system nest outside the first */
+const RING_SPACING = 0.18;
+/** Seconds per pulse */
+const PULSE_PERIOD = 1.6;
+/** Gap between belligerent arcs, in radians */
+const ARC_GAP = 0.08;
+
+const tooltipStyle: React.CSSProperties = {
+  background: "rgba(10,15,30,0.92)",
+  border: "1px solid rgba(255,255,255,0.15)",
+  borderRadius: 4,
+  padding: "4px 8px",
+  color: "#fff",
+  fontFamily: "Inter, Roboto, sans-serif",
+  fontSize: 11,
+  whiteSpace: "nowrap",
+  pointerEvents: "none",
+  userSelect: "none",
+  transform: "translateY(-22px)",
+};
+
+interface Marker {
+  key: string;
+  theater: Theater;
+  position: [number, number, number];
+  radius: number;
+  /** Belligerent colors, one arc each */
+  colors: string[];
+}
+
+/**
+ * Live conflicts as pulsing rings around their theater systems, split into
+ * arcs in the belligerents' faction colors. Clicking a ring opens its
+ * conflict.
+ */
+export default function ConflictTheaterLayer({
+  systems,
+  theaters,
+  factionColors,
+  factionNames,
+  onOpen,
+}: {
+  systems: MapStarSystem[];
+  theaters: Theater[];
+  factionColors: Record<string, string>;
+  factionNames: Record<string, string>;
+  onOpen: (conflictId: string) => void;
+}) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const pulseRefs = useRef(new Map<string, THREE.Mesh>());
+
+  const markers: Marker[] = useMemo(() => {
+    const byId = new Map(systems.map((s) => [s.id, s]));
+    const perSystem = new Map<string, number>();
+    return theaters.flatMap((theater) =>
+      theater.systemIds.flatMap((systemId) => {
+        const system = byId.get(systemId);
+        if (!system) return [];
+        const nth = perSystem.get(systemId) ?? 0;
+        perSystem.set(systemId, nth + 1);
+        const colors = theater.factionIds.map((id) => factionColors[id] ?? CONTESTED_COLOR);
+        return [
+          {
+            key: `${theater.conflictId}@${systemId}`,
+            theater,
+            position: cylToCartesian(system.position.azimuth, system.position.distance, system.position.elevation),
+            radius: RING_RADIUS + nth * RING_SPACING,
+            colors: colors.length > 0 ? colors : [CONTESTED_COLOR],
+          },
+        ];
+      })
+    );
+  }, [systems, theaters, factionColors]);
+
+  useLoopTask(({ elapsed }) => {
+    const phase = (elapsed % PULSE_PERIOD) / PULSE_PERIOD;
+    for (const mesh of pulseRefs.current.values()) {
+      mesh.scale.setScalar(1 + phase * 0.8);
+      (mesh.material as THREE.MeshBasicMaterial).opacity = 0.5 * (1 - phase);
+    }
+  });
+
+  const handlePointerOver = (e: ThreeEvent<PointerEvent>, key: string) => {
+    e.stopPropagation();
+    document.body.style.cursor = "pointer";
+    setHovered(key);
+  };
+
+  const handlePointerOut = () => {
+    document.body.style.cursor = "auto";
+    setHovered(null);
+  };
+
+  const active = markers.find((m) => m.key === hovered);
+
+  return (
+    <group>
+      {markers.map((m) => {
+        const arc = (Math.PI * 2) / m.colors.length;
+        const gap = m.colors.length > 1 ? ARC_GAP : 0;
+        return (
+          <group key={m.key} position={m.position} rotation={[-Math.PI / 2, 0, 0]}>
+            {m.colors.map((color, i) => (
+              <mesh key={i} raycast={() => null}>
+                <ringGeometry args={[m.radius, m.radius + RING_WIDTH, 48, 1, i * arc + gap / 2, arc - gap]} />
+                <meshBasicMaterial color={color} transparent opacity={m.key === hovered ? 1 : 0.8} side={THREE.DoubleSide} />
+              </mesh>
+            ))}
+            <mesh
+              ref={(mesh) => {
+                if (mesh) pulseRefs.current.set(m.key, mesh);
+                else pulseRefs.current.delete(m.key);
+              }}
+              raycast={() => null}
+            >
+              <ringGeometry args={[m.radius, m.radius + RING_WIDTH / 2, 48]} />
+              <meshBasicMaterial color={m.colors[0]} transparent depthWrite={false} side={THREE.DoubleSide} />
+            </mesh>
+            {/* Hit area covering the ring band */}
+            <mesh
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpen(m.theater.conflictId);
+              }}
+              onPointerOver={(e) => handlePointerOver(e, m.key)}
+              onPointerOut={handlePointerOut}
+            >
+              <ringGeometry args={[m.radius - 0.06, m.radius + RING_WIDTH + 0.06, 32]} />
+              <meshBasicMaterial visible={false} side={THREE.DoubleSide} />
+            </mesh>
+          </group>
+        );
+      })}
+
+      {active && (
+        <Html position={active.position} center zIndexRange={[6, 0]} style={{ pointerEvents: "none" }}>
+          <div style={tooltipStyle}>
+            <div style={{ fontWeight: 600 }}>{active.theater.conflictName}</div>
+            <div style={{ opacity: 0.75 }}>{active.theater.status}</div>
+            {active.theater.factionIds.map((id) => (
+              <div key={id} style={{ color: factionColors[id] ?? CONTESTED_COLOR }}>
+                {factionNames[id] ?? id}
+              </div>
+            ))}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Autocomplete, Box, IconButton, Paper, Slider, Stack, TextField, Typography, alpha } from "@mui/material";
+import SpeedIcon from "@mui/icons-material/Speed";
+import EventIcon from "@mui/icons-material/Event";
+import KeyboardReturnIcon from "@mui/icons-material/KeyboardReturn";
+import { eventDay, type Calendar } from "../../utils/calendar";
+import { MAX_TIME_SPEED } from "../../utils/mapView";
+import type { TimelineEvent } from "../../types";
+
+interface DatedEvent {
+  event: TimelineEvent;
+  day: number;
+  /** Happened on one of the viewed system's planets */
+  local: boolean;
+}
+
+const darkField = {
+  "& .MuiInputBase-root": { color: "#fff", fontSize: "0.8rem" },
+  "& .MuiInputLabel-root": { color: alpha("#fff", 0.6) },
+  "& .MuiOutlinedInput-notchedOutline": { borderColor: alpha("#fff", 0.2) },
+  "& .MuiSvgIcon-root": { color: alpha("#fff", 0.6) },
+  "& .MuiFormHelperText-root": { color: "#ff8a80" },
+};
+
+/**
+ * System-view clock: the current in-world date, a field to jump to any
+ * date, a picker that jumps to a timeline event, and the time-speed slider.
+ */
+export default function DateControl({
+  day,
+  calendar,
+  events,
+  localPlanetIds,
+  onJump,
+  timeSpeed,
+  onTimeSpeedChange,
+  onTimeSpeedCommit,
+}: {
+  day: number;
+  calendar: Calendar;
+  events: TimelineEvent[];
+  localPlanetIds: Set<string>;
+  onJump: (day: number) => void;
+  timeSpeed: number;
+  onTimeSpeedChange: (speed: number) => void;
+  onTimeSpeedCommit: (speed: number) => void;
+}) {
+  const [input, setInput] = useState("");
+  const [invalid, setInvalid] = useState(false);
+
+  const dated: DatedEvent[] = events
+    .flatMap((event) => {
+      const d = eventDay(event, calendar);
+      return d === null ? [] : [{ event, day: d, local: !!event.planetId && localPlanetIds.has(event.planetId) }];
+    })
+    .sort((a, b) => Number(b.local) - Number(a.local) || a.day - b.day);
+
+  const submit = () => {
+    const parsed = calendar.parse(input);
+    setInvalid(parsed === null);
+    if (parsed !== null) {
+      onJump(parsed);
+      setInput("");
+    }
+  };
+
+  return (
+    <Paper
+      sx={{
+        position: "absolute",
+        bottom: 24,
+        left: 24,
+        zIndex: 10,
+        width: 280,
+        bgcolor: alpha("#0a0f1e", 0.88),
+        backdropFilter: "blur(12px)",
+        border: `1px solid ${alpha("#fff", 0.1)}`,
+        px: 2,
+        py: 1.5,
+      }}
+    >
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+        <EventIcon sx={{ color: alpha("#fff", 0.6), fontSize: 18 }} />
+        <Typography variant="caption" sx={{ color: "#fff", fontWeight: 600 }}>
+          {calendar.format(day)}
+        </Typography>
+      </Stack>
+
+      <Stack spacing={1} sx={{ mb: 1 }}>
+        <TextField
+          size="small"
+          label="Go to date"
+          placeholder="Year 3042, Month 7"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setInvalid(false);
+          }}
+          onKeyDown={(e) => e.key === "Enter" && submit()}
+          error={invalid}
+          helperText={invalid ? "No year found in that date" : undefined}
+          sx={darkField}
+          slotProps={{
+            input: {
+              endAdornment: (
+                <IconButton size="small" onClick={submit} disabled={!input.trim()} title="Jump to date">
+                  <KeyboardReturnIcon fontSize="small" />
+                </IconButton>
+              ),
+            },
+          }}
+        />
+        {dated.length > 0 && (
+          <Autocomplete
+            size="small"
+            options={dated}
+            value={null}
+            blurOnSelect
+            onChange={(_, v) => v && onJump(v.day)}
+            groupBy={(o) => (o.local ? "In this system" : "Elsewhere")}
+            getOptionLabel={(o) => o.event.name}
+            getOptionKey={(o) => o.event.id}
+            renderOption={({ key, ...props }, o) => (
+              <li key={key} {...props}>
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" noWrap>
+                    {o.event.name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {o.event.date ?? calendar.format(o.day)}
+                  </Typography>
+                </Box>
+              </li>
+            )}
+            renderInput={(params) => <TextField {...params} label="Jump to event" sx={darkField} />}
+          />
+        )}
+      </Stack>
+
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 0.5 }}>
+        <SpeedIcon sx={{ color: alpha("#fff", 0.6), fontSize: 18 }} />
+        <Typography variant="caption" sx={{ color: alpha("#fff", 0.7), fontWeight: 600 }}>
+          Time Speed: {timeSpeed === 0 ? "Paused" : `${timeSpeed.toFixed(3)}×`}
+        </Typography>
+      </Stack>
+      <Slider
+        value={timeSpeed}
+        onChange={(_, v) => onTimeSpeedChange(v as number)}
+        onChangeCommitted={(_, v) => onTimeSpeedCommit(v as number)}
+        min={0}
+        max={MAX_TIME_SPEED}
+        step={0.05}
+        size="small"
+        sx={{
+          color: "#7c4dff",
+          '& .MuiSlider-thumb': { width: 14, height: 14 },
+          '& .MuiSlider-rail': { opacity: 0.25 },
+        }}
+      />
+    </Paper>
+  );
+}
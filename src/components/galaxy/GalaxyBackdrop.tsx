@@ -0,0 +1,50 @@
+import { useMemo, useEffect } from "react";
+import * as THREE from "three";
+import type { WorldSettings } from "../../types";
+import { galaxyParams, galaxyScale, generateGalaxy, hashSeed } from "../../utils/galaxyBackdrop";
+
+const PARTICLE_COUNT = 24000;
+
+/**
+ * Particle galaxy generated from the world's galaxy settings. `seed`
+ * (normally the world ID) fixes the layout; `farthestDistance` is the
+ * outermost star system distance, used to scale the disk around them.
+ */
+export default function GalaxyBackdrop({
+  settings,
+  seed,
+  farthestDistance,
+}: {
+  settings: WorldSettings | undefined;
+  seed: string;
+  farthestDistance: number;
+}) {
+  const params = useMemo(() => galaxyParams(settings), [settings]);
+  const scale = galaxyScale(params, farthestDistance);
+
+  const geometry = useMemo(() => {
+    const { positions, colors } = generateGalaxy(params, hashSeed(seed), PARTICLE_COUNT, scale);
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    return geo;
+  }, [params, seed, scale]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Particle size tracks the disk so small and huge galaxies look alike
+  const size = params.radius * scale * 0.004;
+
+  return (
+    <points geometry={geometry} renderOrder={-2}>
+      <pointsMaterial
+        size={size}
+        sizeAttenuation
+        vertexColors
+        transparent
+        opacity={0.7}
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </points>
+  );
+}
@@ -0,0 +1,76 @@
+import { useMemo, useEffect } from "react";
+import { Line } from "@react-three/drei";
+import * as THREE from "three";
+import { cylToCartesian } from "../../utils/galaxy";
+import type { Lane, RoutableSystem } from "../../utils/hyperlanes";
+
+const LANE_COLOR = "#4fc3f7";
+const ROUTE_COLOR = "#ffd740";
+
+function systemPoint(system: RoutableSystem): [number, number, number] {
+  return cylToCartesian(system.position.azimuth, system.position.distance, system.position.elevation);
+}
+
+/**
+ * Hyperlanes between star systems as one batch of line segments, with an
+ * optional planned route drawn over them.
+ */
+export default function HyperlaneNetwork({
+  systems,
+  lanes,
+  showLanes,
+  routeIds,
+}: {
+  systems: RoutableSystem[];
+  lanes: Lane[];
+  showLanes: boolean;
+  /** Systems of the planned route, in travel order */
+  routeIds: string[] | null;
+}) {
+  const byId = useMemo(() => new Map(systems.map((s) => [s.id, s])), [systems]);
+
+  const geometry = useMemo(() => {
+    const positions: number[] = [];
+    for (const lane of lanes) {
+      const a = byId.get(lane.a);
+      const b = byId.get(lane.b);
+      if (a && b) positions.push(...systemPoint(a), ...systemPoint(b));
+    }
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    return geo;
+  }, [lanes, byId]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const routePoints = useMemo(
+    () =>
+      (routeIds ?? [])
+        .map((id) => byId.get(id))
+        .filter((s): s is RoutableSystem => !!s)
+        .map(systemPoint),
+    [routeIds, byId]
+  );
+
+  return (
+    <group>
+      {showLanes && (
+        <lineSegments geometry={geometry}>
+          <lineBasicMaterial color={LANE_COLOR} transparent opacity={routeIds ? 0.12 : 0.35} depthWrite={false} />
+        </lineSegments>
+      )}
+      {routePoints.length > 1 && (
+        <>
+          {/* Soft glow under the route */}
+          <Line points={routePoints} color={ROUTE_COLOR} lineWidth={8} transparent opacity={0.2} />
+          <Line points={routePoints} color={ROUTE_COLOR} lineWidth={2.5} />
+          {routePoints.map((p, i) => (
+            <mesh key={i} position={p} raycast={() => null}>
+              <sphereGeometry args={[i === 0 || i === routePoints.length - 1 ? 0.22 : 0.14, 12, 12]} />
+              <meshBasicMaterial color={ROUTE_COLOR} />
+            </mesh>
+          ))}
+        </>
+      )}
+    </group>
+  );
+}
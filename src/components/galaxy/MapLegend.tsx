@@ -0,0 +1,150 @@
+import { Box, Paper, Stack, Typography, alpha } from "@mui/material";
+import { CONTESTED_COLOR, STRATEGIC_VALUES, STRATEGIC_VALUE_COLORS, UNCLAIMED_COLOR } from "../../theme/mapColors";
+import type { MapMode } from "../../utils/mapModes";
+
+export interface FactionHoldings {
+  id: string;
+  name: string;
+  color: string;
+  systems: number;
+  regions: number;
+}
+
+function Swatch({ color, ring }: { color: string; ring?: boolean }) {
+  return (
+    <Box
+      sx={{
+        width: 10,
+        height: 10,
+        borderRadius: "50%",
+        flexShrink: 0,
+        ...(ring ? { border: `2px solid ${color}` } : { bgcolor: color }),
+      }}
+    />
+  );
+}
+
+/**
+ * Key for the political and strategic map modes. In political mode each
+ * faction row filters the map to that faction's holdings.
+ */
+export default function MapLegend({
+  mode,
+  factions,
+  unclaimedSystems,
+  contestedSystems,
+  factionFilter,
+  onFactionFilter,
+}: {
+  mode: MapMode;
+  factions: FactionHoldings[];
+  unclaimedSystems: number;
+  contestedSystems: number;
+  factionFilter: string;
+  onFactionFilter: (factionId: string) => void;
+}) {
+  if (mode === "physical") return null;
+
+  return (
+    <Paper
+      sx={{
+        position: "absolute",
+        bottom: 24,
+        left: 24,
+        zIndex: 10,
+        width: 240,
+        maxHeight: "40vh",
+        overflow: "auto",
+        bgcolor: alpha("#0a0f1e", 0.88),
+        backdropFilter: "blur(12px)",
+        border: `1px solid ${alpha("#fff", 0.1)}`,
+        px: 2,
+        py: 1.5,
+      }}
+    >
+      <Typography variant="caption" sx={{ color: alpha("#fff", 0.7), fontWeight: 600, display: "block", mb: 1 }}>
+        {mode === "political" ? "Factions" : "Strategic value"}
+      </Typography>
+
+      {mode === "political" && (
+        <Stack spacing={0.25}>
+          {factions.map((f) => {
+            const active = factionFilter === f.id;
+            return (
+              <Stack
+                key={f.id}
+                direction="row"
+                alignItems="center"
+                spacing={1}
+                onClick={() => onFactionFilter(active ? "" : f.id)}
+                title={active ? "Show all factions" : `Show only ${f.name}'s holdings`}
+                sx={{
+                  cursor: "pointer",
+                  borderRadius: 1,
+                  px: 0.5,
+                  py: 0.25,
+                  bgcolor: active ? alpha(f.color, 0.2) : undefined,
+                  opacity: factionFilter && !active ? 0.5 : 1,
+                  "&:hover": { bgcolor: alpha(f.color, 0.12) },
+                }}
+              >
+                <Swatch color={f.color} />
+                <Typography variant="caption" sx={{ color: "#fff", flex: 1 }} noWrap>
+                  {f.name}
+                </Typography>
+                <Typography variant="caption" sx={{ color: alpha("#fff", 0.5) }}>
+                  {f.systems}
+                  {f.regions > 0 && ` · ${f.regions}R`}
+                </Typography>
+              </Stack>
+            );
+          })}
+          {unclaimedSystems > 0 && (
+            <Stack direction="row" alignItems="center" spacing={1} sx={{ px: 0.5 }}>
+              <Swatch color={UNCLAIMED_COLOR} />
+              <Typography variant="caption" sx={{ color: alpha("#fff", 0.6), flex: 1 }}>
+                Unclaimed
+              </Typography>
+              <Typography variant="caption" sx={{ color: alpha("#fff", 0.5) }}>
+                {unclaimedSystems}
+              </Typography>
+            </Stack>
+          )}
+          {contestedSystems > 0 && (
+            <Stack direction="row" alignItems="center" spacing={1} sx={{ px: 0.5 }}>
+              <Swatch color={CONTESTED_COLOR} ring />
+              <Typography variant="caption" sx={{ color: alpha("#fff", 0.6), flex: 1 }}>
+                Contested
+              </Typography>
+              <Typography variant="caption" sx={{ color: alpha("#fff", 0.5) }}>
+                {contestedSystems}
+              </Typography>
+            </Stack>
+          )}
+          <Typography variant="caption" sx={{ color: alpha("#fff", 0.4), display: "block", pt: 0.5 }}>
+            Systems · regions held. Click a faction to filter.
+          </Typography>
+        </Stack>
+      )}
+
+      {mode === "strategic" && (
+        <Stack spacing={0.25}>
+          {STRATEGIC_VALUES.map((v) => (
+            <Stack key={v} direction="row" alignItems="center" spacing={1} sx={{ px: 0.5 }}>
+              <Swatch color={STRATEGIC_VALUE_COLORS[v]} />
+              <Typography variant="caption" sx={{ color: "#fff", textTransform: "capitalize" }}>
+                {v}
+              </Typography>
+            </Stack>
+          ))}
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ px: 0.5 }}>
+            <Swatch color={UNCLAIMED_COLOR} />
+            <Typography variant="caption" sx={{ color: alpha("#fff", 0.6) }}>
+              Unrated
+            </Typography>
+          </Stack>
+        </Stack>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,217 @@
+import { useMemo } from "react";
+import { Autocomplete, Box, IconButton, Paper, Stack, TextField, Typography, alpha } from "@mui/material";
+import SearchIcon from "@mui/icons-material/Search";
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import PublicIcon from "@mui/icons-material/Public";
+import FlareIcon from "@mui/icons-material/Flare";
+import HistoryIcon from "@mui/icons-material/History";
+import { fuzzySearch } from "../../utils/fuzzyMatch";
+import { spectralColor } from "../../utils/galaxy";
+import type { MapPlanet, MapStarSystem } from "./types";
+
+export interface SearchTarget {
+  kind: "system" | "planet";
+  id: string;
+  name: string;
+  /** The system to fly to (the planet's own system for planets) */
+  systemId: string;
+}
+
+interface Option extends SearchTarget {
+  detail: string;
+  color: string;
+  indices: number[];
+  recent?: boolean;
+}
+
+const MAX_RESULTS = 12;
+const MAX_RECENT = 6;
+
+function Highlighted({ text, indices }: { text: string; indices: number[] }) {
+  const hit = new Set(indices);
+  return (
+    <>
+      {[...text].map((ch, i) =>
+        hit.has(i) ? (
+          <Box key={i} component="span" sx={{ color: "#b388ff", fontWeight: 700 }}>
+            {ch}
+          </Box>
+        ) : (
+          ch
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Fuzzy search over the map's systems and planets, with back / forward
+ * through previously visited systems. An empty query lists recent visits.
+ */
+export default function MapSearch({
+  systems,
+  planets,
+  history,
+  historyIndex,
+  onSelect,
+  onStep,
+}: {
+  systems: MapStarSystem[];
+  planets: MapPlanet[];
+  /** Visited system IDs, oldest first */
+  history: string[];
+  historyIndex: number;
+  onSelect: (target: SearchTarget) => void;
+  onStep: (offset: -1 | 1) => void;
+}) {
+  const systemById = useMemo(() => new Map(systems.map((s) => [s.id, s])), [systems]);
+
+  const targets: Option[] = useMemo(
+    () => [
+      ...systems.map((s) => ({
+        kind: "system" as const,
+        id: s.id,
+        name: s.name,
+        systemId: s.id,
+        detail: `${s.stars[0]?.spectralClass ?? "?"}-class system`,
+        color: spectralColor(s.stars[0]?.spectralClass),
+        indices: [],
+      })),
+      ...planets.flatMap((p) => {
+        const system = p.starSystemId ? systemById.get(p.starSystemId) : undefined;
+        if (!system) return [];
+        return [
+          {
+            kind: "planet" as const,
+            id: p.id,
+            name: p.name,
+            systemId: system.id,
+            detail: `${p.parentPlanetId ? "Moon" : "Planet"} in ${system.name}`,
+            color: p.render.primaryColor,
+            indices: [],
+          },
+        ];
+      }),
+    ],
+    [systems, planets, systemById]
+  );
+
+  const recent: Option[] = useMemo(() => {
+    const seen = new Set<string>();
+    const out: Option[] = [];
+    for (let i = history.length - 1; i >= 0 && out.length < MAX_RECENT; i--) {
+      const id = history[i];
+      const target = targets.find((t) => t.kind === "system" && t.id === id);
+      if (target && !seen.has(id)) {
+        seen.add(id);
+        out.push({ ...target, recent: true });
+      }
+    }
+    return out;
+  }, [history, targets]);
+
+  const iconButton = {
+    color: alpha("#fff", 0.7),
+    "&:hover": { color: "#fff" },
+    "&.Mui-disabled": { color: alpha("#fff", 0.2) },
+  };
+
+  return (
+    <Paper
+      sx={{
+        position: "absolute",
+        top: 16,
+        left: "50%",
+        transform: "translateX(-50%)",
+        zIndex: 10,
+        width: 380,
+        maxWidth: "calc(100% - 32px)",
+        bgcolor: alpha("#0a0f1e", 0.88),
+        backdropFilter: "blur(12px)",
+        border: `1px solid ${alpha("#fff", 0.1)}`,
+        px: 0.5,
+        py: 0.25,
+      }}
+    >
+      <Stack direction="row" alignItems="center" spacing={0.25}>
+        <IconButton
+          size="small"
+          title="Previous system"
+          disabled={historyIndex <= 0}
+          onClick={() => onStep(-1)}
+          sx={iconButton}
+        >
+          <ChevronLeftIcon fontSize="small" />
+        </IconButton>
+        <IconButton
+          size="small"
+          title="Next system"
+          disabled={historyIndex >= history.length - 1}
+          onClick={() => onStep(1)}
+          sx={iconButton}
+        >
+          <ChevronRightIcon fontSize="small" />
+        </IconButton>
+        <Autocomplete
+          size="small"
+          fullWidth
+          options={targets}
+          value={null}
+          blurOnSelect
+          clearOnBlur
+          openOnFocus
+          onChange={(_, v) => v && onSelect({ kind: v.kind, id: v.id, name: v.name, systemId: v.systemId })}
+          filterOptions={(_, { inputValue }) =>
+            inputValue.trim()
+              ? fuzzySearch(targets, inputValue, (t) => t.name, MAX_RESULTS).map((r) => ({
+                  ...r.item,
+                  indices: r.indices,
+                }))
+              : recent
+          }
+          getOptionLabel={(o) => o.name}
+          getOptionKey={(o) => `${o.kind}:${o.id}`}
+          isOptionEqualToValue={(a, b) => a.kind === b.kind && a.id === b.id}
+          noOptionsText="No matching systems or planets"
+          renderOption={({ key, ...props }, o) => (
+            <li key={key} {...props}>
+              <Stack direction="row" alignItems="center" spacing={1} sx={{ minWidth: 0 }}>
+                {o.recent ? (
+                  <HistoryIcon sx={{ fontSize: 16, color: alpha("#fff", 0.4) }} />
+                ) : o.kind === "system" ? (
+                  <FlareIcon sx={{ fontSize: 16, color: o.color }} />
+                ) : (
+                  <PublicIcon sx={{ fontSize: 16, color: o.color }} />
+                )}
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" noWrap>
+                    <Highlighted text={o.name} indices={o.indices} />
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {o.detail}
+                  </Typography>
+                </Box>
+              </Stack>
+            </li>
+          )}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              placeholder="Search systems and planets…"
+              variant="standard"
+              slotProps={{
+                input: {
+                  ...params.InputProps,
+                  disableUnderline: true,
+                  startAdornment: <SearchIcon sx={{ fontSize: 18, color: alpha("#fff", 0.5), mr: 0.5 }} />,
+                },
+              }}
+              sx={{ "& .MuiInputBase-root": { color: "#fff", fontSize: "0.85rem" } }}
+            />
+          )}
+        />
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,207 @@
+import { useMemo, useState, useEffect } from "react";
+import { type ThreeEvent } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import type { RegionBounds } from "../../types";
+import { cylToCartesian, azimuthSpan, boundsCenter } from "../../utils/galaxy";
+import type { OverlayStyle } from "../../utils/mapModes";
+import type { MapRegion } from "./types";
+
+const DEFAULT_COLOR = "#5c6bc0";
+const DEFAULT_OPACITY = 0.12;
+/** Half-thickness for regions that don't specify an elevation range */
+const DEFAULT_HALF_HEIGHT = 0.5;
+/** Degrees per segment along the arc */
+const ARC_STEP = 4;
+
+/**
+ * Closed annular-sector solid for a region's bounds. Every vertex goes
+ * through cylToCartesian so sectors line up with the star markers.
+ */
+function sectorGeometry(bounds: RegionBounds): THREE.BufferGeometry {
+  const span = azimuthSpan(bounds);
+  const segments = Math.max(2, Math.ceil(span / ARC_STEP));
+  const rMin = Math.max(0, bounds.distanceMin);
+  const rMax = Math.max(rMin, bounds.distanceMax);
+  const yMin = bounds.elevationMin ?? -DEFAULT_HALF_HEIGHT;
+  const yMax = bounds.elevationMax ?? DEFAULT_HALF_HEIGHT;
+
+  // Four corners per arc step: inner-bottom, outer-bottom, outer-top, inner-top
+  const positions: number[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const az = bounds.azimuthStart + (span * i) / segments;
+    positions.push(
+      ...cylToCartesian(az, rMin, yMin),
+      ...cylToCartesian(az, rMax, yMin),
+      ...cylToCartesian(az, rMax, yMax),
+      ...cylToCartesian(az, rMin, yMax)
+    );
+  }
+
+  const index: number[] = [];
+  const quad = (a: number, b: number, c: number, d: number) => index.push(a, b, c, a, c, d);
+  for (let i = 0; i < segments; i++) {
+    const p = i * 4;
+    const q = p + 4;
+    quad(p, q, q + 1, p + 1); // bottom
+    quad(p + 1, q + 1, q + 2, p + 2); // outer wall
+    quad(p + 2, q + 2, q + 3, p + 3); // top
+    quad(p + 3, q + 3, q, p); // inner wall
+  }
+  // End caps (a full ring closes on itself)
+  if (span < 360) {
+    const last = segments * 4;
+    quad(0, 1, 2, 3);
+    quad(last, last + 3, last + 2, last + 1);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(index);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+const tooltipStyle: React.CSSProperties = {
+  background: "rgba(10,15,30,0.92)",
+  border: "1px solid rgba(255,255,255,0.15)",
+  borderRadius: 6,
+  padding: "6px 10px",
+  color: "#fff",
+  fontFamily: "Inter, Roboto, sans-serif",
+  fontSize: 12,
+  lineHeight: 1.5,
+  whiteSpace: "nowrap",
+  pointerEvents: "none",
+  transform: "translate(12px, -50%)",
+};
+
+function RegionSector({
+  region,
+  style,
+  hovered,
+  onHover,
+}: {
+  region: MapRegion;
+  /** Map-mode override of the region's own color / opacity */
+  style?: OverlayStyle;
+  hovered: boolean;
+  /** Without a point: the pointer left this region */
+  onHover: (region: MapRegion, point?: THREE.Vector3) => void;
+}) {
+  const geometry = useMemo(() => sectorGeometry(region.bounds), [region.bounds]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const color = style?.color ?? region.color ?? DEFAULT_COLOR;
+  const opacity = Math.min(1, Math.max(0.02, style?.opacity ?? region.opacity ?? DEFAULT_OPACITY));
+  const center = region.center ?? boundsCenter(region.bounds);
+  const [cx, , cz] = cylToCartesian(center.azimuth, center.distance, center.elevation);
+  const labelY = (region.bounds.elevationMax ?? DEFAULT_HALF_HEIGHT) + 0.3;
+
+  // No click handler and no stopPropagation, so stars inside stay clickable.
+  // Where regions overlap, only the nearest one under the pointer reports.
+  const handleMove = (e: ThreeEvent<PointerEvent>) => {
+    const nearest = e.intersections.find((i) => i.object.userData.regionId);
+    if (nearest?.object === e.eventObject) onHover(region, e.point.clone());
+  };
+
+  return (
+    <group>
+      <mesh
+        geometry={geometry}
+        userData={{ regionId: region.id }}
+        onPointerMove={handleMove}
+        onPointerOut={() => onHover(region, undefined)}
+        renderOrder={-1}
+      >
+        <meshBasicMaterial
+          color={color}
+          transparent
+          opacity={hovered ? Math.min(1, opacity * 1.8) : opacity}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+      <lineSegments renderOrder={-1}>
+        <edgesGeometry args={[geometry, 30]} />
+        <lineBasicMaterial color={color} transparent opacity={hovered ? 0.7 : 0.3} depthWrite={false} />
+      </lineSegments>
+      <Html position={[cx, labelY, cz]} center zIndexRange={[5, 0]} style={{ pointerEvents: "none" }}>
+        <div
+          style={{
+            color,
+            opacity: hovered ? 1 : 0.75,
+            fontFamily: "Inter, Roboto, sans-serif",
+            fontSize: 11,
+            fontWeight: 600,
+            letterSpacing: "0.12em",
+            textTransform: "uppercase",
+            whiteSpace: "nowrap",
+            textShadow: "0 0 4px #000",
+            userSelect: "none",
+          }}
+        >
+          {region.name}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+// ─── Region overlays ────────────────────────────────────────────
+/**
+ * Translucent sector volumes for galactic regions, with a name label at
+ * each region's center and a hover tooltip.
+ */
+export default function RegionOverlays({
+  regions,
+  styleFor,
+  factionNames = {},
+}: {
+  regions: MapRegion[];
+  styleFor?: (region: MapRegion) => OverlayStyle | undefined;
+  factionNames?: Record<string, string>;
+}) {
+  const [hover, setHover] = useState<{ region: MapRegion; point: THREE.Vector3 } | null>(null);
+
+  const handleHover = (region: MapRegion, point?: THREE.Vector3) => {
+    setHover((h) => (point ? { region, point } : h?.region.id === region.id ? null : h));
+  };
+
+  const info = hover?.region;
+  return (
+    <group>
+      {regions.map((region) => {
+        const style = styleFor?.(region);
+        if (style?.hidden) return null;
+        return (
+          <RegionSector
+            key={region.id}
+            region={region}
+            style={style}
+            hovered={info?.id === region.id}
+            onHover={handleHover}
+          />
+        );
+      })}
+
+      {hover && info && (
+        <Html position={hover.point} zIndexRange={[6, 0]} style={{ pointerEvents: "none" }}>
+          <div style={tooltipStyle}>
+            <div style={{ fontWeight: 700, color: styleFor?.(info)?.color ?? info.color ?? DEFAULT_COLOR }}>
+              {info.name}
+              {info.type && <span style={{ color: "rgba(255,255,255,0.5)", fontWeight: 400 }}> · {info.type}</span>}
+            </div>
+            <div>Navigability: {info.navigability ?? "—"}</div>
+            <div>Density: {info.density ?? "—"}</div>
+            <div>
+              Controlled by:{" "}
+              {info.controllingFactionId ? factionNames[info.controllingFactionId] ?? info.controllingFactionId : "—"}
+            </div>
+            {info.strategicValue && <div>Strategic value: {info.strategicValue}</div>}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
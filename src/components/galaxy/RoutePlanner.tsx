@@ -0,0 +1,188 @@
+import {
+  Autocomplete,
+  Box,
+  Divider,
+  IconButton,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  alpha,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import RouteIcon from "@mui/icons-material/Route";
+import SwapVertIcon from "@mui/icons-material/SwapVert";
+import type { HazardHandling, Route, RouteOptions } from "../../utils/hyperlanes";
+
+export interface RouteRequest extends RouteOptions {
+  originId: string;
+  destinationId: string;
+}
+
+interface SystemOption {
+  id: string;
+  name: string;
+  hazards?: string[];
+}
+
+const HANDLING_LABELS: Record<HazardHandling, string> = {
+  ignore: "Ignore",
+  penalize: "Penalize",
+  avoid: "Avoid",
+};
+
+const darkField = {
+  "& .MuiInputBase-root": { color: "#fff", fontSize: "0.8rem" },
+  "& .MuiInputLabel-root": { color: alpha("#fff", 0.6) },
+  "& .MuiOutlinedInput-notchedOutline": { borderColor: alpha("#fff", 0.2) },
+  "& .MuiSvgIcon-root": { color: alpha("#fff", 0.6) },
+};
+
+/** Origin / destination pickers, routing options and the resulting itinerary */
+export default function RoutePlanner({
+  systems,
+  request,
+  route,
+  onChange,
+  onClose,
+}: {
+  systems: SystemOption[];
+  request: RouteRequest;
+  route: Route | null;
+  onChange: (request: RouteRequest) => void;
+  onClose: () => void;
+}) {
+  const byId = new Map(systems.map((s) => [s.id, s]));
+  const update = (patch: Partial<RouteRequest>) => onChange({ ...request, ...patch });
+
+  const systemField = (label: string, key: "originId" | "destinationId") => (
+    <Autocomplete
+      size="small"
+      options={systems}
+      value={byId.get(request[key]) ?? null}
+      onChange={(_, v) => update({ [key]: v?.id ?? "" })}
+      getOptionLabel={(o) => o.name}
+      isOptionEqualToValue={(a, b) => a.id === b.id}
+      renderInput={(params) => <TextField {...params} label={label} sx={darkField} />}
+    />
+  );
+
+  const handlingField = (label: string, key: "hazards" | "navigability") => (
+    <TextField
+      select
+      size="small"
+      label={label}
+      value={request[key]}
+      onChange={(e) => update({ [key]: e.target.value as HazardHandling })}
+      sx={{ ...darkField, flex: 1 }}
+    >
+      {(Object.keys(HANDLING_LABELS) as HazardHandling[]).map((h) => (
+        <MenuItem key={h} value={h}>
+          {HANDLING_LABELS[h]}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  const ready = request.originId && request.destinationId;
+
+  return (
+    <Paper
+      sx={{
+        position: "absolute",
+        top: 80,
+        left: 16,
+        zIndex: 10,
+        width: 320,
+        maxHeight: "calc(100% - 200px)",
+        overflow: "auto",
+        bgcolor: alpha("#0a0f1e", 0.92),
+        backdropFilter: "blur(12px)",
+        border: `1px solid ${alpha("#fff", 0.12)}`,
+        p: 2,
+      }}
+    >
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1.5 }}>
+        <RouteIcon sx={{ color: "#ffd740", fontSize: 20 }} />
+        <Typography variant="subtitle2" sx={{ color: "#fff", fontWeight: 700, flex: 1 }}>
+          Route Planner
+        </Typography>
+        <IconButton size="small" onClick={onClose} sx={{ color: alpha("#fff", 0.5), "&:hover": { color: "#fff" } }}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Stack>
+
+      <Stack spacing={1}>
+        {systemField("Origin", "originId")}
+        <Box display="flex" justifyContent="center">
+          <IconButton
+            size="small"
+            title="Swap origin and destination"
+            onClick={() => update({ originId: request.destinationId, destinationId: request.originId })}
+            sx={{ color: alpha("#fff", 0.6) }}
+          >
+            <SwapVertIcon fontSize="small" />
+          </IconButton>
+        </Box>
+        {systemField("Destination", "destinationId")}
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          fullWidth
+          value={request.metric}
+          onChange={(_, v) => v && update({ metric: v })}
+          sx={{ "& .MuiToggleButton-root": { color: alpha("#fff", 0.6), textTransform: "none" } }}
+        >
+          <ToggleButton value="jumps">Fewest jumps</ToggleButton>
+          <ToggleButton value="distance">Shortest distance</ToggleButton>
+        </ToggleButtonGroup>
+
+        <Stack direction="row" spacing={1}>
+          {handlingField("System hazards", "hazards")}
+          {handlingField("Risky regions", "navigability")}
+        </Stack>
+      </Stack>
+
+      {ready && (
+        <>
+          <Divider sx={{ borderColor: alpha("#fff", 0.08), my: 1.5 }} />
+          {!route ? (
+            <Typography variant="caption" sx={{ color: "#ff8a80" }}>
+              No route — the destination isn't reachable over known lanes with these options.
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="caption" sx={{ color: alpha("#fff", 0.7), display: "block", mb: 1 }}>
+                {route.jumps} jump{route.jumps !== 1 ? "s" : ""} &middot; distance {route.distance.toFixed(1)}
+              </Typography>
+              <Stack spacing={0.5}>
+                {route.systemIds.map((id, i) => {
+                  const sys = byId.get(id);
+                  return (
+                    <Stack key={id} direction="row" spacing={1} alignItems="baseline">
+                      <Typography variant="caption" sx={{ color: "#ffd740", width: 18, textAlign: "right" }}>
+                        {i}
+                      </Typography>
+                      <Typography variant="body2" sx={{ color: "#fff", fontSize: "0.8rem" }}>
+                        {sys?.name ?? id}
+                      </Typography>
+                      {sys?.hazards && sys.hazards.length > 0 && (
+                        <Typography variant="caption" sx={{ color: "#ffb74d" }} title={sys.hazards.join(", ")}>
+                          ⚠ {sys.hazards.length}
+                        </Typography>
+                      )}
+                    </Stack>
+                  );
+                })}
+              </Stack>
+            </>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,262 @@
+import { useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useThree, type ThreeEvent } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import { cylToCartesian, spectralColor, starDisplayRadius } from "../../utils/galaxy";
+import { CONTESTED_COLOR } from "../../theme/mapColors";
+import { systemStyle, type MapModeState, type MarkerStyle } from "../../utils/mapModes";
+import { useLoopTask } from "./loopContext";
+import type { MapStarSystem } from "./types";
+
+// ─── Level of detail ────────────────────────────────────────────
+/** Seconds between LOD passes; camera moves don't need per-frame precision */
+const LOD_INTERVAL = 0.25;
+/** Glow halos only for stars this close to the camera */
+const GLOW_DISTANCE = 60;
+/** Name labels for at most this many of the nearest stars… */
+const MAX_LABELS = 24;
+/** …within this distance */
+const LABEL_DISTANCE = 25;
+
+const HIT_MIN_RADIUS = 0.7;
+const UP_RING = new THREE.Quaternion().setFromEuler(new THREE.Euler(-Math.PI / 2, 0, 0));
+
+const labelStyle: React.CSSProperties = {
+  color: "rgba(255,255,255,0.75)",
+  fontFamily: "Inter, Roboto, sans-serif",
+  fontSize: 10,
+  whiteSpace: "nowrap",
+  textShadow: "0 0 3px #000",
+  transform: "translateY(14px)",
+  userSelect: "none",
+  pointerEvents: "none",
+};
+
+interface Placed {
+  system: MapStarSystem;
+  position: THREE.Vector3;
+  radius: number;
+  color: THREE.Color;
+  style: MarkerStyle;
+}
+
+/**
+ * Every star system drawn through a few instanced meshes: cores, glow
+ * halos, contested rings and an invisible, larger hit volume that is
+ * raycast per instance. Glows and labels are culled by camera distance in
+ * a throttled pass on the shared animation loop.
+ */
+export default function StarField({
+  systems,
+  selectedId,
+  onSelect,
+  modeState,
+}: {
+  systems: MapStarSystem[];
+  selectedId: string;
+  onSelect: (systemId: string) => void;
+  modeState: MapModeState;
+}) {
+  const coreRef = useRef<THREE.InstancedMesh>(null);
+  const glowRef = useRef<THREE.InstancedMesh>(null);
+  const hitRef = useRef<THREE.InstancedMesh>(null);
+  const ringRef = useRef<THREE.InstancedMesh>(null);
+  const { camera } = useThree();
+
+  const placed: Placed[] = useMemo(
+    () =>
+      systems.map((system) => {
+        const star = system.stars[0];
+        const style = systemStyle(system, modeState);
+        const color = new THREE.Color(style.tint ?? spectralColor(star.spectralClass));
+        if (style.dimmed && system.id !== selectedId) color.multiplyScalar(0.25);
+        return {
+          system,
+          position: new THREE.Vector3(
+            ...cylToCartesian(system.position.azimuth, system.position.distance, system.position.elevation)
+          ),
+          radius: starDisplayRadius(star.spectralClass, star.radius),
+          color,
+          style,
+        };
+      }),
+    [systems, modeState, selectedId]
+  );
+  const contested = useMemo(() => placed.filter((p) => p.style.contested), [placed]);
+
+  // Which stars currently get a glow halo / a label (by index into `placed`)
+  const glowing = useRef(new Set<number>());
+  const [labelled, setLabelled] = useState<number[]>([]);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const writeGlows = () => {
+    const glow = glowRef.current;
+    if (!glow) return;
+    const m = new THREE.Matrix4();
+    placed.forEach((p, i) => {
+      const selected = p.system.id === selectedId;
+      const s = glowing.current.has(i) || selected ? p.radius * (selected ? 3.5 : 2.2) : 0;
+      glow.setMatrixAt(i, m.makeScale(s, s, s).setPosition(p.position));
+    });
+    glow.instanceMatrix.needsUpdate = true;
+  };
+
+  // Upload matrices and colors whenever the systems or their styling change
+  useLayoutEffect(() => {
+    const core = coreRef.current;
+    const glow = glowRef.current;
+    const hit = hitRef.current;
+    if (!core || !glow || !hit) return;
+    const m = new THREE.Matrix4();
+    placed.forEach((p, i) => {
+      core.setMatrixAt(i, m.makeScale(p.radius, p.radius, p.radius).setPosition(p.position));
+      core.setColorAt(i, p.color);
+      glow.setColorAt(i, p.color);
+      const h = Math.max(p.radius * 2, HIT_MIN_RADIUS);
+      hit.setMatrixAt(i, m.makeScale(h, h, h).setPosition(p.position));
+    });
+    for (const mesh of [core, glow, hit]) {
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    }
+    writeGlows();
+
+    const ring = ringRef.current;
+    if (ring) {
+      const scale = new THREE.Vector3();
+      contested.forEach((p, i) => {
+        scale.setScalar(p.radius);
+        ring.setMatrixAt(i, m.compose(p.position, UP_RING, scale));
+      });
+      ring.instanceMatrix.needsUpdate = true;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [placed, contested]);
+
+  // Throttled LOD pass: glow halos and labels for the stars near the camera
+  const sinceLod = useRef(LOD_INTERVAL);
+  useLoopTask(({ delta }) => {
+    sinceLod.current += delta;
+    if (sinceLod.current < LOD_INTERVAL) return;
+    sinceLod.current = 0;
+
+    const nearGlow = new Set<number>();
+    const near: { i: number; d: number }[] = [];
+    placed.forEach((p, i) => {
+      const d = camera.position.distanceTo(p.position);
+      if (d < GLOW_DISTANCE) nearGlow.add(i);
+      if (d < LABEL_DISTANCE) near.push({ i, d });
+    });
+
+    if (nearGlow.size !== glowing.current.size || [...nearGlow].some((i) => !glowing.current.has(i))) {
+      glowing.current = nearGlow;
+      writeGlows();
+    }
+
+    const next = near
+      .sort((a, b) => a.d - b.d)
+      .slice(0, MAX_LABELS)
+      .map((n) => n.i)
+      .sort((a, b) => a - b);
+    setLabelled((prev) => (prev.length === next.length && prev.every((v, k) => v === next[k]) ? prev : next));
+  });
+
+  const instanceAt = (e: ThreeEvent<PointerEvent | MouseEvent>) =>
+    e.instanceId !== undefined ? placed[e.instanceId] : undefined;
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    const p = instanceAt(e);
+    if (!p) return;
+    e.stopPropagation();
+    if (p.system.id !== selectedId) onSelect(p.system.id);
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    document.body.style.cursor = "pointer";
+    if (e.instanceId !== hovered) setHovered(e.instanceId ?? null);
+  };
+
+  const handlePointerOut = () => {
+    document.body.style.cursor = "auto";
+    setHovered(null);
+  };
+
+  const selected = placed.find((p) => p.system.id === selectedId);
+  const labelIndices = hovered !== null && !labelled.includes(hovered) ? [...labelled, hovered] : labelled;
+
+  // Instance counts are fixed at creation, so remount when they change
+  const count = placed.length;
+  return (
+    <group>
+      <instancedMesh key={`core-${count}`} ref={coreRef} args={[undefined, undefined, count]} raycast={() => null}>
+        <sphereGeometry args={[1, 16, 16]} />
+        <meshBasicMaterial />
+      </instancedMesh>
+
+      <instancedMesh key={`glow-${count}`} ref={glowRef} args={[undefined, undefined, count]} raycast={() => null}>
+        <sphereGeometry args={[1, 12, 12]} />
+        <meshBasicMaterial transparent opacity={0.12} depthWrite={false} blending={THREE.AdditiveBlending} />
+      </instancedMesh>
+
+      <instancedMesh
+        key={`hit-${count}`}
+        ref={hitRef}
+        args={[undefined, undefined, count]}
+        onClick={handleClick}
+        onPointerMove={handlePointerMove}
+        onPointerOut={handlePointerOut}
+      >
+        <icosahedronGeometry args={[1, 1]} />
+        <meshBasicMaterial visible={false} />
+      </instancedMesh>
+
+      {contested.length > 0 && (
+        <instancedMesh
+          key={`ring-${contested.length}`}
+          ref={ringRef}
+          args={[undefined, undefined, contested.length]}
+          raycast={() => null}
+        >
+          <ringGeometry args={[2.6, 3.1, 32]} />
+          <meshBasicMaterial color={CONTESTED_COLOR} transparent opacity={0.8} side={THREE.DoubleSide} />
+        </instancedMesh>
+      )}
+
+      {/* Selection ring highlight */}
+      {selected && (
+        <group position={selected.position}>
+          <SelectionRing radius={selected.radius} color={`#${selected.color.getHexString()}`} />
+        </group>
+      )}
+
+      {/* Labels for nearby and hovered stars */}
+      {labelIndices.map((i) => {
+        const p = placed[i];
+        if (!p) return null;
+        return (
+          <Html key={p.system.id} position={p.position} center zIndexRange={[4, 0]} style={{ pointerEvents: "none" }}>
+            <div style={{ ...labelStyle, color: i === hovered ? "#fff" : labelStyle.color }}>{p.system.name}</div>
+          </Html>
+        );
+      })}
+    </group>
+  );
+}
+
+// ─── Selection ring ─────────────────────────────────────────────
+export function SelectionRing({ radius, color }: { radius: number; color: string }) {
+  const ringRef = useRef<THREE.Mesh>(null);
+  useLoopTask(({ elapsed }) => {
+    if (ringRef.current) {
+      ringRef.current.rotation.z = elapsed * 0.5;
+    }
+  });
+  return (
+    <mesh ref={ringRef} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+      <ringGeometry args={[radius * 1.6, radius * 2.0, 48]} />
+      <meshBasicMaterial color={color} transparent opacity={0.45} side={THREE.DoubleSide} />
+    </mesh>
+  );
+}
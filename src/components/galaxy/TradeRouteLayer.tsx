@@ -0,0 +1,140 @@
+import { useMemo, useRef, useState, type ComponentRef } from "react";
+import { Html, Line } from "@react-three/drei";
+import type { ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import { cylToCartesian } from "../../utils/galaxy";
+import { TRADE_RISK_COLORS } from "../../theme/mapColors";
+import type { TradeFlow } from "../../utils/mapReferences";
+import { useLoopTask } from "./loopContext";
+import type { MapStarSystem } from "./types";
+
+/** Arcs rise this far above the galactic plane per unit of length, so they clear the hyperlanes */
+const ARC_LIFT = 0.15;
+const ARC_SEGMENTS = 24;
+/** Dash travel speed, in world units per second */
+const FLOW_SPEED = 0.6;
+
+const tooltipStyle: React.CSSProperties = {
+  background: "rgba(10,15,30,0.92)",
+  border: "1px solid rgba(255,255,255,0.15)",
+  borderRadius: 4,
+  padding: "4px 8px",
+  color: "#fff",
+  fontFamily: "Inter, Roboto, sans-serif",
+  fontSize: 11,
+  whiteSpace: "nowrap",
+  pointerEvents: "none",
+  userSelect: "none",
+};
+
+interface PlacedFlow {
+  flow: TradeFlow;
+  points: THREE.Vector3[];
+  mid: THREE.Vector3;
+}
+
+/**
+ * Economy trade routes as arcs between systems, with dashes flowing from
+ * origin to destination and colored by risk. Clicking a route opens its
+ * economy.
+ */
+export default function TradeRouteLayer({
+  systems,
+  flows,
+  onOpen,
+}: {
+  systems: MapStarSystem[];
+  flows: TradeFlow[];
+  onOpen: (economyId: string) => void;
+}) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const lineRefs = useRef(new Map<string, ComponentRef<typeof Line>>());
+
+  const placed: PlacedFlow[] = useMemo(() => {
+    const byId = new Map(systems.map((s) => [s.id, s]));
+    const point = (id: string) => {
+      const { azimuth, distance, elevation } = byId.get(id)!.position;
+      return new THREE.Vector3(...cylToCartesian(azimuth, distance, elevation));
+    };
+    return flows
+      .filter((f) => byId.has(f.fromSystemId) && byId.has(f.toSystemId))
+      .map((flow) => {
+        const from = point(flow.fromSystemId);
+        const to = point(flow.toSystemId);
+        const control = from.clone().lerp(to, 0.5);
+        control.y += from.distanceTo(to) * ARC_LIFT;
+        const curve = new THREE.QuadraticBezierCurve3(from, control, to);
+        return { flow, points: curve.getPoints(ARC_SEGMENTS), mid: curve.getPoint(0.5) };
+      });
+  }, [systems, flows]);
+
+  useLoopTask(({ elapsed }) => {
+    for (const line of lineRefs.current.values()) {
+      line.material.dashOffset = -elapsed * FLOW_SPEED;
+    }
+  });
+
+  const handlePointerOver = (e: ThreeEvent<PointerEvent>, key: string) => {
+    e.stopPropagation();
+    document.body.style.cursor = "pointer";
+    setHovered(key);
+  };
+
+  const handlePointerOut = () => {
+    document.body.style.cursor = "auto";
+    setHovered(null);
+  };
+
+  const active = placed.find((p) => p.flow.key === hovered);
+
+  return (
+    <group>
+      {placed.map(({ flow, points }) => {
+        const color = TRADE_RISK_COLORS[flow.risk];
+        const isHovered = flow.key === hovered;
+        return (
+          <group key={flow.key}>
+            <Line points={points} color={color} lineWidth={isHovered ? 6 : 4} transparent opacity={0.15} raycast={() => null} />
+            <Line
+              ref={(line) => {
+                if (line) lineRefs.current.set(flow.key, line);
+                else lineRefs.current.delete(flow.key);
+              }}
+              points={points}
+              color={color}
+              lineWidth={isHovered ? 2.5 : 1.5}
+              dashed
+              dashSize={0.4}
+              gapSize={0.3}
+              raycast={() => null}
+            />
+            {/* Wider invisible line so routes are easy to hit */}
+            <Line
+              points={points}
+              lineWidth={12}
+              transparent
+              opacity={0}
+              depthWrite={false}
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpen(flow.economyId);
+              }}
+              onPointerOver={(e) => handlePointerOver(e, flow.key)}
+              onPointerOut={handlePointerOut}
+            />
+          </group>
+        );
+      })}
+
+      {active && (
+        <Html position={active.mid} center zIndexRange={[6, 0]} style={{ pointerEvents: "none" }}>
+          <div style={tooltipStyle}>
+            <div style={{ fontWeight: 600 }}>{active.flow.economyName}</div>
+            {active.flow.goods.length > 0 && <div style={{ opacity: 0.75 }}>{active.flow.goods.join(", ")}</div>}
+            <div style={{ color: TRADE_RISK_COLORS[active.flow.risk] }}>{active.flow.risk} risk</div>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,38 @@
+import { createContext, useContext, useEffect, useRef } from "react";
+
+export interface FrameState {
+  /** Simulated time in seconds, scaled by the time-speed slider */
+  simTime: number;
+  /** Simulated seconds since the previous frame */
+  simDelta: number;
+  /** Wall-clock seconds since the loop started (for purely visual effects) */
+  elapsed: number;
+  /** Wall-clock seconds since the previous frame, clamped */
+  delta: number;
+}
+
+export type FrameTask = (frame: FrameState) => void;
+
+export interface AnimationLoopHandle {
+  /** Register a task; returns its unregister function */
+  add: (task: FrameTask) => () => void;
+}
+
+export const LoopContext = createContext<AnimationLoopHandle | null>(null);
+
+/**
+ * Run `task` every frame from the surrounding AnimationLoop. The latest
+ * task is always called, so it can close over fresh props without
+ * re-registering.
+ */
+export function useLoopTask(task: FrameTask) {
+  const loop = useContext(LoopContext);
+  const taskRef = useRef(task);
+  useEffect(() => {
+    taskRef.current = task;
+  });
+  useEffect(() => {
+    if (!loop) return;
+    return loop.add((frame) => taskRef.current(frame));
+  }, [loop]);
+}
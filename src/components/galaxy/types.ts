@@ -0,0 +1,19 @@
+import type {
+  GalacticPosition,
+  GalacticRegion,
+  Planet,
+  PlanetOrbit,
+  PlanetRender,
+  RegionBounds,
+  StarData,
+  StarSystem,
+} from "../../types";
+
+/** Star system with the fields the map needs to place and draw it */
+export type MapStarSystem = StarSystem & { position: GalacticPosition; stars: StarData[] };
+
+/** Planet with the orbit and render hints the system view needs */
+export type MapPlanet = Planet & { orbit: PlanetOrbit; render: PlanetRender };
+
+/** Region with the bounds the map needs to draw its sector */
+export type MapRegion = GalacticRegion & { bounds: RegionBounds };
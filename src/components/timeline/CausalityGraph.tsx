@@ -0,0 +1,162 @@
+import { useMemo } from "react";
+import { Box } from "@mui/material";
+import { causalChain, truncateLabel, type CausalEdge, type CausalNode } from "../../utils/timelineLayout";
+import { conflictStatusColor, significanceColor } from "../../theme/timelineColors";
+import type { Conflict, TimelineEvent } from "../../types";
+import { fitRange, useTimelineView, VIEW_W } from "./useTimelineView";
+import { ZoomControls } from "./TimelineParts";
+
+// ─── Layout (SVG units) ─────────────────────────────────────────
+const TOP = 36;
+const ROW_H = 44;
+const NODE_R = 7;
+/** Column labels only show once columns are at least this far apart */
+const MIN_LABEL_GAP = 60;
+
+/**
+ * Events and conflicts linked by `relatedEventIds`, left to right by
+ * `sortOrder`, each link pointing from cause to effect. Selecting a node
+ * highlights everything it follows from and everything that follows from
+ * it; the rest dims. Pans and zooms like the main timeline.
+ */
+export default function CausalityGraph({
+  nodes,
+  edges,
+  rows,
+  events,
+  conflicts,
+  selectedId,
+  onSelect,
+  formatDate,
+}: {
+  nodes: CausalNode[];
+  edges: CausalEdge[];
+  rows: number;
+  /** Looked up by id for colours and tooltips */
+  events: Map<string, TimelineEvent>;
+  conflicts: Map<string, Conflict>;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  formatDate: (date: string) => string;
+}) {
+  const fitted = useMemo(() => fitRange(nodes.map((n) => n.column)), [nodes]);
+  const { svgRef, span, toX, pointerHandlers, zoomBy, fit } = useTimelineView(fitted);
+
+  const byId = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+  const chain = useMemo(
+    () => (selectedId && byId.has(selectedId) ? causalChain(edges, selectedId) : null),
+    [edges, selectedId, byId]
+  );
+
+  const rowY = (row: number) => TOP + row * ROW_H + ROW_H / 2;
+  const height = TOP + rows * ROW_H + 12;
+
+  // One position label per column, when there's room for them
+  const columnLabels = useMemo(() => {
+    if (VIEW_W / span < MIN_LABEL_GAP) return [];
+    const labels = new Map<number, number>();
+    for (const n of nodes) labels.set(n.column, n.position);
+    return [...labels.entries()];
+  }, [nodes, span]);
+
+  return (
+    <Box sx={{ position: "relative", borderRadius: 2, overflow: "hidden", bgcolor: "#070b16" }}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_W} ${height}`}
+        width="100%"
+        style={{ display: "block", touchAction: "none", cursor: "grab", userSelect: "none" }}
+        {...pointerHandlers}
+      >
+        <defs>
+          <marker id="causal-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" fill="rgba(255,255,255,0.7)" />
+          </marker>
+        </defs>
+
+        {columnLabels.map(([column, position]) => (
+          <text
+            key={column}
+            x={toX(column)}
+            y={18}
+            textAnchor="middle"
+            fontSize={10}
+            fill="rgba(255,255,255,0.45)"
+            style={{ pointerEvents: "none" }}
+          >
+            {String(Number(position.toFixed(6)))}
+          </text>
+        ))}
+
+        {edges.map((e) => {
+          const from = byId.get(e.from)!;
+          const to = byId.get(e.to)!;
+          const x1 = toX(from.column) + NODE_R;
+          const x2 = toX(to.column) - NODE_R - 2;
+          const y1 = rowY(from.row);
+          const y2 = rowY(to.row);
+          const bend = Math.max(20, (x2 - x1) / 2);
+          const onChain = chain?.edges.has(e) ?? false;
+          return (
+            <path
+              key={`${e.from}>${e.to}`}
+              d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+              fill="none"
+              stroke={onChain ? "#fff" : "rgba(255,255,255,0.6)"}
+              strokeOpacity={chain && !onChain ? 0.08 : onChain ? 0.9 : 0.35}
+              strokeWidth={onChain ? 2 : 1.2}
+              markerEnd="url(#causal-arrow)"
+            />
+          );
+        })}
+
+        {nodes.map((n) => {
+          const event = n.kind === "event" ? events.get(n.id) : undefined;
+          const conflict = n.kind === "conflict" ? conflicts.get(n.id) : undefined;
+          const color = conflict ? conflictStatusColor(conflict.status) : significanceColor(event?.significance);
+          const selected = n.id === selectedId;
+          const date = event?.date ?? conflict?.startDate;
+          const outcome = event?.outcome ?? conflict?.outcome;
+          return (
+            <g
+              key={n.id}
+              transform={`translate(${toX(n.column)},${rowY(n.row)})`}
+              opacity={chain && !chain.nodeIds.has(n.id) ? 0.25 : 1}
+              style={{ cursor: "pointer" }}
+              onClick={() => onSelect(n.id)}
+            >
+              {n.kind === "conflict" ? (
+                <rect
+                  x={-NODE_R}
+                  y={-NODE_R}
+                  width={NODE_R * 2}
+                  height={NODE_R * 2}
+                  transform="rotate(45)"
+                  fill={color}
+                  stroke={selected ? "#fff" : "#070b16"}
+                  strokeWidth={selected ? 2.5 : 1.5}
+                />
+              ) : (
+                <circle r={NODE_R} fill={color} stroke={selected ? "#fff" : "#070b16"} strokeWidth={selected ? 2.5 : 1.5} />
+              )}
+              <text y={NODE_R + 12} textAnchor="middle" fontSize={10} fill="rgba(255,255,255,0.8)">
+                {truncateLabel(n.name, 22)}
+              </text>
+              <title>
+                {[
+                  n.kind === "conflict" ? `${n.name} (conflict)` : n.name,
+                  date && formatDate(date),
+                  outcome && `Outcome: ${outcome}`,
+                ]
+                  .filter(Boolean)
+                  .join("\n")}
+              </title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <ZoomControls onZoom={zoomBy} onFit={fit} />
+    </Box>
+  );
+}
@@ -0,0 +1,174 @@
+import { useMemo } from "react";
+import { Box } from "@mui/material";
+import { clusterEvents, truncateLabel, type ConflictSpan, type EraBand, type PlacedEvent } from "../../utils/timelineLayout";
+import { conflictStatusColor, significanceColor } from "../../theme/timelineColors";
+import { fitRange, useTimelineView, VIEW_W } from "./useTimelineView";
+import { EraBands, TimeAxis, ZoomControls } from "./TimelineParts";
+
+// ─── Layout (SVG units) ─────────────────────────────────────────
+const AXIS_Y = 150;
+/** Event labels alternate between this many rows above the axis */
+const LABEL_ROWS = 4;
+const ROW_H = 22;
+const LANE_H = 20;
+const BAR_H = 14;
+/** Markers closer than this merge into a cluster */
+const CLUSTER_GAP = 18;
+
+/**
+ * Events along a horizontal axis by `sortOrder`, over era bands, with
+ * conflict bars underneath. Drag to pan, scroll to zoom; nearby events
+ * merge into numbered clusters that zoom in when clicked.
+ */
+export default function HorizontalTimeline({
+  placed,
+  eras,
+  conflicts,
+  selectedId,
+  onSelectEvent,
+  onOpenConflict,
+  formatDate,
+}: {
+  /** Sorted by position */
+  placed: PlacedEvent[];
+  eras: EraBand[];
+  conflicts: ConflictSpan[];
+  selectedId: string | null;
+  onSelectEvent: (eventId: string) => void;
+  onOpenConflict: (conflictId: string) => void;
+  /** Dates as the world's calendar spells them */
+  formatDate: (date: string) => string;
+}) {
+  const fitted = useMemo(
+    () => fitRange([...placed.map((p) => p.position), ...conflicts.flatMap((c) => [c.start, c.end])]),
+    [placed, conflicts]
+  );
+  const { svgRef, shown, span, toX, pointerHandlers, zoomBy, zoomTo, fit } = useTimelineView(fitted);
+
+  // Single events take label rows in turn so neighbours don't overlap
+  const clusters = useMemo(() => {
+    const margin = span * 0.1;
+    const visible = placed.filter((p) => p.position >= shown.start - margin && p.position <= shown.end + margin);
+    let row = 0;
+    return clusterEvents(visible, (CLUSTER_GAP / VIEW_W) * span).map((cluster) => ({
+      ...cluster,
+      labelRow: cluster.events.length === 1 ? row++ % LABEL_ROWS : 0,
+    }));
+  }, [placed, shown.start, shown.end, span]);
+
+  const lanes = conflicts.reduce((n, c) => Math.max(n, c.lane + 1), 0);
+  const height = AXIS_Y + 36 + lanes * LANE_H + 8;
+
+  return (
+    <Box sx={{ position: "relative", borderRadius: 2, overflow: "hidden", bgcolor: "#070b16" }}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_W} ${height}`}
+        width="100%"
+        style={{ display: "block", touchAction: "none", cursor: "grab", userSelect: "none" }}
+        {...pointerHandlers}
+      >
+        <EraBands eras={eras} toX={toX} height={height} />
+        <TimeAxis shown={shown} toX={toX} y={AXIS_Y} />
+
+        {/* Events and clusters */}
+        {clusters.map((cluster) => {
+          const x = toX(cluster.position);
+          if (cluster.events.length > 1) {
+            const r = Math.min(16, 8 + Math.log2(cluster.events.length) * 2);
+            const names = cluster.events.slice(0, 8).map((p) => p.event.name);
+            const more = cluster.events.length - names.length;
+            return (
+              <g
+                key={cluster.events[0].event.id}
+                transform={`translate(${x},${AXIS_Y})`}
+                style={{ cursor: "zoom-in" }}
+                onClick={() => zoomTo(cluster.start, cluster.end)}
+              >
+                <circle r={r} fill="#7c4dff" fillOpacity={0.85} stroke="#fff" strokeOpacity={0.5} />
+                <text
+                  y={4}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fontWeight={600}
+                  fill="#fff"
+                  style={{ pointerEvents: "none" }}
+                >
+                  {cluster.events.length}
+                </text>
+                <title>{`${names.join("\n")}${more > 0 ? `\n…and ${more} more` : ""}\nClick to zoom in`}</title>
+              </g>
+            );
+          }
+
+          const { event } = cluster.events[0];
+          const color = significanceColor(event.significance);
+          const selected = event.id === selectedId;
+          const labelY = AXIS_Y - 26 - cluster.labelRow * ROW_H;
+          return (
+            <g key={event.id} style={{ cursor: "pointer" }} onClick={() => onSelectEvent(event.id)}>
+              <line x1={x} y1={labelY + 4} x2={x} y2={AXIS_Y} stroke={color} strokeOpacity={0.4} />
+              <circle
+                cx={x}
+                cy={AXIS_Y}
+                r={selected ? 7 : 5.5}
+                fill={color}
+                stroke={selected ? "#fff" : "#070b16"}
+                strokeWidth={selected ? 2.5 : 1.5}
+              />
+              <text
+                x={x}
+                y={labelY}
+                textAnchor="middle"
+                fontSize={11}
+                fontWeight={selected ? 600 : 400}
+                fill={selected ? "#fff" : "rgba(255,255,255,0.8)"}
+              >
+                {truncateLabel(event.name, 22)}
+              </text>
+              <title>{`${event.name}${event.date ? `\n${formatDate(event.date)}` : ""}${event.era ? ` · ${event.era}` : ""}`}</title>
+            </g>
+          );
+        })}
+
+        {/* Conflict bars */}
+        {conflicts.map((span) => {
+          const x1 = toX(span.start);
+          const x2 = Math.max(toX(span.end), x1 + 4);
+          const y = AXIS_Y + 30 + span.lane * LANE_H;
+          const color = conflictStatusColor(span.conflict.status);
+          const labelX = Math.max(x1, 0) + 4;
+          const room = Math.min(x2, VIEW_W) - labelX;
+          const { conflict } = span;
+          return (
+            <g key={conflict.id} style={{ cursor: "pointer" }} onClick={() => onOpenConflict(conflict.id)}>
+              <rect
+                x={x1}
+                y={y}
+                width={x2 - x1}
+                height={BAR_H}
+                rx={3}
+                fill={color}
+                fillOpacity={span.ongoing ? 0.35 : 0.55}
+                stroke={color}
+                strokeDasharray={span.ongoing ? "4 3" : undefined}
+              />
+              {room > 30 && (
+                <text x={labelX} y={y + 11} fontSize={10} fill="#fff" style={{ pointerEvents: "none" }}>
+                  {truncateLabel(`${conflict.name}${span.ongoing ? " →" : ""}`, Math.floor(room / 6))}
+                </text>
+              )}
+              <title>
+                {`${conflict.name}${conflict.status ? ` (${conflict.status})` : ""}\n${conflict.startDate ? formatDate(conflict.startDate) : "?"} – ${
+                  conflict.endDate ? formatDate(conflict.endDate) : span.ongoing ? "ongoing" : "?"
+                }`}
+              </title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <ZoomControls onZoom={zoomBy} onFit={fit} />
+    </Box>
+  );
+}
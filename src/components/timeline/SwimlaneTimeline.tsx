@@ -0,0 +1,195 @@
+import { useMemo } from "react";
+import { Box } from "@mui/material";
+import { useToolQuery } from "../../hooks/useWorldbuilder";
+import { clusterEvents, truncateLabel, type EraBand, type Lane, type PlacedEvent } from "../../utils/timelineLayout";
+import { significanceColor } from "../../theme/timelineColors";
+import { entityColor } from "../../theme/entityColors";
+import { ENTITY_SINGULAR, type Entity } from "../../types";
+import { fitRange, useTimelineView, VIEW_W } from "./useTimelineView";
+import { EraBands, TimeAxis, ZoomControls } from "./TimelineParts";
+
+// ─── Layout (SVG units) ─────────────────────────────────────────
+const TOP = 28;
+const LANE_H = 48;
+/** Lane names sit over this strip on the left */
+const GUTTER_W = 150;
+const CLUSTER_GAP = 18;
+
+function LaneName({ lane, worldId }: { lane: Lane; worldId: string }) {
+  const { data } = useToolQuery<Entity>(`get_${ENTITY_SINGULAR[lane.type]}`, { worldId, id: lane.id });
+  return <>{truncateLabel(data?.name ?? lane.id, 20)}</>;
+}
+
+/**
+ * One row per faction or character, each holding the events it took part
+ * in, labelled with its role. An event shared by several lanes is joined
+ * by a line across them. Pans and zooms like the main timeline.
+ */
+export default function SwimlaneTimeline({
+  worldId,
+  placed,
+  eras,
+  lanes,
+  selectedId,
+  onSelectEvent,
+  formatDate,
+}: {
+  worldId: string;
+  /** Sorted by position */
+  placed: PlacedEvent[];
+  eras: EraBand[];
+  lanes: Lane[];
+  selectedId: string | null;
+  onSelectEvent: (eventId: string) => void;
+  formatDate: (date: string) => string;
+}) {
+  // Each lane's events, with the role that lane's entity played
+  const laneEvents = useMemo(
+    () =>
+      lanes.map((lane) =>
+        placed.flatMap((p) => {
+          const participant = p.event.participantIds?.find((ref) => ref.id === lane.id);
+          return participant ? [{ ...p, role: participant.role }] : [];
+        })
+      ),
+    [lanes, placed]
+  );
+
+  const fitted = useMemo(() => fitRange(laneEvents.flat().map((p) => p.position)), [laneEvents]);
+  const { svgRef, shown, span, toX, pointerHandlers, zoomBy, zoomTo, fit } = useTimelineView(fitted);
+
+  const laneClusters = useMemo(() => {
+    const margin = span * 0.1;
+    return laneEvents.map((events) => {
+      const visible = events.filter((p) => p.position >= shown.start - margin && p.position <= shown.end + margin);
+      return clusterEvents(visible, (CLUSTER_GAP / VIEW_W) * span);
+    });
+  }, [laneEvents, shown.start, shown.end, span]);
+
+  const laneY = (i: number) => TOP + i * LANE_H + LANE_H / 2;
+  const axisY = TOP + lanes.length * LANE_H + 8;
+  const height = axisY + 28;
+
+  // Events shown on their own in more than one lane get a connector
+  const connectors = useMemo(() => {
+    const ys = new Map<string, { x: number; ys: number[] }>();
+    laneClusters.forEach((clusters, i) => {
+      for (const c of clusters) {
+        if (c.events.length !== 1) continue;
+        const { event, position } = c.events[0];
+        const entry = ys.get(event.id) ?? { x: position, ys: [] };
+        entry.ys.push(TOP + i * LANE_H + LANE_H / 2);
+        ys.set(event.id, entry);
+      }
+    });
+    return [...ys.entries()].filter(([, e]) => e.ys.length > 1);
+  }, [laneClusters]);
+
+  return (
+    <Box sx={{ position: "relative", borderRadius: 2, overflow: "hidden", bgcolor: "#070b16" }}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_W} ${height}`}
+        width="100%"
+        style={{ display: "block", touchAction: "none", cursor: "grab", userSelect: "none" }}
+        {...pointerHandlers}
+      >
+        <EraBands eras={eras} toX={toX} height={height} />
+
+        {lanes.map((lane, i) => (
+          <line
+            key={lane.id}
+            x1={0}
+            y1={laneY(i)}
+            x2={VIEW_W}
+            y2={laneY(i)}
+            stroke={entityColor(lane.type)}
+            strokeOpacity={0.25}
+            strokeDasharray="2 4"
+          />
+        ))}
+
+        {connectors.map(([id, c]) => (
+          <line
+            key={id}
+            x1={toX(c.x)}
+            y1={Math.min(...c.ys)}
+            x2={toX(c.x)}
+            y2={Math.max(...c.ys)}
+            stroke="#fff"
+            strokeOpacity={id === selectedId ? 0.6 : 0.15}
+          />
+        ))}
+
+        {laneClusters.map((clusters, i) =>
+          clusters.map((cluster) => {
+            const x = toX(cluster.position);
+            const y = laneY(i);
+            if (cluster.events.length > 1) {
+              const r = Math.min(14, 7 + Math.log2(cluster.events.length) * 2);
+              const lines = cluster.events
+                .slice(0, 8)
+                .map((p) => `${p.event.name}${p.role ? ` (${p.role})` : ""}`);
+              const more = cluster.events.length - lines.length;
+              return (
+                <g
+                  key={`${lanes[i].id}/${cluster.events[0].event.id}`}
+                  transform={`translate(${x},${y})`}
+                  style={{ cursor: "zoom-in" }}
+                  onClick={() => zoomTo(cluster.start, cluster.end)}
+                >
+                  <circle r={r} fill="#7c4dff" fillOpacity={0.85} stroke="#fff" strokeOpacity={0.5} />
+                  <text y={4} textAnchor="middle" fontSize={10} fontWeight={600} fill="#fff" style={{ pointerEvents: "none" }}>
+                    {cluster.events.length}
+                  </text>
+                  <title>{`${lines.join("\n")}${more > 0 ? `\n…and ${more} more` : ""}\nClick to zoom in`}</title>
+                </g>
+              );
+            }
+
+            const { event, role } = cluster.events[0];
+            const selected = event.id === selectedId;
+            return (
+              <g
+                key={`${lanes[i].id}/${event.id}`}
+                transform={`translate(${x},${y})`}
+                style={{ cursor: "pointer" }}
+                onClick={() => onSelectEvent(event.id)}
+              >
+                <circle
+                  r={selected ? 7 : 5.5}
+                  fill={significanceColor(event.significance)}
+                  stroke={selected ? "#fff" : "#070b16"}
+                  strokeWidth={selected ? 2.5 : 1.5}
+                />
+                {role && (
+                  <text y={17} textAnchor="middle" fontSize={9} fill="rgba(255,255,255,0.7)">
+                    {truncateLabel(role, 14)}
+                  </text>
+                )}
+                <title>
+                  {`${event.name}${role ? ` — ${role}` : ""}${event.date ? `\n${formatDate(event.date)}` : ""}`}
+                </title>
+              </g>
+            );
+          })
+        )}
+
+        <TimeAxis shown={shown} toX={toX} y={axisY} />
+
+        {/* Lane names, over whatever has scrolled beneath them */}
+        <rect x={0} y={TOP} width={GUTTER_W} height={lanes.length * LANE_H} fill="#070b16" fillOpacity={0.85} />
+        {lanes.map((lane, i) => (
+          <g key={lane.id} transform={`translate(10,${laneY(i)})`} style={{ pointerEvents: "none" }}>
+            <circle r={4} cx={0} cy={0} fill={entityColor(lane.type)} />
+            <text x={10} y={4} fontSize={11} fill="rgba(255,255,255,0.85)">
+              <LaneName lane={lane} worldId={worldId} />
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <ZoomControls onZoom={zoomBy} onFit={fit} />
+    </Box>
+  );
+}
@@ -0,0 +1,122 @@
+import { Autocomplete, Box, Button, FormControl, InputLabel, MenuItem, Select, TextField } from "@mui/material";
+import EntityPicker from "../EntityPicker";
+import { ENTITY_FIELDS } from "../../types/fields";
+import { EMPTY_TIMELINE_QUERY, isTimelineQueryActive, type TimelineQuery } from "../../utils/timelineQuery";
+
+const EVENT_TYPES = ENTITY_FIELDS.events.find((f) => f.key === "type")?.options ?? [];
+const SIGNIFICANCES = ENTITY_FIELDS.events.find((f) => f.key === "significance")?.options ?? [];
+
+interface Props {
+  query: TimelineQuery;
+  onChange: (query: TimelineQuery) => void;
+  /** Eras seen in the loaded events */
+  eras: string[];
+  /** Filters fixed by the surrounding page, not offered here */
+  hidden?: (keyof TimelineQuery)[];
+}
+
+/**
+ * Era, significance, type, place, participant and text filters for the
+ * timeline. Place and participant are picked by name.
+ */
+export default function TimelineFilters({ query, onChange, eras, hidden = [] }: Props) {
+  const set = <K extends keyof TimelineQuery>(key: K, value: TimelineQuery[K]) => onChange({ ...query, [key]: value });
+  const shows = (key: keyof TimelineQuery) => !hidden.includes(key);
+
+  const clear = () => {
+    const next = { ...EMPTY_TIMELINE_QUERY };
+    for (const key of hidden) Object.assign(next, { [key]: query[key] });
+    onChange(next);
+  };
+  const clearable = isTimelineQueryActive({
+    ...query,
+    ...Object.fromEntries(hidden.map((key) => [key, EMPTY_TIMELINE_QUERY[key]])),
+  });
+
+  return (
+    <Box display="flex" flexWrap="wrap" gap={1.5} alignItems="center">
+      <TextField
+        size="small"
+        label="Search"
+        placeholder="Name, outcome, consequences…"
+        value={query.q}
+        onChange={(e) => set("q", e.target.value)}
+        sx={{ minWidth: 220 }}
+      />
+      {shows("era") && (eras.length > 0 || query.era) && (
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Era</InputLabel>
+          <Select value={query.era} label="Era" onChange={(e) => set("era", e.target.value)}>
+            <MenuItem value="">All</MenuItem>
+            {[...new Set([...eras, ...(query.era ? [query.era] : [])])].map((e) => (
+              <MenuItem key={e} value={e}>
+                {e}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      {shows("significance") && (
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Significance</InputLabel>
+          <Select value={query.significance} label="Significance" onChange={(e) => set("significance", e.target.value)}>
+            <MenuItem value="">All</MenuItem>
+            {SIGNIFICANCES.map((s) => (
+              <MenuItem key={s} value={s} sx={{ textTransform: "capitalize" }}>
+                {s.replace("-", " ")}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      {shows("type") && (
+        <Autocomplete
+          freeSolo
+          size="small"
+          options={EVENT_TYPES}
+          value={query.type || null}
+          onChange={(_, v) => set("type", v?.trim() ?? "")}
+          renderInput={(params) => <TextField {...params} label="Type" />}
+          sx={{ minWidth: 160 }}
+        />
+      )}
+      {shows("planetId") && (
+        <Box sx={{ minWidth: 200 }}>
+          <EntityPicker
+            label="Planet"
+            types={["planets"]}
+            value={query.planetId ? { type: "planets", id: query.planetId } : null}
+            onChange={(ref) => set("planetId", ref?.id ?? "")}
+            fullWidth
+          />
+        </Box>
+      )}
+      {shows("locationId") && (
+        <Box sx={{ minWidth: 200 }}>
+          <EntityPicker
+            label="Location"
+            types={["locations"]}
+            value={query.locationId ? { type: "locations", id: query.locationId } : null}
+            onChange={(ref) => set("locationId", ref?.id ?? "")}
+            fullWidth
+          />
+        </Box>
+      )}
+      {shows("participant") && (
+        <Box sx={{ minWidth: 220 }}>
+          <EntityPicker
+            label="Participant"
+            value={query.participant}
+            onChange={(ref) => set("participant", ref)}
+            fullWidth
+          />
+        </Box>
+      )}
+      {clearable && (
+        <Button size="small" onClick={clear} sx={{ textTransform: "none" }}>
+          Clear filters
+        </Button>
+      )}
+    </Box>
+  );
+}
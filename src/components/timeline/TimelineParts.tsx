@@ -0,0 +1,77 @@
+import { IconButton, Tooltip, Stack } from "@mui/material";
+import ZoomInIcon from "@mui/icons-material/ZoomIn";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import CenterFocusStrongIcon from "@mui/icons-material/CenterFocusStrong";
+import { tickStep, type EraBand } from "../../utils/timelineLayout";
+import { eraColor } from "../../theme/timelineColors";
+import { VIEW_W, type Range } from "./useTimelineView";
+
+// ─── Pieces shared by the timeline layouts ──────────────────────
+
+/** Era background bands, labelled along the top edge */
+export function EraBands({ eras, toX, height }: { eras: EraBand[]; toX: (p: number) => number; height: number }) {
+  return (
+    <>
+      {eras.map((band, i) => {
+        const x1 = toX(band.start);
+        const x2 = Math.max(toX(band.end), x1 + 4);
+        const color = eraColor(i);
+        return (
+          <g key={band.era}>
+            <rect x={x1} y={0} width={x2 - x1} height={height} fill={color} fillOpacity={0.12} />
+            <rect x={x1} y={0} width={x2 - x1} height={3} fill={color} fillOpacity={0.8} />
+            <text x={Math.max(x1, 0) + 4} y={16} fontSize={11} fill={color} style={{ pointerEvents: "none" }}>
+              {band.era}
+            </text>
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+function formatTick(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+/** Horizontal axis line at `y` with round-numbered ticks across the shown range */
+export function TimeAxis({ shown, toX, y }: { shown: Range; toX: (p: number) => number; y: number }) {
+  const step = tickStep(shown.end - shown.start);
+  const ticks: number[] = [];
+  for (let t = Math.ceil(shown.start / step) * step; t <= shown.end; t += step) ticks.push(t);
+  return (
+    <>
+      <line x1={0} y1={y} x2={VIEW_W} y2={y} stroke="rgba(255,255,255,0.3)" />
+      {ticks.map((t) => (
+        <g key={t} transform={`translate(${toX(t)},${y})`}>
+          <line y1={0} y2={5} stroke="rgba(255,255,255,0.3)" />
+          <text y={17} textAnchor="middle" fontSize={10} fill="rgba(255,255,255,0.5)" style={{ pointerEvents: "none" }}>
+            {formatTick(t)}
+          </text>
+        </g>
+      ))}
+    </>
+  );
+}
+
+export function ZoomControls({ onZoom, onFit }: { onZoom: (factor: number) => void; onFit: () => void }) {
+  return (
+    <Stack direction="row" sx={{ position: "absolute", top: 24, right: 8 }} spacing={0.5}>
+      <Tooltip title="Zoom in">
+        <IconButton size="small" onClick={() => onZoom(0.8)} sx={{ bgcolor: "background.paper" }}>
+          <ZoomInIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Zoom out">
+        <IconButton size="small" onClick={() => onZoom(1.25)} sx={{ bgcolor: "background.paper" }}>
+          <ZoomOutIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Fit to view">
+        <IconButton size="small" onClick={onFit} sx={{ bgcolor: "background.paper" }}>
+          <CenterFocusStrongIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Stack>
+  );
+}
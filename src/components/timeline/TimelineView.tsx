@@ -0,0 +1,390 @@
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Stack,
+  alpha,
+  Button,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+} from "@mui/material";
+import OpenInNewIcon from "@mui/icons-material/OpenInNew";
+import { useMemo, useState } from "react";
+import { useInfiniteToolQuery, useToolQuery } from "../../hooks/useWorldbuilder";
+import { queryKey } from "../../api/queryCache";
+import LoadingState from "../LoadingState";
+import EntityPicker from "../EntityPicker";
+import HorizontalTimeline from "./HorizontalTimeline";
+import SwimlaneTimeline from "./SwimlaneTimeline";
+import CausalityGraph from "./CausalityGraph";
+import TimelineFilters from "./TimelineFilters";
+import {
+  causalityGraph,
+  conflictSpans,
+  eraBands,
+  frequentParticipants,
+  laneType,
+  placeEvents,
+  type DatePosition,
+  type Lane,
+} from "../../utils/timelineLayout";
+import { entityColor } from "../../theme/entityColors";
+import { conflictStatusColor, significanceColor } from "../../theme/timelineColors";
+import { calendarFor, displayDate, type Calendar } from "../../utils/calendar";
+import {
+  conflictInTimeline,
+  isTimelineQueryActive,
+  matchesTimelineQuery,
+  readTimelineQuery,
+  timelineRequest,
+  writeTimelineQuery,
+  EMPTY_TIMELINE_QUERY,
+  type TimelineQuery,
+} from "../../utils/timelineQuery";
+import { ENTITY_SINGULAR, type Conflict, type Entity, type TimelineEvent } from "../../types";
+
+/** The server's page size cap; the timeline follows every page */
+const PAGE_SIZE = 100;
+/** Lanes filled in from the busiest participants until the user picks their own */
+const AUTO_LANES = 6;
+
+/**
+ * The world's timeline with its filters and the timeline, swimlane and
+ * causality layouts. Filters live in the URL; `scope` pins some of them
+ * (e.g. to one entity's history) and takes them out of the filter panel.
+ */
+export default function TimelineView({
+  worldId,
+  scope,
+}: {
+  worldId: string;
+  /** Keep it stable (memoized) — everything below is derived from it */
+  scope?: Partial<TimelineQuery>;
+}) {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo<TimelineQuery>(() => ({ ...readTimelineQuery(searchParams), ...scope }), [searchParams, scope]);
+  const pinned = Object.keys(scope ?? {}) as (keyof TimelineQuery)[];
+  const setQuery = (next: TimelineQuery) => {
+    // Pinned filters come from the page, not the URL
+    const unpinned = { ...next };
+    for (const key of pinned) Object.assign(unpinned, { [key]: EMPTY_TIMELINE_QUERY[key] });
+    setSearchParams((prev) => writeTimelineQuery(prev, unpinned), { replace: true });
+  };
+
+  const [view, setView] = useState<"timeline" | "swimlanes" | "causality">("timeline");
+  const { data: world } = useToolQuery("get_world", { worldId });
+  const calendar = calendarFor(world?.settings?.calendarSystem);
+
+  const request = timelineRequest(worldId, query);
+
+  // The selection and picked lanes belong to one result set; a new request starts over
+  const requestKey = queryKey(request.tool, request.args);
+  const [selection, setSelection] = useState({ key: requestKey, id: null as string | null });
+  const selectedId = selection.key === requestKey ? selection.id : null;
+  const setSelectedId = (id: string) => setSelection({ key: requestKey, id });
+  // null until the user picks lanes — then the busiest participants fill in
+  const [picked, setPicked] = useState({ key: requestKey, lanes: null as Lane[] | null });
+  const pickedLanes = picked.key === requestKey ? picked.lanes : null;
+  const setPickedLanes = (lanes: Lane[] | null) => setPicked({ key: requestKey, lanes });
+  const {
+    data: fetched,
+    loading,
+    loadingMore,
+    error,
+    refetch,
+  } = useInfiniteToolQuery<TimelineEvent>(request.tool, request.args, PAGE_SIZE, { all: true });
+  const { data: allConflicts } = useInfiniteToolQuery<Conflict>("list_conflicts", { worldId }, PAGE_SIZE, {
+    all: true,
+  });
+
+  // Participant and text search apply to what the server sent back
+  const events = useMemo(() => fetched?.filter((e) => matchesTimelineQuery(e, query)), [fetched, query]);
+  const conflictData = useMemo(() => {
+    const shown = new Set(events?.map((e) => e.id));
+    return allConflicts?.filter((c) => conflictInTimeline(c, query, shown));
+  }, [allConflicts, events, query]);
+
+  const layout = useMemo(() => {
+    // Dates go on the axis by year, matching sortOrder's usual year scale
+    const datePosition: DatePosition = (date) => {
+      const day = calendar.parse(date);
+      return day === null ? null : calendar.yearOf(day);
+    };
+    const { placed, unplaced } = placeEvents(events ?? [], datePosition);
+    const positions = new Map(placed.map((p) => [p.event.id, p.position]));
+    const end = placed.length > 0 ? placed[placed.length - 1].position : 0;
+    const conflicts = conflictSpans(conflictData ?? [], datePosition, positions, end);
+    return {
+      placed,
+      unplaced,
+      eras: eraBands(placed),
+      conflicts,
+      causality: causalityGraph(placed, conflicts),
+    };
+  }, [events, conflictData, calendar]);
+
+  const eventsById = useMemo(() => new Map((events ?? []).map((e) => [e.id, e])), [events]);
+  const conflictsById = useMemo(() => new Map((conflictData ?? []).map((c) => [c.id, c])), [conflictData]);
+
+  const autoLanes = useMemo(() => frequentParticipants(events ?? [], AUTO_LANES), [events]);
+  const lanes = pickedLanes ?? autoLanes;
+
+  const addLane = (ref: { type: string; id: string } | null) => {
+    const type = ref && laneType(ref.type);
+    if (!ref || !type || lanes.some((l) => l.id === ref.id)) return;
+    setPickedLanes([...lanes, { type, id: ref.id }]);
+  };
+
+  // Collect unique eras for filter
+  const eras = [...new Set(events?.map((e) => e.era).filter(Boolean) as string[])];
+  const selected = (selectedId && eventsById.get(selectedId)) || null;
+  const selectedConflict = (selectedId && conflictsById.get(selectedId)) || null;
+
+  return (
+    <Box>
+      {/* Filters */}
+      <Stack direction="row" spacing={2} mb={3} flexWrap="wrap" useFlexGap justifyContent="space-between">
+        <TimelineFilters query={query} onChange={setQuery} eras={eras} hidden={pinned} />
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={view}
+          onChange={(_, v) => v && setView(v)}
+          sx={{ "& .MuiToggleButton-root": { textTransform: "none" } }}
+        >
+          <ToggleButton value="timeline">Timeline</ToggleButton>
+          <ToggleButton value="swimlanes">Swimlanes</ToggleButton>
+          <ToggleButton value="causality">Causality</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {view === "swimlanes" && (
+        <Stack direction="row" spacing={1} mb={2} alignItems="center" flexWrap="wrap" useFlexGap>
+          {lanes.map((lane) => (
+            <Chip
+              key={lane.id}
+              label={<LaneLabel lane={lane} worldId={worldId} />}
+              size="small"
+              variant="outlined"
+              sx={{ borderColor: entityColor(lane.type) }}
+              onDelete={() => setPickedLanes(lanes.filter((l) => l.id !== lane.id))}
+            />
+          ))}
+          <Box sx={{ minWidth: 240 }}>
+            <EntityPicker
+              label="Add lane"
+              placeholder="Faction or character…"
+              types={["factions", "characters"]}
+              value={null}
+              onChange={addLane}
+              size="small"
+              fullWidth
+            />
+          </Box>
+          {pickedLanes && (
+            <Button size="small" onClick={() => setPickedLanes(null)} sx={{ textTransform: "none" }}>
+              Auto-fill
+            </Button>
+          )}
+        </Stack>
+      )}
+
+      <LoadingState loading={loading} error={error} onRetry={refetch}>
+        {events && events.length === 0 && layout.conflicts.length === 0 && (
+          <Typography color="text.secondary" textAlign="center" py={6}>
+            {isTimelineQueryActive(query) ? "No events match these filters." : "No events found."}
+          </Typography>
+        )}
+
+        {events && (events.length > 0 || layout.conflicts.length > 0) && (
+          <>
+            <Typography variant="caption" color="text.secondary" display="block" mb={1}>
+              {events.length} events · {layout.conflicts.length} conflicts
+              {layout.unplaced.length > 0 && ` · ${layout.unplaced.length} without a date or sort order not shown`}
+              {view === "causality"
+                ? ` · ${layout.causality.nodes.length} linked · drag to pan, scroll to zoom, click to trace causes and effects`
+                : " · drag to pan, scroll to zoom, click a cluster to expand it"}
+            </Typography>
+            {loadingMore && <LinearProgress sx={{ mb: 0.5 }} />}
+            {view === "timeline" && (
+              <HorizontalTimeline
+                placed={layout.placed}
+                eras={layout.eras}
+                conflicts={layout.conflicts}
+                selectedId={selectedId}
+                onSelectEvent={setSelectedId}
+                onOpenConflict={(id) => navigate(`/worlds/${worldId}/conflicts/${id}`)}
+                formatDate={(date) => displayDate(date, calendar)}
+              />
+            )}
+            {view === "swimlanes" && lanes.length === 0 && (
+              <Typography color="text.secondary" textAlign="center" py={6}>
+                No faction or character takes part in these events. Add a lane above.
+              </Typography>
+            )}
+            {view === "swimlanes" && lanes.length > 0 && (
+              <SwimlaneTimeline
+                worldId={worldId}
+                placed={layout.placed}
+                eras={layout.eras}
+                lanes={lanes}
+                selectedId={selectedId}
+                onSelectEvent={setSelectedId}
+                formatDate={(date) => displayDate(date, calendar)}
+              />
+            )}
+            {view === "causality" && layout.causality.nodes.length === 0 && (
+              <Typography color="text.secondary" textAlign="center" py={6}>
+                No events or conflicts are linked through related events yet.
+              </Typography>
+            )}
+            {view === "causality" && layout.causality.nodes.length > 0 && (
+              <CausalityGraph
+                nodes={layout.causality.nodes}
+                edges={layout.causality.edges}
+                rows={layout.causality.rows}
+                events={eventsById}
+                conflicts={conflictsById}
+                selectedId={selectedId}
+                onSelect={setSelectedId}
+                formatDate={(date) => displayDate(date, calendar)}
+              />
+            )}
+          </>
+        )}
+
+        {selected && (
+          <EventCard
+            event={selected}
+            calendar={calendar}
+            onOpen={() => navigate(`/worlds/${worldId}/events/${selected.id}`)}
+          />
+        )}
+        {selectedConflict && (
+          <ConflictCard
+            conflict={selectedConflict}
+            onOpen={() => navigate(`/worlds/${worldId}/conflicts/${selectedConflict.id}`)}
+          />
+        )}
+      </LoadingState>
+    </Box>
+  );
+}
+
+function LaneLabel({ lane, worldId }: { lane: Lane; worldId: string }) {
+  const { data } = useToolQuery<Entity>(`get_${ENTITY_SINGULAR[lane.type]}`, { worldId, id: lane.id });
+  return <>{data?.name ?? lane.id}</>;
+}
+
+function EventCard({ event, calendar, onOpen }: { event: TimelineEvent; calendar: Calendar; onOpen: () => void }) {
+  return (
+    <Paper sx={{ p: 2, mt: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" flexWrap="wrap" gap={1}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          {event.name}
+        </Typography>
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          {event.date && (
+            <Chip label={displayDate(event.date, calendar)} title={event.date} size="small" variant="outlined" />
+          )}
+          {event.era && <Chip label={event.era} size="small" />}
+          {event.significance && (
+            <Chip
+              label={event.significance}
+              size="small"
+              sx={{
+                bgcolor: alpha(significanceColor(event.significance), 0.2),
+                color: significanceColor(event.significance),
+                textTransform: "capitalize",
+              }}
+            />
+          )}
+          <Button size="small" startIcon={<OpenInNewIcon />} onClick={onOpen} sx={{ textTransform: "none" }}>
+            Open
+          </Button>
+        </Stack>
+      </Box>
+
+      {event.type && <Chip label={event.type} size="small" sx={{ mt: 0.5, textTransform: "capitalize" }} />}
+
+      {event.description && (
+        <Typography variant="body2" color="text.secondary" mt={1}>
+          {event.description}
+        </Typography>
+      )}
+
+      {event.outcome && (
+        <Typography variant="body2" mt={1}>
+          <strong>Outcome:</strong> {event.outcome}
+        </Typography>
+      )}
+
+      {event.consequences && event.consequences.length > 0 && (
+        <Box mt={1}>
+          <Typography variant="caption" color="text.secondary">
+            Consequences:
+          </Typography>
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap mt={0.5}>
+            {event.consequences.map((c, j) => (
+              <Chip key={j} label={c} size="small" variant="outlined" />
+            ))}
+          </Stack>
+        </Box>
+      )}
+    </Paper>
+  );
+}
+
+function ConflictCard({ conflict, onOpen }: { conflict: Conflict; onOpen: () => void }) {
+  const color = conflictStatusColor(conflict.status);
+  return (
+    <Paper sx={{ p: 2, mt: 2 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" flexWrap="wrap" gap={1}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          {conflict.name}
+        </Typography>
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          {conflict.status && (
+            <Chip
+              label={conflict.status}
+              size="small"
+              sx={{ bgcolor: alpha(color, 0.2), color, textTransform: "capitalize" }}
+            />
+          )}
+          <Button size="small" startIcon={<OpenInNewIcon />} onClick={onOpen} sx={{ textTransform: "none" }}>
+            Open
+          </Button>
+        </Stack>
+      </Box>
+
+      {conflict.cause && (
+        <Typography variant="body2" color="text.secondary" mt={1}>
+          <strong>Cause:</strong> {conflict.cause}
+        </Typography>
+      )}
+
+      {conflict.outcome && (
+        <Typography variant="body2" mt={1}>
+          <strong>Outcome:</strong> {conflict.outcome}
+        </Typography>
+      )}
+
+      {conflict.consequences && conflict.consequences.length > 0 && (
+        <Box mt={1}>
+          <Typography variant="caption" color="text.secondary">
+            Consequences:
+          </Typography>
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap mt={0.5}>
+            {conflict.consequences.map((c, j) => (
+              <Chip key={j} label={c} size="small" variant="outlined" />
+            ))}
+          </Stack>
+        </Box>
+      )}
+    </Paper>
+  );
+}
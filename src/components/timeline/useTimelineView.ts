@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef } from "react";
+
+/** Width of every timeline SVG, in its own units */
+export const VIEW_W = 1200;
+/** Narrowest visible span, in sortOrder units */
+const MIN_SPAN = 0.5;
+
+export interface Range {
+  start: number;
+  end: number;
+}
+
+/** Everything at `positions`, with a margin */
+export function fitRange(positions: number[]): Range {
+  if (positions.length === 0) return { start: 0, end: 10 };
+  const min = Math.min(...positions);
+  const max = Math.max(...positions);
+  const pad = Math.max((max - min) * 0.05, MIN_SPAN);
+  return { start: min - pad, end: max + pad };
+}
+
+/** Scale `range` by `factor`, keeping the position under SVG x-coordinate `x` fixed */
+function zoomAround(range: Range, x: number, factor: number, maxSpan: number): Range {
+  const oldSpan = range.end - range.start;
+  const newSpan = Math.min(maxSpan, Math.max(MIN_SPAN, oldSpan * factor));
+  const anchor = range.start + (x / VIEW_W) * oldSpan;
+  return { start: anchor - (x / VIEW_W) * newSpan, end: anchor + (1 - x / VIEW_W) * newSpan };
+}
+
+/**
+ * Horizontal pan and zoom over a timeline axis: drag to pan, scroll to
+ * zoom around the pointer. Until the user moves it the view follows
+ * `fitted`, so it keeps up as more pages load.
+ */
+export function useTimelineView(fitted: Range) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const maxSpan = (fitted.end - fitted.start) * 4;
+
+  const [view, setView] = useState<Range | null>(null);
+  const shown = view ?? fitted;
+  const span = shown.end - shown.start;
+  const toX = (position: number) => ((position - shown.start) / span) * VIEW_W;
+
+  const toSvgX = (clientX: number): number => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return 0;
+    const pt = svg.createSVGPoint();
+    pt.x = clientX;
+    return pt.matrixTransform(ctm.inverse()).x;
+  };
+
+  // Drags only capture the pointer once they move, so clicks still reach markers
+  const dragRef = useRef<{ startClientX: number; startX: number; startView: Range; panning: boolean } | null>(null);
+
+  const pointerHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      dragRef.current = { startClientX: e.clientX, startX: toSvgX(e.clientX), startView: shown, panning: false };
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      if (!drag.panning) {
+        if (Math.abs(e.clientX - drag.startClientX) < 4) return;
+        drag.panning = true;
+        svgRef.current?.setPointerCapture(e.pointerId);
+      }
+      const shift = ((toSvgX(e.clientX) - drag.startX) / VIEW_W) * (drag.startView.end - drag.startView.start);
+      setView({ start: drag.startView.start - shift, end: drag.startView.end - shift });
+    },
+    onPointerUp: () => {
+      dragRef.current = null;
+    },
+    onPointerCancel: () => {
+      dragRef.current = null;
+    },
+  };
+
+  // Wheel zoom around the pointer (non-passive so the page doesn't scroll)
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const ctm = svg.getScreenCTM();
+      if (!ctm) return;
+      const pt = svg.createSVGPoint();
+      pt.x = e.clientX;
+      const x = pt.matrixTransform(ctm.inverse()).x;
+      const factor = Math.exp(e.deltaY * 0.0015);
+      setView((v) => zoomAround(v ?? fitted, x, factor, maxSpan));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [fitted, maxSpan]);
+
+  return {
+    svgRef,
+    shown,
+    span,
+    toX,
+    pointerHandlers,
+    zoomBy: (factor: number) => setView(zoomAround(shown, VIEW_W / 2, factor, maxSpan)),
+    /** Frame `start`–`end` with some room either side */
+    zoomTo: (start: number, end: number) => {
+      const width = Math.max(end - start, MIN_SPAN) * 1.5;
+      const mid = (start + end) / 2;
+      setView({ start: mid - width / 2, end: mid + width / 2 });
+    },
+    fit: () => setView(null),
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getDiagnostics, subscribeDiagnostics, type Diagnostic } from "../api/diagnostics";
+
+/** Live list of schema diagnostics, newest first */
+export function useDiagnostics(): Diagnostic[] {
+  return useSyncExternalStore(subscribeDiagnostics, getDiagnostics);
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { mapDataSource } from "../api/mapData";
+import { ENTITY_SCHEMAS, validateRecords } from "../api/validation";
+import type { EntityType, EntityTypeMap } from "../types";
+
+export interface MapCollectionState<T> {
+  data: T[] | null;
+  loading: boolean;
+  error: string | null;
+  /** Load again, bypassing the cache */
+  retry: () => void;
+}
+
+/**
+ * A whole collection for an optional galaxy map layer, loaded through the
+ * map data source the first time `enabled` is true. It fails on its own,
+ * so a layer that can't load doesn't take the map down with it.
+ */
+export function useMapCollection<E extends EntityType>(
+  worldId: string | undefined,
+  entityType: E,
+  enabled: boolean
+): MapCollectionState<EntityTypeMap[E]> {
+  const [attempt, setAttempt] = useState(0);
+  const key = `${worldId}#${entityType}#${attempt}`;
+  const [loaded, setLoaded] = useState<{ key: string; data?: EntityTypeMap[E][]; error?: string } | null>(null);
+  const current = loaded?.key === key ? loaded : null;
+
+  useEffect(() => {
+    if (!worldId || !enabled || current) return;
+    let cancelled = false;
+    const source = mapDataSource();
+    source
+      .listAll(worldId, entityType, { force: attempt > 0 })
+      .then((records) => {
+        if (cancelled) return;
+        const data = validateRecords<EntityTypeMap[E]>(records, ENTITY_SCHEMAS[entityType], {
+          source: "galaxy map",
+          entityType,
+        });
+        setLoaded({ key, data });
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : String(err);
+        setLoaded({ key, error: `Couldn't load ${entityType} from ${source.label}: ${message}` });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [worldId, entityType, enabled, attempt, key, current]);
+
+  const retry = useCallback(() => setAttempt((a) => a + 1), []);
+
+  return {
+    data: current?.data ?? null,
+    loading: enabled && !current,
+    error: current?.error ?? null,
+    retry,
+  };
+}
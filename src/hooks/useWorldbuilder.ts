@@ -1,54 +1,190 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, useReducer, useSyncExternalStore } from "react";
 import { callTool } from "../api/worldbuilder";
+import {
+  queryKey,
+  fetchQuery,
+  getQuerySnapshot,
+  subscribeQuery,
+  invalidateForMutation,
+} from "../api/queryCache";
+import type { ToolName, ToolArgs, ToolResult } from "../api/tools";
+import type { ToolResponse } from "../types";
+
+export interface ToolQueryState<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  totalCount?: number;
+  nextPageToken?: string;
+}
+
+/**
+ * Generic hook for calling an MCP tool through the shared query cache.
+ * Components asking for the same tool + args share one request; cached
+ * results render immediately and are re-validated in the background.
+ */
+export function useToolQuery<K extends ToolName>(
+  toolName: K,
+  args: ToolArgs<K>
+): ToolQueryState<ToolResult<K>>;
+export function useToolQuery<T = unknown, N extends string = string>(
+  toolName: N extends ToolName ? never : N,
+  args: Record<string, unknown>
+): ToolQueryState<T>;
+export function useToolQuery<T>(toolName: string, args: object): ToolQueryState<T> {
+  const key = queryKey(toolName, args);
+
+  // Args are captured through the key; keep the latest object for fetching
+  const argsRef = useRef(args);
+  argsRef.current = args;
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(toolName, argsRef.current, listener),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [key]
+  );
+  const snapshot = useSyncExternalStore(subscribe, () => getQuerySnapshot(key));
+
+  useEffect(() => {
+    fetchQuery(toolName, argsRef.current as Record<string, unknown>).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const refetch = useCallback(async () => {
+    await fetchQuery(toolName, argsRef.current as Record<string, unknown>, { force: true }).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  // No result for this key yet counts as loading, even before the fetch effect runs
+  const { response, error } = snapshot;
+  return {
+    data: response?.success ? ((response.data ?? null) as T | null) : null,
+    loading: !response?.success && !error,
+    error,
+    refetch,
+    totalCount: response?.totalCount,
+    nextPageToken: response?.nextPageToken,
+  };
+}
+
+export interface InfiniteToolQueryState<T> {
+  /** Every page loaded so far, in order */
+  data: T[] | null;
+  /** First page still loading */
+  loading: boolean;
+  /** A later page is loading */
+  loadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  totalCount?: number;
+  loadMore: () => void;
+  /** Keep following `nextPageToken` until the collection is exhausted */
+  loadAll: () => void;
+  refetch: () => Promise<void>;
+}
 
 /**
- * Generic hook for calling an MCP tool and caching the result.
- * Re-fetches whenever `deps` change.
+ * Cursor-paginated list tool (`limit` / `startAfter` → `nextPageToken`)
+ * whose pages accumulate instead of replacing each other. Each page is a
+ * separate entry in the query cache, so returning to a list restores
+ * every page that was loaded. With `all`, pages keep loading until the
+ * collection is exhausted, as if `loadAll` had been called up front.
  */
-export function useToolQuery<T = unknown>(
+export function useInfiniteToolQuery<T>(
   toolName: string,
   args: Record<string, unknown>,
-  deps: unknown[] = []
-) {
-  const [data, setData] = useState<T | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [totalCount, setTotalCount] = useState<number | undefined>();
-  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
+  pageSize = 50,
+  { all = false }: { all?: boolean } = {}
+): InfiniteToolQueryState<T> {
+  const baseKey = queryKey(toolName, { ...args, limit: pageSize });
+
+  // How many pages the caller wants; resets when the query changes
+  const initialPages = all ? Infinity : 1;
+  const [wanted, setWanted] = useState({ key: baseKey, count: initialPages });
+  const pageCount = wanted.key === baseKey ? wanted.count : initialPages;
 
-  // Avoid re-creating the callback when args object ref changes
   const argsRef = useRef(args);
   argsRef.current = args;
+  const pageArgs = useCallback(
+    (startAfter?: string) => ({ ...argsRef.current, limit: pageSize, startAfter }),
+    [pageSize]
+  );
 
-  const refetch = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const result = await callTool<T>(toolName, argsRef.current);
-      if (result.success) {
-        setData(result.data ?? null);
-        setTotalCount(result.totalCount);
-        setNextPageToken(result.nextPageToken);
-      } else {
-        setError(result.error ?? "Unknown error");
-      }
-    } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : String(err));
-    } finally {
-      setLoading(false);
+  // Walk the page chain through the cache
+  const pages: ToolResponse<T[]>[] = [];
+  const cursors: (string | undefined)[] = [];
+  let pending: { key: string; startAfter?: string } | null = null;
+  let error: string | null = null;
+  let cursor: string | undefined;
+  for (let i = 0; i < pageCount; i++) {
+    const key = queryKey(toolName, pageArgs(cursor));
+    const snapshot = getQuerySnapshot(key);
+    cursors.push(cursor);
+    if (!snapshot.response?.success) {
+      pending = { key, startAfter: cursor };
+      error = snapshot.error;
+      break;
     }
+    pages.push(snapshot.response as ToolResponse<T[]>);
+    cursor = snapshot.response.nextPageToken;
+    if (!cursor) break;
+  }
+  const chainSignature = cursors.map((c) => c ?? "").join("\n");
+
+  // Re-render whenever any page in the chain changes
+  const [, bump] = useReducer((n: number) => n + 1, 0);
+  useEffect(() => {
+    const unsubscribes = cursors.map((c) => subscribeQuery(toolName, pageArgs(c), bump));
+    return () => unsubscribes.forEach((u) => u());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [baseKey, chainSignature]);
+
+  // Revalidate the first page; fetch the next missing one
+  useEffect(() => {
+    fetchQuery(toolName, pageArgs()).catch(() => {});
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [toolName, ...deps]);
+  }, [baseKey]);
 
+  const pendingKey = pending && !error ? pending.key : null;
+  const pendingStartAfter = pending?.startAfter;
   useEffect(() => {
-    refetch();
-  }, [refetch]);
+    if (pendingKey) fetchQuery(toolName, pageArgs(pendingStartAfter)).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingKey]);
+
+  const hasMore = pages.length > 0 && !!pages[pages.length - 1].nextPageToken;
+
+  const loadMore = useCallback(() => {
+    setWanted({ key: baseKey, count: pages.length + 1 });
+  }, [baseKey, pages.length]);
 
-  return { data, loading, error, refetch, totalCount, nextPageToken };
+  const loadAll = useCallback(() => {
+    setWanted({ key: baseKey, count: Infinity });
+  }, [baseKey]);
+
+  const refetch = useCallback(async () => {
+    if (pending) await fetchQuery(toolName, pageArgs(pending.startAfter), { force: true }).catch(() => {});
+    else await fetchQuery(toolName, pageArgs(), { force: true }).catch(() => {});
+  }, [toolName, pageArgs, pending]);
+
+  const data = pages.length > 0 ? pages.flatMap((p) => p.data ?? []) : null;
+  return {
+    data,
+    loading: pages.length === 0 && !error,
+    loadingMore: pages.length > 0 && !!pending && !error,
+    error,
+    hasMore,
+    totalCount: pages[0]?.totalCount,
+    loadMore,
+    loadAll,
+    refetch,
+  };
 }
 
 /**
  * Manual trigger version — doesn't auto-fetch on mount.
+ * Successful calls invalidate any cached queries they may have changed.
  */
 export function useToolMutation<T = unknown>() {
   const [data, setData] = useState<T | null>(null);
@@ -63,6 +199,7 @@ export function useToolMutation<T = unknown>() {
         const result = await callTool<T>(toolName, args);
         if (result.success) {
           setData(result.data ?? null);
+          invalidateForMutation(toolName, args, result.data);
           return result;
         } else {
           setError(result.error ?? "Unknown error");
@@ -79,5 +216,11 @@ export function useToolMutation<T = unknown>() {
     []
   );
 
-  return { data, loading, error, execute };
+  /** Clear the last result / error (e.g. when a form dialog is reopened) */
+  const reset = useCallback(() => {
+    setData(null);
+    setError(null);
+  }, []);
+
+  return { data, loading, error, execute, reset };
 }
@@ -1,10 +1,19 @@
-import { useParams, useLocation } from "react-router-dom";
-import { Box, Typography, Divider, Chip, Stack, Paper, Grid, alpha } from "@mui/material";
-import { useToolQuery } from "../hooks/useWorldbuilder";
+import { useMemo, useState } from "react";
+import { useParams, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { Box, Typography, Divider, Chip, Stack, Paper, Grid, Button, Tabs, Tab, alpha } from "@mui/material";
+import EditIcon from "@mui/icons-material/Edit";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { useToolQuery, useToolMutation } from "../hooks/useWorldbuilder";
 import LoadingState from "../components/LoadingState";
 import EntityFieldDisplay from "../components/EntityFieldDisplay";
+import EntityForm from "../components/EntityForm";
+import ConfirmDialog from "../components/ConfirmDialog";
+import TimelineView from "../components/timeline/TimelineView";
 import type { Entity, EntityType } from "../types";
 import { ENTITY_SINGULAR } from "../types";
+import { changedFields } from "../utils/entityForm";
+import { calendarFor } from "../utils/calendar";
+import { timelineScope } from "../utils/timelineQuery";
 
 /** Fields to display prominently at the top */
 const TOP_FIELDS = ["name", "title", "description", "type", "status", "role", "category"];
@@ -16,6 +25,7 @@ export default function EntityDetail() {
     entityId: string;
   }>();
   const location = useLocation();
+  const navigate = useNavigate();
   const et = entityType as EntityType;
   const singular = ENTITY_SINGULAR[et];
 
@@ -24,12 +34,67 @@ export default function EntityDetail() {
 
   const { data, loading, error, refetch } = useToolQuery<Entity>(
     `get_${singular}`,
-    { worldId: worldId!, id: entityId! },
-    [worldId, entityType, entityId]
+    { worldId: worldId!, id: entityId! }
   );
 
   const entity = data ?? passedEntity;
 
+  // Dates and ages are read through the world's calendar
+  const { data: world } = useToolQuery("get_world", { worldId: worldId! });
+  const calendar = calendarFor(world?.settings?.calendarSystem);
+  const presentDay = calendar.parse(world?.settings?.timelineEnd);
+
+  // The entity's own history, as a tab; filters share the URL with it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const timeline = useMemo(() => timelineScope(et, entityId!), [et, entityId]);
+  const tab = timeline && searchParams.get("tab") === "timeline" ? "timeline" : "details";
+  const setTab = (next: string) => {
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        if (next === "timeline") params.set("tab", next);
+        else params.delete("tab");
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  const [editing, setEditing] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const update = useToolMutation<Entity>();
+  const remove = useToolMutation();
+
+  // Only send the fields that actually changed
+  const handleSave = async (values: Record<string, unknown>) => {
+    if (!entity) return;
+    const changes = changedFields(entity, values);
+    if (Object.keys(changes).length === 0) {
+      setEditing(false);
+      return;
+    }
+    try {
+      const result = await update.execute(`update_${singular}`, { worldId: worldId!, id: entity.id, ...changes });
+      if (!result.success) return;
+      setEditing(false);
+      refetch();
+    } catch {
+      // error is surfaced through update.error
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entity) return;
+    try {
+      const result = await remove.execute(`delete_${singular}`, { worldId: worldId!, id: entity.id });
+      if (!result.success) return;
+      setConfirmDelete(false);
+      navigate(`/worlds/${worldId}/${entityType}`, { replace: true });
+    } catch {
+      // error is surfaced through remove.error
+    }
+  };
+
   const otherEntries = entity
     ? Object.entries(entity).filter(
         ([k]) => !TOP_FIELDS.includes(k) && !["id", "createdAt", "updatedAt", "worldId"].includes(k)
@@ -53,87 +118,164 @@ export default function EntityDetail() {
                     textTransform: "capitalize",
                   })}
                 />
-                <Typography variant="caption" color="text.secondary">
+                <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
                   {entity.id}
                 </Typography>
+                {!editing && (
+                  <>
+                    <Button
+                      size="small"
+                      startIcon={<EditIcon />}
+                      onClick={() => {
+                        update.reset();
+                        setEditing(true);
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="small"
+                      color="error"
+                      startIcon={<DeleteIcon />}
+                      onClick={() => {
+                        remove.reset();
+                        setConfirmDelete(true);
+                      }}
+                    >
+                      Delete
+                    </Button>
+                  </>
+                )}
               </Stack>
 
               <Typography variant="h4">{entity.name || entity.title || entity.id}</Typography>
 
               {entity.description && (
                 <Typography variant="body1" color="text.secondary" mt={1} sx={{ whiteSpace: "pre-wrap" }}>
-                  {entity.description as string}
+                  {entity.description}
                 </Typography>
               )}
 
               <Stack direction="row" spacing={1} mt={2} flexWrap="wrap" useFlexGap>
-                {entity.type ? <Chip label={String(entity.type)} size="small" color="secondary" /> : null}
+                {entity.type ? <Chip label={entity.type} size="small" color="secondary" /> : null}
                 {entity.status ? (
                   <Chip
-                    label={String(entity.status)}
+                    label={entity.status}
                     size="small"
                     color={entity.status === "alive" || entity.status === "active" ? "success" : "default"}
                     sx={{ textTransform: "capitalize" }}
                   />
                 ) : null}
-                {entity.role ? <Chip label={String(entity.role)} size="small" variant="outlined" /> : null}
+                {entity.role ? <Chip label={entity.role} size="small" variant="outlined" /> : null}
               </Stack>
             </Box>
 
-            <Divider sx={{ mb: 3 }} />
+            {timeline && !editing ? (
+              <Tabs value={tab} onChange={(_, v) => setTab(v)} sx={{ mb: 3, borderBottom: 1, borderColor: "divider" }}>
+                <Tab value="details" label="Details" />
+                <Tab value="timeline" label="Timeline" />
+              </Tabs>
+            ) : (
+              <Divider sx={{ mb: 3 }} />
+            )}
 
-            {/* Detail fields */}
-            <Grid container spacing={3}>
-              <Grid size={{ xs: 12, md: 8 }}>
-                <Paper sx={{ p: 3 }}>
-                  <Typography variant="h6" mb={2}>
-                    Details
-                  </Typography>
-                  {otherEntries.map(([key, value]) => (
-                    <EntityFieldDisplay key={key} label={key} value={value} worldId={worldId} entityData={entity as Record<string, unknown>} />
-                  ))}
-                  {otherEntries.length === 0 && (
-                    <Typography color="text.secondary">No additional details.</Typography>
-                  )}
-                </Paper>
-              </Grid>
+            {/* Edit mode */}
+            {editing && (
+              <Paper sx={{ p: 3 }}>
+                <Typography variant="h6" mb={2}>
+                  Edit {singular.replace(/_/g, " ")}
+                </Typography>
+                <EntityForm
+                  entityType={et}
+                  entity={entity}
+                  submitLabel="Save changes"
+                  submitting={update.loading}
+                  error={update.error}
+                  onSubmit={handleSave}
+                  onCancel={() => setEditing(false)}
+                />
+              </Paper>
+            )}
 
-              <Grid size={{ xs: 12, md: 4 }}>
-                {/* Tags */}
-                {entity.tags && (entity.tags as string[]).length > 0 && (
-                  <Paper sx={{ p: 3, mb: 2 }}>
-                    <Typography variant="h6" mb={1}>
-                      Tags
+            {!editing && tab === "timeline" && timeline && <TimelineView key={entityId} worldId={worldId!} scope={timeline} />}
+
+            {/* Detail fields */}
+            {!editing && tab === "details" && (
+              <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 8 }}>
+                  <Paper sx={{ p: 3 }}>
+                    <Typography variant="h6" mb={2}>
+                      Details
                     </Typography>
-                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
-                      {(entity.tags as string[]).map((tag) => (
-                        <Chip key={tag} label={tag} size="small" variant="outlined" />
-                      ))}
-                    </Stack>
+                    {otherEntries.map(([key, value]) => (
+                      <EntityFieldDisplay
+                        key={key}
+                        label={key}
+                        value={value}
+                        worldId={worldId}
+                        entityData={entity}
+                        calendar={calendar}
+                        presentDay={presentDay}
+                      />
+                    ))}
+                    {otherEntries.length === 0 && (
+                      <Typography color="text.secondary">No additional details.</Typography>
+                    )}
                   </Paper>
-                )}
+                </Grid>
 
-                {/* Metadata */}
-                <Paper sx={{ p: 3 }}>
-                  <Typography variant="h6" mb={1}>
-                    Metadata
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary" display="block">
-                    ID: {entity.id}
-                  </Typography>
-                  {entity.createdAt && (
-                    <Typography variant="caption" color="text.secondary" display="block">
-                      Created: {new Date(entity.createdAt).toLocaleString()}
-                    </Typography>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  {/* Tags */}
+                  {entity.tags && entity.tags.length > 0 && (
+                    <Paper sx={{ p: 3, mb: 2 }}>
+                      <Typography variant="h6" mb={1}>
+                        Tags
+                      </Typography>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {entity.tags.map((tag) => (
+                          <Chip key={tag} label={tag} size="small" variant="outlined" />
+                        ))}
+                      </Stack>
+                    </Paper>
                   )}
-                  {entity.updatedAt && (
+
+                  {/* Metadata */}
+                  <Paper sx={{ p: 3 }}>
+                    <Typography variant="h6" mb={1}>
+                      Metadata
+                    </Typography>
                     <Typography variant="caption" color="text.secondary" display="block">
-                      Updated: {new Date(entity.updatedAt).toLocaleString()}
+                      ID: {entity.id}
                     </Typography>
-                  )}
-                </Paper>
+                    {entity.createdAt && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        Created: {new Date(entity.createdAt).toLocaleString()}
+                      </Typography>
+                    )}
+                    {entity.updatedAt && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        Updated: {new Date(entity.updatedAt).toLocaleString()}
+                      </Typography>
+                    )}
+                  </Paper>
+                </Grid>
               </Grid>
-            </Grid>
+            )}
+
+            <ConfirmDialog
+              open={confirmDelete}
+              title={`Delete ${singular.replace(/_/g, " ")}?`}
+              message={
+                <>
+                  <strong>{entity.name || entity.title || entity.id}</strong> will be permanently deleted. This
+                  cannot be undone.
+                </>
+              }
+              busy={remove.loading}
+              error={remove.error}
+              onConfirm={handleDelete}
+              onClose={() => setConfirmDelete(false)}
+            />
           </>
         )}
       </LoadingState>
@@ -1,28 +1,102 @@
-import { useState } from "react";
-import { useParams } from "react-router-dom";
-import { Box, Typography, Grid, Button, TextField, InputAdornment } from "@mui/material";
+import { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Box,
+  Typography,
+  Grid,
+  Button,
+  TextField,
+  InputAdornment,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  FormControlLabel,
+  Switch,
+  Alert,
+  CircularProgress,
+} from "@mui/material";
 import SearchIcon from "@mui/icons-material/Search";
-import { useToolQuery } from "../hooks/useWorldbuilder";
+import AddIcon from "@mui/icons-material/Add";
+import { useInfiniteToolQuery, useToolMutation } from "../hooks/useWorldbuilder";
 import LoadingState from "../components/LoadingState";
 import EntityCard from "../components/EntityCard";
+import VirtualGrid from "../components/VirtualGrid";
+import EntityFilterBar from "../components/EntityFilterBar";
+import EntityForm from "../components/EntityForm";
 import type { Entity, EntityType } from "../types";
-import { ENTITY_LABELS } from "../types";
+import { ENTITY_LABELS, ENTITY_SINGULAR } from "../types";
+import {
+  readListQuery,
+  writeListQuery,
+  isListQueryActive,
+  toQueryFilters,
+  type ListQuery,
+} from "../utils/listQuery";
+
+const PAGE_SIZE = 50;
+
+/** Above this many visible cards the grid only mounts on-screen rows */
+const VIRTUALIZE_ABOVE = 150;
+
+/** Fixed card row height used when virtualized */
+const CARD_ROW_HEIGHT = 230;
 
 export default function EntityList() {
   const { worldId, entityType } = useParams<{ worldId: string; entityType: string }>();
   const et = entityType as EntityType;
   const label = ENTITY_LABELS[et] ?? entityType;
+  const singular = ENTITY_SINGULAR[et];
+  const navigate = useNavigate();
+
+  // Filters, sort and the text filter live in the URL so views can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const listQuery = readListQuery(searchParams, et);
+  const serverQuery = isListQueryActive(listQuery);
+  const search = searchParams.get("q") ?? "";
 
-  const [page, setPage] = useState<string | undefined>();
-  const [search, setSearch] = useState("");
+  const setListQuery = (query: ListQuery) => {
+    setSearchParams((prev) => writeListQuery(prev, et, query), { replace: true });
+  };
+  const setSearch = (q: string) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (q) next.set("q", q);
+        else next.delete("q");
+        return next;
+      },
+      { replace: true }
+    );
+  };
 
-  const { data, loading, error, refetch, nextPageToken, totalCount } = useToolQuery<Entity[]>(
-    `list_${entityType}`,
-    { worldId: worldId!, limit: 50, startAfter: page },
-    [worldId, entityType, page]
+  const [infinite, setInfinite] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const create = useToolMutation<Entity>();
+
+  const {
+    data,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    totalCount,
+    loadMore,
+    loadAll,
+    refetch,
+  } = useInfiniteToolQuery<Entity>(
+    serverQuery ? "query_world" : `list_${entityType}`,
+    serverQuery
+      ? {
+          worldId: worldId!,
+          entityType: et,
+          filters: toQueryFilters(listQuery),
+          ...(listQuery.sort ? { sortBy: listQuery.sort } : {}),
+        }
+      : { worldId: worldId! },
+    PAGE_SIZE
   );
 
-  // Client-side filter on loaded data
+  // Client-side text filter on every page loaded so far
   const filtered = data?.filter((e) => {
     if (!search) return true;
     const q = search.toLowerCase();
@@ -31,15 +105,47 @@ export default function EntityList() {
     return name.includes(q) || desc.includes(q);
   });
 
+  const handleCreate = async (values: Record<string, unknown>) => {
+    try {
+      const result = await create.execute(`create_${singular}`, { worldId: worldId!, ...values });
+      if (!result.success) return;
+      setCreating(false);
+      if (result.data?.id) {
+        navigate(`/worlds/${worldId}/${entityType}/${result.data.id}`, { state: { entity: result.data } });
+      } else {
+        refetch();
+      }
+    } catch {
+      // error is surfaced through create.error
+    }
+  };
+
   return (
     <Box>
       <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
         <Typography variant="h4">{label}</Typography>
-        {totalCount !== undefined && (
-          <Typography variant="body2" color="text.secondary">
-            {totalCount} total
-          </Typography>
-        )}
+        <Box display="flex" alignItems="center" gap={2}>
+          {data && (
+            <Typography variant="body2" color="text.secondary">
+              {totalCount !== undefined && totalCount !== data.length
+                ? `${data.length} of ${totalCount} loaded`
+                : `${data.length} total`}
+            </Typography>
+          )}
+          {singular && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => {
+                create.reset();
+                setCreating(true);
+              }}
+              sx={{ textTransform: "none" }}
+            >
+              New {singular.replace(/_/g, " ")}
+            </Button>
+          )}
+        </Box>
       </Box>
 
       <TextField
@@ -54,34 +160,127 @@ export default function EntityList() {
             </InputAdornment>
           ),
         }}
-        sx={{ mb: 3, width: { xs: "100%", sm: 350 } }}
+        sx={{ width: { xs: "100%", sm: 350 }, mb: 2 }}
       />
 
-      <LoadingState loading={loading} error={error} onRetry={refetch}>
-        <Grid container spacing={2}>
-          {filtered?.map((entity) => (
-            <Grid size={{ xs: 12, sm: 6, md: 4 }} key={entity.id}>
-              <EntityCard entity={entity} entityType={et} worldId={worldId!} />
-            </Grid>
-          ))}
-
-          {filtered && filtered.length === 0 && (
-            <Grid size={12}>
-              <Typography color="text.secondary" textAlign="center" py={6}>
-                {search ? "No matches found." : `No ${label.toLowerCase()} in this world yet.`}
-              </Typography>
-            </Grid>
-          )}
-        </Grid>
+      <EntityFilterBar entityType={et} query={listQuery} onChange={setListQuery} />
 
-        {nextPageToken && (
+      <Box display="flex" alignItems="center" flexWrap="wrap" gap={2} mt={1} mb={3}>
+        <FormControlLabel
+          control={<Switch size="small" checked={infinite} onChange={(e) => setInfinite(e.target.checked)} />}
+          label={<Typography variant="body2">Infinite scroll</Typography>}
+        />
+        {hasMore && (
+          <Button size="small" onClick={loadAll} disabled={loadingMore} sx={{ textTransform: "none" }}>
+            Load all{totalCount !== undefined ? ` ${totalCount}` : ""}
+          </Button>
+        )}
+        {search && hasMore && (
+          <Typography variant="caption" color="text.secondary">
+            Filtering the {data?.length ?? 0} loaded — load all to search everything.
+          </Typography>
+        )}
+      </Box>
+
+      <LoadingState loading={loading} error={data ? null : error} onRetry={refetch}>
+        {filtered && filtered.length > VIRTUALIZE_ABOVE ? (
+          <VirtualGrid
+            items={filtered}
+            rowHeight={CARD_ROW_HEIGHT}
+            getKey={(entity) => entity.id}
+            renderItem={(entity) => <EntityCard entity={entity} entityType={et} worldId={worldId!} />}
+          />
+        ) : (
+          <Grid container spacing={2}>
+            {filtered?.map((entity) => (
+              <Grid size={{ xs: 12, sm: 6, md: 4 }} key={entity.id}>
+                <EntityCard entity={entity} entityType={et} worldId={worldId!} />
+              </Grid>
+            ))}
+
+            {filtered && filtered.length === 0 && !hasMore && (
+              <Grid size={12}>
+                <Typography color="text.secondary" textAlign="center" py={6}>
+                  {search || serverQuery ? "No matches found." : `No ${label.toLowerCase()} in this world yet.`}
+                </Typography>
+              </Grid>
+            )}
+          </Grid>
+        )}
+
+        {data && error && (
+          <Alert
+            severity="error"
+            sx={{ mt: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={refetch}>
+                Retry
+              </Button>
+            }
+          >
+            {error}
+          </Alert>
+        )}
+
+        {loadingMore ? (
           <Box display="flex" justifyContent="center" mt={3}>
-            <Button variant="outlined" onClick={() => setPage(nextPageToken)}>
-              Load More
-            </Button>
+            <CircularProgress size={28} />
           </Box>
+        ) : (
+          hasMore &&
+          !error &&
+          (infinite ? (
+            <LoadMoreSentinel onVisible={loadMore} />
+          ) : (
+            <Box display="flex" justifyContent="center" mt={3}>
+              <Button variant="outlined" onClick={loadMore}>
+                Load More
+              </Button>
+            </Box>
+          ))
         )}
       </LoadingState>
+
+      {/* Create dialog */}
+      <Dialog open={creating} onClose={() => !create.loading && setCreating(false)} maxWidth="md" fullWidth>
+        <DialogTitle sx={{ textTransform: "capitalize" }}>New {singular?.replace(/_/g, " ")}</DialogTitle>
+        <DialogContent sx={{ pt: "8px !important" }}>
+          {creating && (
+            <EntityForm
+              entityType={et}
+              submitLabel="Create"
+              submitting={create.loading}
+              error={create.error}
+              onSubmit={handleCreate}
+              onCancel={() => setCreating(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </Box>
   );
 }
+
+/** Calls `onVisible` when scrolled into (or near) view */
+function LoadMoreSentinel({ onVisible }: { onVisible: () => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const onVisibleRef = useRef(onVisible);
+  useEffect(() => {
+    onVisibleRef.current = onVisible;
+  }, [onVisible]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) onVisibleRef.current();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  return <Box ref={ref} height={1} />;
+}
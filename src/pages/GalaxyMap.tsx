@@ -1,6 +1,6 @@
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useState, useCallback, useRef, useMemo, useEffect } from "react";
-import { Canvas, useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Canvas, useThree, type ThreeEvent } from "@react-three/fiber";
 import { OrbitControls, Stars, Line } from "@react-three/drei";
 import * as THREE from "three";
 import {
@@ -13,118 +13,65 @@ import {
   CircularProgress,
   Button,
   Divider,
-  Slider,
+  Switch,
+  FormControlLabel,
+  ToggleButton,
+  ToggleButtonGroup,
   alpha,
 } from "@mui/material";
-import SpeedIcon from "@mui/icons-material/Speed";
 import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import CloseIcon from "@mui/icons-material/Close";
 import OpenInNewIcon from "@mui/icons-material/OpenInNew";
 import PublicIcon from "@mui/icons-material/Public";
 import ExploreIcon from "@mui/icons-material/Explore";
-import { collection, getDocs } from "firebase/firestore";
-import { db } from "../api/firebase";
-
-// ─── Types ──────────────────────────────────────────────────────
-interface StarData {
-  name: string;
-  spectralClass: string;
-  luminosityClass: string;
-  surfaceTemperature: number;
-  radius: number;
-  mass: number;
-  orbitRadius?: number;
-  orbitAngle?: number;
-}
-
-interface StarSystem {
-  id: string;
-  name: string;
-  description?: string;
-  systemType: string;
-  galacticRegionId: string;
-  position: { azimuth: number; distance: number; elevation: number };
-  stars: StarData[];
-  habitableZone: string;
-  numberOfPlanets: number;
-  resources: string[];
-  hazards: string[];
-  status: string;
-}
-
-interface PlanetOrbit {
-  semiMajorAxis: number;
-  eccentricity: number;
-  inclination: number;
-  orbitalPeriod: number;
-  currentAngle: number;
-}
-
-interface PlanetRender {
-  radius: number;
-  primaryColor: string;
-  secondaryColor: string;
-  atmosphereColor: string;
-  atmosphereIntensity: number;
-  texture: string;
-  cloudCover: number;
-}
-
-interface Planet {
-  id: string;
-  name: string;
-  description?: string;
-  type: string;
-  climate: string;
-  atmosphere: string;
-  gravity: string;
-  starSystemId: string;
-  parentPlanetId?: string;
-  orbit: PlanetOrbit;
-  render: PlanetRender;
-  habitability: string;
-  moons: string[];
-  pointsOfInterest: string[];
-}
+import LayersIcon from "@mui/icons-material/Layers";
+import RouteIcon from "@mui/icons-material/Route";
+import { mapDataSource } from "../api/mapData";
+import { useMapCollection } from "../hooks/useMapCollection";
+import {
+  validateRecords,
+  ENTITY_SCHEMAS,
+  MAP_STAR_SYSTEM_SCHEMA,
+  MAP_PLANET_SCHEMA,
+  MAP_REGION_SCHEMA,
+} from "../api/validation";
+import { useInfiniteToolQuery, useToolQuery } from "../hooks/useWorldbuilder";
+import LoadingState from "../components/LoadingState";
+import RegionOverlays from "../components/galaxy/RegionOverlays";
+import GalaxyBackdrop from "../components/galaxy/GalaxyBackdrop";
+import type { MapStarSystem, MapPlanet, MapRegion } from "../components/galaxy/types";
+import HyperlaneNetwork from "../components/galaxy/HyperlaneNetwork";
+import RoutePlanner, { type RouteRequest } from "../components/galaxy/RoutePlanner";
+import MapLegend, { type FactionHoldings } from "../components/galaxy/MapLegend";
+import StarField, { SelectionRing } from "../components/galaxy/StarField";
+import MapSearch, { type SearchTarget } from "../components/galaxy/MapSearch";
+import DateControl from "../components/galaxy/DateControl";
+import TradeRouteLayer from "../components/galaxy/TradeRouteLayer";
+import ConflictTheaterLayer from "../components/galaxy/ConflictTheaterLayer";
+import AnimationLoop from "../components/galaxy/AnimationLoop";
+import { useLoopTask } from "../components/galaxy/loopContext";
+import { buildLanes, planRoute, DEFAULT_ROUTE_OPTIONS, type Lane } from "../utils/hyperlanes";
+import { orbitPoint, orbitPositionAt, SIM_DAYS_PER_SECOND } from "../utils/orbits";
+import { calendarFor } from "../utils/calendar";
+import { readMapView, writeMapView, type CameraView, type MapView } from "../utils/mapView";
+import { resolveTheaters, resolveTradeFlows, systemResolver, type Theater, type TradeFlow } from "../utils/mapReferences";
+import {
+  regionStyle,
+  MAP_MODE_LABELS,
+  type MapMode,
+  type MapModeState,
+} from "../utils/mapModes";
+import { assignFactionColors, CONTESTED_COLOR } from "../theme/mapColors";
+import { DEG2RAD, cylToCartesian, spectralColor } from "../utils/galaxy";
+import type {
+  StarData,
+  Faction,
+  WorldSettings,
+  EntityType,
+  TimelineEvent,
+} from "../types";
 
 // ─── Helpers ────────────────────────────────────────────────────
-const DEG2RAD = Math.PI / 180;
-
-/** Convert cylindrical (azimuth°, distance, elevation) → Cartesian */
-function cylToCartesian(azimuth: number, distance: number, elevation: number): [number, number, number] {
-  const a = azimuth * DEG2RAD;
-  return [
-    distance * Math.cos(a),
-    elevation,
-    distance * Math.sin(a),
-  ];
-}
-
-/** Map spectral class to hex color */
-function spectralColor(spectralClass: string): string {
-  const map: Record<string, string> = {
-    O: "#5c7aff",
-    B: "#7a9fff",
-    A: "#a4bfff",
-    F: "#f5f0ff",
-    G: "#ffe44d",
-    K: "#ff8c00",
-    M: "#ff4500",
-  };
-  return map[spectralClass?.toUpperCase()] ?? "#ffffff";
-}
-
-/** Star display radius — brighter bigger  */
-function starDisplayRadius(spectralClass: string, stellarRadius: number): number {
-  const base = 0.12;
-  const scale = spectralClass === "O" || spectralClass === "B" ? 1.6 :
-    spectralClass === "F" ? 1.2 :
-    spectralClass === "G" ? 1.0 :
-    spectralClass === "K" ? 0.85 :
-    spectralClass === "M" ? 0.65 : 1;
-  return base * scale * Math.max(0.6, Math.min(stellarRadius, 2));
-}
-
 /**
  * Compute multi-star orbit layout so that the cumulative center of mass
  * sits at the origin.  Each star orbits at radius r_i = k / m_i where
@@ -135,8 +82,8 @@ function computeStarLayout(stars: StarData[]) {
 
   const infos = stars.map((s, i) => ({
     displayR: i === 0
-      ? Math.max(0.6, Math.sqrt(s.radius) * 0.8)
-      : Math.max(0.4, Math.sqrt(s.radius) * 0.6),
+      ? Math.max(0.6, Math.sqrt(s.radius ?? 1) * 0.8)
+      : Math.max(0.4, Math.sqrt(s.radius ?? 1) * 0.6),
     color: spectralColor(s.spectralClass),
     mass: s.mass || 1,
   }));
@@ -185,7 +132,7 @@ function computeStarLayout(stars: StarData[]) {
 }
 
 /** Scale factor to push planet orbits outside the multi-star exclusion zone */
-function computeOrbitScale(starMaxExtent: number, planets: Planet[]): number {
+function computeOrbitScale(starMaxExtent: number, planets: MapPlanet[]): number {
   if (planets.length === 0) return 1;
   const buffer = 1.5;
   const exclusionRadius = starMaxExtent + buffer;
@@ -199,24 +146,8 @@ function computeOrbitScale(starMaxExtent: number, planets: Planet[]): number {
   return exclusionRadius / minPerihelion;
 }
 
-// ─── Selection ring component ───────────────────────────────────
-function SelectionRing({ radius, color }: { radius: number; color: string }) {
-  const ringRef = useRef<THREE.Mesh>(null);
-  useFrame(({ clock }) => {
-    if (ringRef.current) {
-      ringRef.current.rotation.z = clock.elapsedTime * 0.5;
-    }
-  });
-  return (
-    <mesh ref={ringRef} rotation={[-Math.PI / 2, 0, 0]}>
-      <ringGeometry args={[radius * 1.6, radius * 2.0, 48]} />
-      <meshBasicMaterial color={color} transparent opacity={0.45} side={THREE.DoubleSide} />
-    </mesh>
-  );
-}
-
 // ─── Multi-Star Orbit System ────────────────────────────────────
-function MultiStarSystem({ stars, timeSpeed }: { stars: StarData[]; timeSpeed: number }) {
+function MultiStarSystem({ stars }: { stars: StarData[] }) {
   const layout = useMemo(() => computeStarLayout(stars), [stars]);
   const groupRefs = useRef<(THREE.Group | null)[]>([]);
   const N = stars.length;
@@ -225,10 +156,9 @@ function MultiStarSystem({ stars, timeSpeed }: { stars: StarData[]; timeSpeed: n
   // Use same angular-speed scale as planets — treat star binary orbit as period ~30 days
   const starAngularSpeed = (2 * Math.PI) / (10);
 
-  useFrame((_, rawDelta) => {
+  useLoopTask(({ simDelta }) => {
     if (N < 2) return;
-    const delta = Math.min(rawDelta, 0.1);
-    phaseRef.current += delta * starAngularSpeed * timeSpeed;
+    phaseRef.current += simDelta * starAngularSpeed;
     const t = phaseRef.current;
     if (N === 2) {
       // Binary: stars on opposite sides of the center of mass
@@ -275,84 +205,6 @@ function MultiStarSystem({ stars, timeSpeed }: { stars: StarData[]; timeSpeed: n
   );
 }
 
-// ─── Galaxy-level Star Marker ───────────────────────────────────
-function StarMarker({
-  system,
-  isSelected,
-  onSelect,
-}: {
-  system: StarSystem;
-  isSelected: boolean;
-  onSelect: (systemId: string) => void;
-}) {
-  const meshRef = useRef<THREE.Mesh>(null);
-  const glowRef = useRef<THREE.Mesh>(null);
-
-  const primaryStar = system.stars[0];
-  const color = spectralColor(primaryStar.spectralClass);
-  const pos = cylToCartesian(system.position.azimuth, system.position.distance, system.position.elevation);
-  const displayRadius = starDisplayRadius(primaryStar.spectralClass, primaryStar.radius);
-
-  useFrame(() => {
-    if (glowRef.current) {
-      const s = isSelected ? 3.5 : 2.2;
-      glowRef.current.scale.setScalar(s);
-    }
-  });
-
-  const handlePointerOver = useCallback((e: ThreeEvent<PointerEvent>) => {
-    e.stopPropagation();
-    document.body.style.cursor = "pointer";
-  }, []);
-
-  const handlePointerOut = useCallback(() => {
-    document.body.style.cursor = "auto";
-  }, []);
-
-  const handleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
-    e.stopPropagation();
-    if (isSelected) return;
-    onSelect(system.id);
-  }, [system, isSelected, onSelect]);
-
-  return (
-    <group position={pos}>
-      {/* Glow sprite */}
-      <mesh ref={glowRef}>
-        <sphereGeometry args={[displayRadius, 16, 16]} />
-        <meshBasicMaterial color={color} transparent opacity={0.12} />
-      </mesh>
-
-      {/* Star core */}
-      <mesh
-        ref={meshRef}
-        onPointerOver={handlePointerOver}
-        onPointerOut={handlePointerOut}
-        onClick={handleClick}
-      >
-        <sphereGeometry args={[displayRadius, 16, 16]} />
-        <meshBasicMaterial color={color} />
-      </mesh>
-
-      {/* Enlarged invisible hit-area for easier clicking/tapping */}
-      <mesh
-        onClick={handleClick}
-        onPointerOver={handlePointerOver}
-        onPointerOut={handlePointerOut}
-      >
-        <sphereGeometry args={[Math.max(displayRadius * 2, 0.7), 16, 16]} />
-        <meshBasicMaterial visible={false} />
-      </mesh>
-
-      {/* Point light for glow  */}
-      <pointLight color={color} intensity={isSelected ? 2 : 0.6} distance={3} decay={2} />
-
-      {/* Selection ring highlight */}
-      {isSelected && <SelectionRing radius={displayRadius} color={color} />}
-    </group>
-  );
-}
-
 // ─── Orbit Ellipse Line ──────────────────────────────────────────
 function OrbitEllipse({
   semiMajorAxis,
@@ -372,16 +224,10 @@ function OrbitEllipse({
   const points = useMemo(() => {
     const pts: [number, number, number][] = [];
     const a = Math.sqrt(semiMajorAxis) * 9 * orbitScale;
-    const b = a * Math.sqrt(1 - eccentricity * eccentricity);
-    const inc = inclination * DEG2RAD;
     const segments = 96;
+    // Sweep the eccentric anomaly so the ellipse has the star at its focus
     for (let i = 0; i <= segments; i++) {
-      const theta = (i / segments) * Math.PI * 2;
-      const x = a * Math.cos(theta);
-      const z = b * Math.sin(theta);
-      const y = z * Math.sin(inc);
-      const zr = z * Math.cos(inc);
-      pts.push([x, y, zr]);
+      pts.push(orbitPoint(a, eccentricity, inclination, (i / segments) * Math.PI * 2));
     }
     return pts;
   }, [semiMajorAxis, eccentricity, inclination, orbitScale]);
@@ -395,15 +241,13 @@ function PlanetSphere({
   isSelected,
   onSelect,
   orbitScale = 1,
-  timeSpeed = 1,
   ...props
 }: {
-  planet: Planet;
+  planet: MapPlanet;
   isSelected: boolean;
   onSelect: (planetId: string) => void;
   orbitScale?: number;
-  timeSpeed?: number;
-  childMoons?: Planet[];
+  childMoons?: MapPlanet[];
   selectedMoonId?: string;
 }) {
   const meshRef = useRef<THREE.Mesh>(null);
@@ -413,33 +257,11 @@ function PlanetSphere({
 
   const { orbit, render: r } = planet;
   const a = Math.sqrt(orbit.semiMajorAxis) * 9 * orbitScale;
-  const b = a * Math.sqrt(1 - orbit.eccentricity * orbit.eccentricity);
-  const inc = orbit.inclination * DEG2RAD;
-
-  // Angular velocity: full revolution over orbitalPeriod "days"
-  // Map period → speed so that period=100 ≈ one revolution per ~1000 s at 1× speed
-  const angularSpeed = orbit.orbitalPeriod > 0 ? (2 * Math.PI) / (orbit.orbitalPeriod * 10) : 0.0005;
-  const phaseRef = useRef(orbit.currentAngle * DEG2RAD);
-
-  useFrame((_, rawDelta) => {
-    const delta = Math.min(rawDelta, 0.1);
-    phaseRef.current += delta * angularSpeed * timeSpeed;
-    const angle = phaseRef.current;
-    const xp = a * Math.cos(angle);
-    const zp = b * Math.sin(angle);
-    const yp = zp * Math.sin(inc);
-    const zr = zp * Math.cos(inc);
-    if (groupRef.current) {
-      groupRef.current.position.set(xp, yp, zr);
-    }
-  });
 
-  // Initial position
-  const initAngle = orbit.currentAngle * DEG2RAD;
-  const ix = a * Math.cos(initAngle);
-  const iz = b * Math.sin(initAngle);
-  const iy = iz * Math.sin(inc);
-  const izr = iz * Math.cos(inc);
+  // Position follows the shared in-world clock (orbitalPeriod is in days)
+  useLoopTask(({ simTime }) => {
+    groupRef.current?.position.set(...orbitPositionAt(orbit, a, simTime * SIM_DAYS_PER_SECOND));
+  });
 
   const displayRadius = Math.max(0.25, Math.sqrt(r.radius) * 0.45);
 
@@ -458,7 +280,7 @@ function PlanetSphere({
   }, [isSelected, onSelect, planet.id]);
 
   return (
-    <group ref={groupRef} position={[ix, iy, izr]}>
+    <group ref={groupRef} position={orbitPositionAt(orbit, a, 0)}>
       {/* Planet body */}
       <mesh
         ref={meshRef}
@@ -498,7 +320,6 @@ function PlanetSphere({
           parentRadius={displayRadius}
           isSelected={selectedMoonId === moon.id}
           onSelect={onSelect}
-          timeSpeed={timeSpeed}
         />
       ))}
     </group>
@@ -511,13 +332,11 @@ function MoonSphere({
   parentRadius,
   isSelected,
   onSelect,
-  timeSpeed = 1,
 }: {
-  moon: Planet;
+  moon: MapPlanet;
   parentRadius: number;
   isSelected: boolean;
   onSelect: (planetId: string) => void;
-  timeSpeed?: number;
 }) {
   const groupRef = useRef<THREE.Group>(null);
   const { orbit, render: r } = moon;
@@ -525,31 +344,10 @@ function MoonSphere({
   // Moon orbits are much smaller — scale relative to parent planet size
   const moonOrbitScale = parentRadius * 2.5;
   const a = Math.max(parentRadius * 1.8, Math.sqrt(orbit.semiMajorAxis) * 1.2 + moonOrbitScale);
-  const b = a * Math.sqrt(1 - orbit.eccentricity * orbit.eccentricity);
-  const inc = orbit.inclination * DEG2RAD;
-
-  // Moons orbit faster than planets
-  const angularSpeed = orbit.orbitalPeriod > 0 ? (2 * Math.PI) / (orbit.orbitalPeriod * 3) : 0.02;
-  const phaseRef = useRef(orbit.currentAngle * DEG2RAD);
-
-  useFrame((_, rawDelta) => {
-    const delta = Math.min(rawDelta, 0.1);
-    phaseRef.current += delta * angularSpeed * timeSpeed;
-    const angle = phaseRef.current;
-    const xp = a * Math.cos(angle);
-    const zp = b * Math.sin(angle);
-    const yp = zp * Math.sin(inc);
-    const zr = zp * Math.cos(inc);
-    if (groupRef.current) {
-      groupRef.current.position.set(xp, yp, zr);
-    }
-  });
 
-  const initAngle = orbit.currentAngle * DEG2RAD;
-  const ix = a * Math.cos(initAngle);
-  const iz = b * Math.sin(initAngle);
-  const iy = iz * Math.sin(inc);
-  const izr = iz * Math.cos(inc);
+  useLoopTask(({ simTime }) => {
+    groupRef.current?.position.set(...orbitPositionAt(orbit, a, simTime * SIM_DAYS_PER_SECOND));
+  });
 
   // Moons are smaller than planets
   const displayRadius = Math.max(0.12, Math.sqrt(r.radius) * 0.25);
@@ -569,7 +367,7 @@ function MoonSphere({
   }, [isSelected, onSelect, moon.id]);
 
   return (
-    <group ref={groupRef} position={[ix, iy, izr]}>
+    <group ref={groupRef} position={orbitPositionAt(orbit, a, 0)}>
       <mesh
         onPointerOver={handlePointerOver}
         onPointerOut={handlePointerOut}
@@ -608,13 +406,11 @@ function SystemDetailScene({
   planets,
   selectedPlanetId,
   onSelectPlanet,
-  timeSpeed,
 }: {
-  system: StarSystem;
-  planets: Planet[];
+  system: MapStarSystem;
+  planets: MapPlanet[];
   selectedPlanetId: string;
   onSelectPlanet: (planetId: string) => void;
-  timeSpeed: number;
 }) {
   const starLayout = useMemo(() => computeStarLayout(system.stars), [system.stars]);
 
@@ -632,7 +428,7 @@ function SystemDetailScene({
 
   // Build a map of parentPlanetId → child moons (only valid references)
   const moonsByParent = useMemo(() => {
-    const map = new Map<string, Planet[]>();
+    const map = new Map<string, MapPlanet[]>();
     for (const p of planets) {
       if (p.parentPlanetId && planetIdSet.has(p.parentPlanetId)) {
         const list = map.get(p.parentPlanetId) ?? [];
@@ -652,7 +448,7 @@ function SystemDetailScene({
   return (
     <group>
       {/* All stars — single stars sit at center, multi-star systems orbit the COM */}
-      <MultiStarSystem stars={system.stars} timeSpeed={timeSpeed} />
+      <MultiStarSystem stars={system.stars} />
 
       {/* Planet orbits and planets (root only — moons rendered as children) */}
       {rootPlanets.map((planet) => (
@@ -670,7 +466,6 @@ function SystemDetailScene({
             isSelected={selectedPlanetId === planet.id}
             onSelect={onSelectPlanet}
             orbitScale={orbitScale}
-            timeSpeed={timeSpeed}
             childMoons={moonsByParent.get(planet.id) ?? []}
             selectedMoonId={selectedPlanetId}
           />
@@ -695,7 +490,7 @@ function CameraAnimator({
   const { camera } = useThree();
   const lookAtRef = useRef(new THREE.Vector3(0, 0, 0));
 
-  useFrame(() => {
+  useLoopTask(() => {
     if (!active) return;
     camera.position.lerp(targetPosition, 0.04);
     lookAtRef.current.lerp(targetLookAt, 0.04);
@@ -716,10 +511,78 @@ function CameraAnimator({
   return null;
 }
 
+// ─── In-world day readout ────────────────────────────────────────
+/** Reports the clock's whole day whenever it rolls over */
+function DayReporter({ onDayChange }: { onDayChange: (day: number) => void }) {
+  const lastDay = useRef<number | null>(null);
+  useLoopTask(({ simTime }) => {
+    const day = Math.floor(simTime * SIM_DAYS_PER_SECOND);
+    if (day !== lastDay.current) {
+      lastDay.current = day;
+      onDayChange(day);
+    }
+  });
+  return null;
+}
+
 // ─── Galaxy scene content ────────────────────────────────────────
+interface GalaxyData {
+  starSystems: MapStarSystem[];
+  planets: MapPlanet[];
+  regions: MapRegion[];
+  factions: Faction[];
+}
+
+const NO_REGIONS: MapRegion[] = [];
+const NO_FACTIONS: Faction[] = [];
+const NO_FLOWS: TradeFlow[] = [];
+const NO_THEATERS: Theater[] = [];
+
+interface OverlayStatus {
+  loading: boolean;
+  error: string | null;
+}
+
+/** An overlay layer is as loaded as the collections it's resolved from */
+function overlayStatus(...collections: OverlayStatus[]): OverlayStatus {
+  return {
+    loading: collections.some((c) => c.loading),
+    error: collections.find((c) => c.error)?.error ?? null,
+  };
+}
+
+/** Layer switch label suffix: its count once loaded, or why there isn't one */
+function layerSuffix(on: boolean, status: OverlayStatus, count: number): string {
+  if (status.error) return " (couldn't load)";
+  if (!on) return "";
+  if (status.loading) return " (loading…)";
+  return ` (${count})`;
+}
+
+interface FlyTo {
+  systemId: string;
+  seq: number;
+}
+
+/** Where the camera sits relative to a system it flies to in galaxy view */
+const FLY_TO_OFFSET = new THREE.Vector3(0, 6, 8);
+
 function GalaxyScene({
+  worldId,
+  settings,
   starSystems,
   planets,
+  regions,
+  showRegions,
+  lanes,
+  showLanes,
+  routeIds,
+  tradeFlows,
+  theaters,
+  modeState,
+  factionNames,
+  onOpenEntity,
+  flyTo,
   selectedSystem,
   onSelectSystem: _onSelectSystem,
   selectedStarId,
@@ -727,16 +590,40 @@ function GalaxyScene({
   selectedPlanetId,
   onSelectPlanetId,
   timeSpeed,
+  seek,
+  onDayChange,
+  initialCamera,
+  onCameraChange,
 }: {
-  starSystems: StarSystem[];
-  planets: Planet[];
-  selectedSystem: StarSystem | null;
-  onSelectSystem: (system: StarSystem | null) => void;
+  worldId: string;
+  settings: WorldSettings | undefined;
+  starSystems: MapStarSystem[];
+  planets: MapPlanet[];
+  regions: MapRegion[];
+  showRegions: boolean;
+  lanes: Lane[];
+  showLanes: boolean;
+  routeIds: string[] | null;
+  /** Empty when the layer is off */
+  tradeFlows: TradeFlow[];
+  theaters: Theater[];
+  modeState: MapModeState;
+  factionNames: Record<string, string>;
+  onOpenEntity: (entityType: EntityType, id: string) => void;
+  /** Galaxy view: frame this system; `seq` lets a repeat search fly again */
+  flyTo: FlyTo | null;
+  selectedSystem: MapStarSystem | null;
+  onSelectSystem: (system: MapStarSystem | null) => void;
   selectedStarId: string;
   onSelectStarId: (id: string) => void;
   selectedPlanetId: string;
   onSelectPlanetId: (id: string) => void;
   timeSpeed: number;
+  seek: { simTime: number };
+  onDayChange: (day: number) => void;
+  /** Camera from a shared link; only read on mount */
+  initialCamera: CameraView | null;
+  onCameraChange: (view: CameraView) => void;
 }) {
   const controlsRef = useRef<any>(null);
   const { camera } = useThree();
@@ -758,7 +645,7 @@ function GalaxyScene({
     const sysPlanets = planets.filter((p) => p.starSystemId === selectedSystem.id);
     const oScale = computeOrbitScale(starLayout.maxExtent, sysPlanets);
     for (const p of sysPlanets) {
-      extents.push(Math.sqrt(p.orbit.semiMajorAxis) * 9 * oScale);
+      extents.push(Math.sqrt(p.orbit.semiMajorAxis) * 9 * oScale * (1 + p.orbit.eccentricity));
     }
 
     return extents.length > 0 ? Math.max(...extents) : 5;
@@ -786,6 +673,19 @@ function GalaxyScene({
     );
   }, [selectedSystem, maxOrbitExtent]);
 
+  const focusSystem = useMemo(
+    () => (flyTo ? starSystems.find((s) => s.id === flyTo.systemId) ?? null : null),
+    [flyTo, starSystems],
+  );
+
+  const focusLookAt = useMemo(() => {
+    if (!focusSystem) return null;
+    const { azimuth, distance, elevation } = focusSystem.position;
+    return new THREE.Vector3(...cylToCartesian(azimuth, distance, elevation));
+  }, [focusSystem]);
+
+  const focusCamPos = useMemo(() => focusLookAt?.clone().add(FLY_TO_OFFSET) ?? null, [focusLookAt]);
+
   const systemLookAt = useMemo(() => {
     if (!selectedSystem) return new THREE.Vector3(0, 0, 0);
     const [x, y, z] = cylToCartesian(
@@ -798,28 +698,50 @@ function GalaxyScene({
 
   // Disable orbit controls during animation
   const [animating, setAnimating] = useState(false);
-  const prevSelected = useRef<string | null>(null);
+  const viewKey = selectedSystem ? selectedSystem.id : focusSystem && flyTo ? `fly:${flyTo.seq}` : null;
+  // A linked camera replaces the opening fly-in until the view next changes
+  const [startCamera] = useState(initialCamera);
+  const [restoredLook, setRestoredLook] = useState(() =>
+    initialCamera ? new THREE.Vector3(...initialCamera.target) : null
+  );
+  const prevView = useRef<string | null>(initialCamera ? viewKey : null);
 
   useEffect(() => {
-    const currentId = selectedSystem?.id ?? null;
-    if (currentId !== prevSelected.current) {
-      prevSelected.current = currentId;
+    if (viewKey !== prevView.current) {
+      prevView.current = viewKey;
       setAnimating(true);
     }
-  }, [selectedSystem]);
+  }, [viewKey]);
+
+  const targetPos = selectedSystem ? systemCamPos : focusCamPos ?? galaxyCamPos;
+  const targetLook = selectedSystem ? systemLookAt : focusLookAt ?? galaxyLookAt;
 
   const handleAnimationComplete = useCallback(() => {
     setAnimating(false);
-  }, []);
+    setRestoredLook(null);
+    onCameraChange({ position: camera.position.toArray(), target: targetLook.toArray() });
+  }, [camera, targetLook, onCameraChange]);
+
+  const handleControlsEnd = useCallback(() => {
+    const target = controlsRef.current?.target as THREE.Vector3 | undefined;
+    if (target) onCameraChange({ position: camera.position.toArray(), target: target.toArray() });
+  }, [camera, onCameraChange]);
 
   // Set initial camera position
   useEffect(() => {
-    camera.position.set(0, 30, 35);
-    camera.lookAt(0, 0, 0);
-  }, [camera]);
+    if (startCamera) {
+      camera.position.set(...startCamera.position);
+      camera.lookAt(...startCamera.target);
+    } else {
+      camera.position.set(0, 30, 35);
+      camera.lookAt(0, 0, 0);
+    }
+  }, [camera, startCamera]);
 
-  const targetPos = selectedSystem ? systemCamPos : galaxyCamPos;
-  const targetLook = selectedSystem ? systemLookAt : galaxyLookAt;
+  const farthestDistance = useMemo(
+    () => Math.max(0, ...starSystems.map((s) => s.position.distance)),
+    [starSystems],
+  );
 
   const systemPlanets = useMemo(() => {
     if (!selectedSystem) return [];
@@ -827,7 +749,8 @@ function GalaxyScene({
   }, [selectedSystem, planets]);
 
   return (
-    <>
+    <AnimationLoop timeSpeed={timeSpeed} seek={seek}>
+      <DayReporter onDayChange={onDayChange} />
       <CameraAnimator
         targetPosition={targetPos}
         targetLookAt={targetLook}
@@ -841,7 +764,8 @@ function GalaxyScene({
         dampingFactor={0.1}
         minDistance={2}
         maxDistance={selectedSystem ? Math.min(300, Math.max(80, maxOrbitExtent * 4)) : 80}
-        target={targetLook}
+        target={restoredLook ?? targetLook}
+        onEnd={handleControlsEnd}
       />
 
       {/* Background stars */}
@@ -850,6 +774,11 @@ function GalaxyScene({
       {/* Ambient + directional */}
       <ambientLight intensity={0.18} />
 
+      {/* Galaxy view: procedural disk built from the world's galaxy settings */}
+      {!selectedSystem && (
+        <GalaxyBackdrop settings={settings} seed={worldId} farthestDistance={farthestDistance} />
+      )}
+
       {/* Galactic center glow */}
       {!selectedSystem && (
         <group>
@@ -857,16 +786,47 @@ function GalaxyScene({
         </group>
       )}
 
+      {/* Galaxy view: region sectors */}
+      {!selectedSystem && showRegions && (
+        <RegionOverlays
+          regions={regions}
+          styleFor={(r) => regionStyle(r, modeState)}
+          factionNames={factionNames}
+        />
+      )}
+
+      {/* Galaxy view: hyperlanes and the planned route */}
+      {!selectedSystem && (
+        <HyperlaneNetwork systems={starSystems} lanes={lanes} showLanes={showLanes} routeIds={routeIds} />
+      )}
+
+      {/* Galaxy view: trade flows and conflict theaters */}
+      {!selectedSystem && tradeFlows.length > 0 && (
+        <TradeRouteLayer
+          systems={starSystems}
+          flows={tradeFlows}
+          onOpen={(id) => onOpenEntity("economies", id)}
+        />
+      )}
+      {!selectedSystem && theaters.length > 0 && (
+        <ConflictTheaterLayer
+          systems={starSystems}
+          theaters={theaters}
+          factionColors={modeState.factionColors}
+          factionNames={factionNames}
+          onOpen={(id) => onOpenEntity("conflicts", id)}
+        />
+      )}
+
       {/* Galaxy view: star markers */}
-      {!selectedSystem &&
-        starSystems.map((sys) => (
-          <StarMarker
-            key={sys.id}
-            system={sys}
-            isSelected={selectedStarId === sys.id}
-            onSelect={onSelectStarId}
-          />
-        ))}
+      {!selectedSystem && (
+        <StarField
+          systems={starSystems}
+          selectedId={selectedStarId}
+          onSelect={onSelectStarId}
+          modeState={modeState}
+        />
+      )}
 
       {/* System detail view */}
       {selectedSystem && (
@@ -882,11 +842,10 @@ function GalaxyScene({
             planets={systemPlanets}
             selectedPlanetId={selectedPlanetId}
             onSelectPlanet={onSelectPlanetId}
-            timeSpeed={timeSpeed}
           />
         </group>
       )}
-    </>
+    </AnimationLoop>
   );
 }
 
@@ -894,12 +853,47 @@ function GalaxyScene({
 export default function GalaxyMap() {
   const { worldId, starSystemId } = useParams<{ worldId: string; starSystemId?: string }>();
   const navigate = useNavigate();
-  const [starSystems, setStarSystems] = useState<StarSystem[] | null>(null);
-  const [planets, setPlanets] = useState<Planet[] | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [selectedStarId, setSelectedStarId] = useState("");
-  const [selectedPlanetId, setSelectedPlanetId] = useState("");
-  const [timeSpeed, setTimeSpeed] = useState(0.25);
+  const { data: world } = useToolQuery("get_world", { worldId: worldId! });
+  // Every event, so the date control reaches the whole timeline
+  const { data: events } = useInfiniteToolQuery<TimelineEvent>("get_timeline", { worldId: worldId! }, 100, {
+    all: true,
+  });
+  const calendar = calendarFor(world?.settings?.calendarSystem);
+  const [loaded, setLoaded] = useState<{ key: string; data?: GalaxyData; error?: string } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const loadKey = `${worldId}#${attempt}`;
+  const loading = loaded?.key !== loadKey;
+  const loadError = loaded?.key === loadKey ? loaded.error ?? null : null;
+  // The last good load stays on screen while a retry is in flight
+  const starSystems = loaded?.data?.starSystems ?? null;
+  const planets = loaded?.data?.planets ?? null;
+  const regions = loaded?.data?.regions ?? NO_REGIONS;
+  const factions = loaded?.data?.factions ?? NO_FACTIONS;
+  const [showRegions, setShowRegions] = useState(true);
+  const [showLanes, setShowLanes] = useState(true);
+  const [showTrade, setShowTrade] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [mapMode, setMapMode] = useState<MapMode>("physical");
+  const [factionFilter, setFactionFilter] = useState("");
+  const [plannerOpen, setPlannerOpen] = useState(false);
+  const [routeRequest, setRouteRequest] = useState<RouteRequest>({
+    originId: "",
+    destinationId: "",
+    ...DEFAULT_ROUTE_OPTIONS,
+  });
+  // Selections, time speed and camera live in the URL so a view can be
+  // linked, and so browser back / forward steps through selections
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = readMapView(searchParams);
+  const { starId: selectedStarId, planetId: selectedPlanetId } = view;
+  // Slider position while dragging; the URL is written when it's released
+  const [draftSpeed, setDraftSpeed] = useState<number | null>(null);
+  const timeSpeed = draftSpeed ?? view.timeSpeed;
+  // The orbit clock: `seek` jumps it, `currentDay` mirrors it for the HUD
+  const [seek, setSeek] = useState(() => ({ simTime: (view.day ?? 0) / SIM_DAYS_PER_SECOND }));
+  const [currentDay, setCurrentDay] = useState(() => Math.floor(view.day ?? 0));
+  const [flyTo, setFlyTo] = useState<FlyTo | null>(null);
+  const [visits, setVisits] = useState<{ ids: string[]; index: number }>({ ids: [], index: -1 });
 
   // Derive selectedSystem from URL param
   const selectedSystem = useMemo(() => {
@@ -907,52 +901,159 @@ export default function GalaxyMap() {
     return starSystems.find((s) => s.id === starSystemId) ?? null;
   }, [starSystemId, starSystems]);
 
-  // Reset selections when navigating between galaxy / system views
-  useEffect(() => {
-    setSelectedStarId("");
-    setSelectedPlanetId("");
-  }, [starSystemId]);
+  const updateView = useCallback(
+    (patch: Partial<MapView>, replace = false) =>
+      setSearchParams((prev) => writeMapView(prev, patch), { replace }),
+    [setSearchParams]
+  );
+  // Each new selection is a history step; camera moves just update the current one
+  const setSelectedStarId = useCallback((starId: string) => updateView({ starId }), [updateView]);
+  const setSelectedPlanetId = useCallback((planetId: string) => updateView({ planetId }), [updateView]);
+  const handleCameraChange = useCallback((camera: CameraView) => updateView({ camera }, true), [updateView]);
+
+  const jumpToDay = (day: number) => {
+    setSeek({ simTime: day / SIM_DAYS_PER_SECOND });
+    setCurrentDay(Math.floor(day));
+    updateView({ day });
+  };
 
-  // Fetch star systems and planets directly from Firestore
+  // Fetch star systems, planets, regions and factions through the configured data source
+  // (api/mapData). Documents the scene can't draw are dropped here and reported in the
+  // diagnostics panel.
   useEffect(() => {
     if (!worldId) return;
     let cancelled = false;
-    setLoading(true);
+    const source = mapDataSource();
+    const options = { force: attempt > 0 };
 
     Promise.all([
-      getDocs(collection(db, "worlds", worldId, "star-systems")),
-      getDocs(collection(db, "worlds", worldId, "planets")),
+      source.listAll(worldId, "star-systems", options),
+      source.listAll(worldId, "planets", options),
+      source.listAll(worldId, "galactic-regions", options),
+      source.listAll(worldId, "factions", options),
     ])
-      .then(([sysSnap, planetSnap]) => {
+      .then(([systemRecords, planetRecords, regionRecords, factionRecords]) => {
         if (cancelled) return;
-        setStarSystems(
-          sysSnap.docs.map((d) => ({ id: d.id, ...d.data() } as unknown as StarSystem))
-        );
-        setPlanets(
-          planetSnap.docs.map((d) => ({ id: d.id, ...d.data() } as unknown as Planet))
-        );
+        setLoaded({
+          key: loadKey,
+          data: {
+            starSystems: validateRecords<MapStarSystem>(systemRecords, MAP_STAR_SYSTEM_SCHEMA, {
+              source: "galaxy map",
+              entityType: "star-systems",
+              strict: true,
+            }),
+            planets: validateRecords<MapPlanet>(planetRecords, MAP_PLANET_SCHEMA, {
+              source: "galaxy map",
+              entityType: "planets",
+              strict: true,
+            }),
+            regions: validateRecords<MapRegion>(regionRecords, MAP_REGION_SCHEMA, {
+              source: "galaxy map",
+              entityType: "galactic-regions",
+              strict: true,
+            }),
+            factions: validateRecords<Faction>(factionRecords, ENTITY_SCHEMAS.factions, {
+              source: "galaxy map",
+              entityType: "factions",
+            }),
+          },
+        });
       })
-      .catch((err) => {
-        console.error("Firestore fetch error:", err);
-      })
-      .finally(() => {
-        if (!cancelled) setLoading(false);
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : String(err);
+        setLoaded({ key: loadKey, error: `Couldn't load galaxy data from ${source.label}: ${message}` });
       });
 
     return () => { cancelled = true; };
-  }, [worldId]);
+  }, [worldId, attempt, loadKey]);
+
+  const lanes = useMemo(() => buildLanes(starSystems ?? []), [starSystems]);
+
+  // ── Trade routes and conflict theaters, resolved to the systems they touch ──
+  // Their collections load only once a layer is switched on, and fail on their own
+  const economies = useMapCollection(worldId, "economies", showTrade);
+  const conflicts = useMapCollection(worldId, "conflicts", showConflicts);
+  const locations = useMapCollection(worldId, "locations", showTrade || showConflicts);
+  const tradeLayer = overlayStatus(economies, locations);
+  const conflictLayer = overlayStatus(conflicts, locations);
+  const retryFailed = (...states: { error: string | null; retry: () => void }[]) =>
+    states.forEach((st) => st.error && st.retry());
+
+  const overlays = useMemo(() => {
+    const data = loaded?.data;
+    if (!data || !locations.data) return { flows: NO_FLOWS, theaters: NO_THEATERS };
+    const resolve = systemResolver(data.starSystems, data.planets, locations.data);
+    return {
+      flows: economies.data ? resolveTradeFlows(economies.data, resolve) : NO_FLOWS,
+      theaters: conflicts.data ? resolveTheaters(conflicts.data, resolve) : NO_THEATERS,
+    };
+  }, [loaded?.data, economies.data, conflicts.data, locations.data]);
+
+  // ── Political / strategic modes ──
+  const factionNames = useMemo(() => Object.fromEntries(factions.map((f) => [f.id, f.name])), [factions]);
+
+  const factionColors = useMemo(
+    () =>
+      assignFactionColors([
+        ...factions.map((f) => f.id),
+        ...(starSystems ?? []).flatMap((s) => (s.controllingFactionId ? [s.controllingFactionId] : [])),
+        ...regions.flatMap((r) => (r.controllingFactionId ? [r.controllingFactionId] : [])),
+        ...overlays.theaters.flatMap((t) => t.factionIds),
+      ]),
+    [factions, starSystems, regions, overlays.theaters]
+  );
 
-  const handleSelectSystem = useCallback((system: StarSystem | null) => {
-    setSelectedStarId("");
-    setSelectedPlanetId("");
+  const modeState: MapModeState = useMemo(
+    () => ({ mode: mapMode, factionColors, factionFilter }),
+    [mapMode, factionColors, factionFilter]
+  );
+
+  // Factions that hold anything on the map, largest first
+  const holdings = useMemo(() => {
+    const byId = new Map<string, FactionHoldings>();
+    const entry = (id: string) => {
+      if (!byId.has(id)) {
+        byId.set(id, { id, name: factionNames[id] ?? id, color: factionColors[id], systems: 0, regions: 0 });
+      }
+      return byId.get(id)!;
+    };
+    for (const s of starSystems ?? []) if (s.controllingFactionId) entry(s.controllingFactionId).systems++;
+    for (const r of regions) if (r.controllingFactionId) entry(r.controllingFactionId).regions++;
+    return [...byId.values()].sort((a, b) => b.systems - a.systems || b.regions - a.regions);
+  }, [starSystems, regions, factionNames, factionColors]);
+
+  const route = useMemo(() => {
+    const { originId, destinationId } = routeRequest;
+    if (!plannerOpen || !starSystems || !originId || !destinationId) return null;
+    return planRoute(starSystems, regions, originId, destinationId, routeRequest);
+  }, [plannerOpen, starSystems, regions, routeRequest]);
+
+  const startRoute = (patch: Partial<RouteRequest>) => {
+    setRouteRequest((r) => ({ ...r, ...patch }));
+    setPlannerOpen(true);
+  };
+
+  // ── Visit history (back / forward between systems) ──
+  const recordVisit = useCallback((systemId: string) => {
+    setVisits((v) =>
+      v.ids[v.index] === systemId ? v : { ids: [...v.ids.slice(0, v.index + 1), systemId], index: v.index + 1 }
+    );
+  }, []);
+
+  // Moving between galaxy and system views drops the query, clearing selections
+  const handleSelectSystem = useCallback((system: MapStarSystem | null) => {
+    setFlyTo(null);
     if (system) {
+      recordVisit(system.id);
       navigate(`/worlds/${worldId}/galaxy/${system.id}`);
     } else {
       navigate(`/worlds/${worldId}/galaxy`);
     }
-  }, [navigate, worldId]);
+  }, [navigate, worldId, recordVisit]);
 
   const handleBack = useCallback(() => {
+    setFlyTo(null);
     if (starSystemId) {
       navigate(`/worlds/${worldId}/galaxy`);
     } else {
@@ -960,6 +1061,35 @@ export default function GalaxyMap() {
     }
   }, [starSystemId, navigate, worldId]);
 
+  /**
+   * Take the camera to a system. Galaxy view flies there and selects it;
+   * system view (or a planet target) opens that system, selecting the planet.
+   */
+  const goTo = (systemId: string, planetId = "") => {
+    if (starSystemId === systemId) {
+      setSelectedPlanetId(planetId);
+    } else if (starSystemId || planetId) {
+      setFlyTo(null);
+      navigate(`/worlds/${worldId}/galaxy/${systemId}${planetId ? `?planet=${encodeURIComponent(planetId)}` : ""}`);
+    } else {
+      setFlyTo((f) => ({ systemId, seq: (f?.seq ?? 0) + 1 }));
+      setSelectedStarId(systemId);
+    }
+  };
+
+  const handleSearch = (target: SearchTarget) => {
+    recordVisit(target.systemId);
+    goTo(target.systemId, target.kind === "planet" ? target.id : "");
+  };
+
+  const stepHistory = (offset: -1 | 1) => {
+    const index = visits.index + offset;
+    const systemId = visits.ids[index];
+    if (!systemId) return;
+    setVisits({ ...visits, index });
+    goTo(systemId);
+  };
+
   return (
     <Box sx={{ position: "relative", width: "100%", height: "calc(100vh - 64px)", bgcolor: "#000" }}>
       {/* Top bar */}
@@ -1008,7 +1138,7 @@ export default function GalaxyMap() {
       </Box>
 
       {/* Loading overlay */}
-      {loading && (
+      {loading && !loaded?.data && (
         <Box
           sx={{
             position: "absolute",
@@ -1027,6 +1157,27 @@ export default function GalaxyMap() {
         </Box>
       )}
 
+      {/* Load failure */}
+      {loadError && (
+        <Box
+          sx={{
+            position: "absolute",
+            inset: 0,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 20,
+            px: 3,
+          }}
+        >
+          <Box sx={{ maxWidth: 520 }}>
+            <LoadingState loading={false} error={loadError} onRetry={() => setAttempt((n) => n + 1)}>
+              {null}
+            </LoadingState>
+          </Box>
+        </Box>
+      )}
+
       {/* 3D Canvas */}
       <Canvas
         camera={{ position: [0, 30, 35], fov: 55, near: 0.1, far: 500 }}
@@ -1035,8 +1186,21 @@ export default function GalaxyMap() {
       >
         {(starSystems && planets) ? (
           <GalaxyScene
+            worldId={worldId!}
+            settings={world?.settings}
             starSystems={starSystems}
             planets={planets}
+            regions={regions}
+            showRegions={showRegions}
+            lanes={lanes}
+            showLanes={showLanes}
+            routeIds={route?.systemIds ?? null}
+            tradeFlows={showTrade && !tradeLayer.error ? overlays.flows : NO_FLOWS}
+            theaters={showConflicts && !conflictLayer.error ? overlays.theaters : NO_THEATERS}
+            modeState={modeState}
+            factionNames={factionNames}
+            onOpenEntity={(entityType, id) => navigate(`/worlds/${worldId}/${entityType}/${id}`)}
+            flyTo={flyTo}
             selectedSystem={selectedSystem}
             onSelectSystem={handleSelectSystem}
             selectedStarId={selectedStarId}
@@ -1044,6 +1208,10 @@ export default function GalaxyMap() {
             selectedPlanetId={selectedPlanetId}
             onSelectPlanetId={setSelectedPlanetId}
             timeSpeed={timeSpeed}
+            seek={seek}
+            onDayChange={setCurrentDay}
+            initialCamera={view.camera}
+            onCameraChange={handleCameraChange}
           />
         ) : (
           <>
@@ -1053,44 +1221,167 @@ export default function GalaxyMap() {
         )}
       </Canvas>
 
-      {/* ── Speed Slider (system view only) ─────────────────────── */}
-      {selectedSystem && (
+      {/* ── Search and visit history ───────────────────────────── */}
+      {starSystems && planets && (
+        <MapSearch
+          systems={starSystems}
+          planets={planets}
+          history={visits.ids}
+          historyIndex={visits.index}
+          onSelect={handleSearch}
+          onStep={stepHistory}
+        />
+      )}
+
+      {/* ── Layer toggles (galaxy view only) ─────────────────────── */}
+      {!selectedSystem && starSystems && (
         <Paper
           sx={{
             position: "absolute",
-            bottom: 24,
-            left: 24,
+            top: 16,
+            right: 16,
             zIndex: 10,
-            width: 220,
             bgcolor: alpha("#0a0f1e", 0.88),
             backdropFilter: "blur(12px)",
             border: `1px solid ${alpha("#fff", 0.1)}`,
             px: 2,
-            py: 1.5,
+            py: 1,
           }}
         >
-          <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 0.5 }}>
-            <SpeedIcon sx={{ color: alpha("#fff", 0.6), fontSize: 18 }} />
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <LayersIcon sx={{ color: alpha("#fff", 0.6), fontSize: 18 }} />
             <Typography variant="caption" sx={{ color: alpha("#fff", 0.7), fontWeight: 600 }}>
-              Time Speed: {timeSpeed === 0 ? "Paused" : `${timeSpeed.toFixed(3)}×`}
+              Layers
             </Typography>
           </Stack>
-          <Slider
-            value={timeSpeed}
-            onChange={(_, v) => setTimeSpeed(v as number)}
-            min={0}
-            max={2}
-            step={0.05}
+          <ToggleButtonGroup
             size="small"
+            exclusive
+            fullWidth
+            value={mapMode}
+            onChange={(_, v) => {
+              if (!v) return;
+              setMapMode(v);
+              setFactionFilter("");
+            }}
             sx={{
-              color: "#7c4dff",
-              '& .MuiSlider-thumb': { width: 14, height: 14 },
-              '& .MuiSlider-rail': { opacity: 0.25 },
+              my: 1,
+              "& .MuiToggleButton-root": { color: alpha("#fff", 0.6), textTransform: "none", py: 0.25, fontSize: "0.7rem" },
             }}
+          >
+            {(Object.keys(MAP_MODE_LABELS) as MapMode[]).map((m) => (
+              <ToggleButton key={m} value={m}>
+                {MAP_MODE_LABELS[m]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={showRegions}
+                onChange={(e) => setShowRegions(e.target.checked)}
+                disabled={regions.length === 0}
+              />
+            }
+            label={`Regions${regions.length > 0 ? ` (${regions.length})` : ""}`}
+            slotProps={{ typography: { variant: "caption", sx: { color: alpha("#fff", 0.8) } } }}
           />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={showLanes}
+                onChange={(e) => setShowLanes(e.target.checked)}
+                disabled={lanes.length === 0}
+              />
+            }
+            label={`Hyperlanes${lanes.length > 0 ? ` (${lanes.length})` : ""}`}
+            slotProps={{ typography: { variant: "caption", sx: { color: alpha("#fff", 0.8) } } }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={showTrade && !tradeLayer.error}
+                onChange={(e) => {
+                  if (e.target.checked) retryFailed(economies, locations);
+                  setShowTrade(e.target.checked);
+                }}
+              />
+            }
+            title={tradeLayer.error ?? undefined}
+            label={`Trade routes${layerSuffix(showTrade, tradeLayer, overlays.flows.length)}`}
+            slotProps={{ typography: { variant: "caption", sx: { color: alpha("#fff", 0.8) } } }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={showConflicts && !conflictLayer.error}
+                onChange={(e) => {
+                  if (e.target.checked) retryFailed(conflicts, locations);
+                  setShowConflicts(e.target.checked);
+                }}
+              />
+            }
+            title={conflictLayer.error ?? undefined}
+            label={`Conflicts${layerSuffix(showConflicts, conflictLayer, overlays.theaters.length)}`}
+            slotProps={{ typography: { variant: "caption", sx: { color: alpha("#fff", 0.8) } } }}
+          />
+          <Button
+            size="small"
+            fullWidth
+            startIcon={<RouteIcon />}
+            onClick={() => setPlannerOpen((o) => !o)}
+            disabled={lanes.length === 0}
+            sx={{ mt: 0.5, color: "#ffd740", textTransform: "none" }}
+          >
+            {plannerOpen ? "Close route planner" : "Plan route"}
+          </Button>
         </Paper>
       )}
 
+      {/* ── Map mode legend (galaxy view only) ───────────────────── */}
+      {!selectedSystem && starSystems && (
+        <MapLegend
+          mode={mapMode}
+          factions={holdings}
+          unclaimedSystems={starSystems.filter((s) => !s.controllingFactionId).length}
+          contestedSystems={starSystems.filter((s) => s.status === "contested").length}
+          factionFilter={factionFilter}
+          onFactionFilter={setFactionFilter}
+        />
+      )}
+
+      {/* ── Route planner (galaxy view only) ─────────────────────── */}
+      {!selectedSystem && starSystems && plannerOpen && (
+        <RoutePlanner
+          systems={starSystems}
+          request={routeRequest}
+          route={route}
+          onChange={setRouteRequest}
+          onClose={() => setPlannerOpen(false)}
+        />
+      )}
+
+      {/* ── Date and time speed (system view only) ─────────────── */}
+      {selectedSystem && (
+        <DateControl
+          day={currentDay}
+          calendar={calendar}
+          events={events ?? []}
+          localPlanetIds={new Set(planets?.filter((p) => p.starSystemId === selectedSystem.id).map((p) => p.id))}
+          onJump={jumpToDay}
+          timeSpeed={timeSpeed}
+          onTimeSpeedChange={setDraftSpeed}
+          onTimeSpeedCommit={(speed) => {
+            setDraftSpeed(null);
+            updateView({ timeSpeed: speed }, true);
+          }}
+        />
+      )}
+
       {/* ── HUD Info Panel ─────────────────────────────────────── */}
       {(() => {
         // Galaxy view: show selected star system info
@@ -1152,7 +1443,22 @@ export default function GalaxyMap() {
                   <Chip
                     label={sys.status}
                     size="small"
-                    sx={{ bgcolor: alpha("#fff", 0.08), color: "#aaa", fontSize: "0.7rem" }}
+                    sx={{
+                      bgcolor: alpha(sys.status === "contested" ? CONTESTED_COLOR : "#fff", 0.12),
+                      color: sys.status === "contested" ? "#ff8a80" : "#aaa",
+                      fontSize: "0.7rem",
+                    }}
+                  />
+                )}
+                {sys.controllingFactionId && (
+                  <Chip
+                    label={factionNames[sys.controllingFactionId] ?? sys.controllingFactionId}
+                    size="small"
+                    sx={{
+                      bgcolor: alpha(factionColors[sys.controllingFactionId], 0.25),
+                      color: factionColors[sys.controllingFactionId],
+                      fontSize: "0.7rem",
+                    }}
                   />
                 )}
               </Stack>
@@ -1170,6 +1476,28 @@ export default function GalaxyMap() {
                   {sysPlanets.length} planet{sysPlanets.length !== 1 ? "s" : ""}: {sysPlanets.map((p) => p.name).join(", ")}
                 </Typography>
               )}
+              {lanes.length > 0 && (
+                <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+                  <Button
+                    size="small"
+                    fullWidth
+                    startIcon={<RouteIcon />}
+                    onClick={() => startRoute({ originId: sys.id })}
+                    sx={{ color: "#ffd740", textTransform: "none", border: `1px solid ${alpha("#ffd740", 0.3)}` }}
+                  >
+                    Route from
+                  </Button>
+                  <Button
+                    size="small"
+                    fullWidth
+                    startIcon={<RouteIcon />}
+                    onClick={() => startRoute({ destinationId: sys.id })}
+                    sx={{ color: "#ffd740", textTransform: "none", border: `1px solid ${alpha("#ffd740", 0.3)}` }}
+                  >
+                    Route to
+                  </Button>
+                </Stack>
+              )}
               <Button
                 variant="contained"
                 size="small"
@@ -1246,6 +1574,13 @@ export default function GalaxyMap() {
                     fontSize: "0.7rem",
                   }}
                 />
+                {planet.controllingFactionId && (
+                  <Chip
+                    label={factionNames[planet.controllingFactionId] ?? planet.controllingFactionId}
+                    size="small"
+                    sx={{ bgcolor: alpha("#fff", 0.08), color: "#ccc", fontSize: "0.7rem" }}
+                  />
+                )}
               </Stack>
               {planet.description && (
                 <Typography variant="body2" sx={{ color: alpha("#fff", 0.65), mb: 1, fontSize: "0.78rem" }}>
@@ -1260,13 +1595,13 @@ export default function GalaxyMap() {
                 <Typography variant="caption" sx={{ color: alpha("#fff", 0.5) }}>
                   Gravity: {planet.gravity} &middot; Orbit period: {planet.orbit.orbitalPeriod} days
                 </Typography>
-                {planet.moons.length > 0 && (
+                {planet.moons && planet.moons.length > 0 && (
                   <Typography variant="caption" sx={{ color: alpha("#fff", 0.5) }}>
                     Moons: {planet.moons.join(", ")}
                   </Typography>
                 )}
               </Stack>
-              {planet.pointsOfInterest.length > 0 && (
+              {planet.pointsOfInterest && planet.pointsOfInterest.length > 0 && (
                 <>
                   <Typography variant="caption" sx={{ color: alpha("#fff", 0.4), fontWeight: 600, display: "block", mb: 0.3 }}>
                     Points of Interest
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  TextField,
+  MenuItem,
+  Button,
+  IconButton,
+  Stack,
+  Autocomplete,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress,
+  Tooltip,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import SaveIcon from "@mui/icons-material/Save";
+import { useInfiniteToolQuery } from "../hooks/useWorldbuilder";
+import LoadingState from "../components/LoadingState";
+import type { Entity, EntityType } from "../types";
+import { ENTITY_TYPES, ENTITY_LABELS } from "../types";
+import type { SearchOperator } from "../api/tools";
+import {
+  SEARCH_OPERATORS,
+  isListOperator,
+  fieldSpec,
+  queryableFields,
+  completeRows,
+  toToolCall,
+  loadSavedQueries,
+  storeSavedQueries,
+  type BuiltQuery,
+  type FilterRow,
+  type SavedQuery,
+} from "../utils/queryBuilder";
+
+const PAGE_SIZE = 50;
+
+const emptyRow = (): FilterRow => ({ field: "", operator: "==", value: "" });
+
+const emptyQuery = (entityType: EntityType = "characters"): BuiltQuery => ({
+  entityType,
+  tool: "query_world",
+  rows: [emptyRow()],
+  sort: null,
+});
+
+export default function QueryBuilderPage() {
+  const { worldId } = useParams<{ worldId: string }>();
+  // Everything here, saved queries included, belongs to one world
+  return <QueryBuilder key={worldId} worldId={worldId!} />;
+}
+
+function QueryBuilder({ worldId }: { worldId: string }) {
+  const [query, setQuery] = useState<BuiltQuery>(() => emptyQuery());
+  // The query currently shown in the results table
+  const [submitted, setSubmitted] = useState<BuiltQuery | null>(null);
+
+  const [saved, setSaved] = useState<SavedQuery[]>(() => loadSavedQueries(worldId));
+  const [saveName, setSaveName] = useState("");
+
+  const updateSaved = (next: SavedQuery[]) => {
+    setSaved(next);
+    storeSavedQueries(worldId, next);
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name) return;
+    const existing = saved.find((q) => q.name === name);
+    const entry: SavedQuery = {
+      ...query,
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      savedAt: new Date().toISOString(),
+    };
+    updateSaved(existing ? saved.map((q) => (q.id === existing.id ? entry : q)) : [...saved, entry]);
+    setSaveName("");
+  };
+
+  const handleLoad = (entry: SavedQuery) => {
+    const loaded: BuiltQuery = {
+      entityType: entry.entityType,
+      tool: entry.tool,
+      rows: entry.rows.length > 0 ? entry.rows : [emptyRow()],
+      sort: entry.sort,
+    };
+    setQuery(loaded);
+    setSubmitted(loaded);
+  };
+
+  const setRow = (index: number, patch: Partial<FilterRow>) => {
+    setQuery((q) => ({ ...q, rows: q.rows.map((r, i) => (i === index ? { ...r, ...patch } : r)) }));
+  };
+
+  const isSearch = query.tool === "search";
+  const fields = queryableFields(query.entityType);
+
+  return (
+    <Box>
+      <Typography variant="h4" mb={3}>
+        Advanced Query
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, md: 9 }}>
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap alignItems="center" mb={2}>
+              <TextField
+                select
+                size="small"
+                label="Collection"
+                value={query.entityType}
+                onChange={(e) => setQuery(emptyQuery(e.target.value as EntityType))}
+                sx={{ minWidth: 200 }}
+              >
+                {ENTITY_TYPES.map((et) => (
+                  <MenuItem key={et} value={et}>
+                    {ENTITY_LABELS[et]}
+                  </MenuItem>
+                ))}
+              </TextField>
+
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={query.tool}
+                onChange={(_, tool) => tool && setQuery((q) => ({ ...q, tool }))}
+              >
+                <ToggleButton value="query_world" sx={{ textTransform: "none" }}>
+                  query_world
+                </ToggleButton>
+                <ToggleButton value="search" sx={{ textTransform: "none" }}>
+                  search_{query.entityType}
+                </ToggleButton>
+              </ToggleButtonGroup>
+              {isSearch && (
+                <Typography variant="caption" color="text.secondary">
+                  Single filter, no sorting
+                </Typography>
+              )}
+            </Stack>
+
+            {/* Filter rows */}
+            <Stack spacing={1.5}>
+              {(isSearch ? query.rows.slice(0, 1) : query.rows).map((row, i) => {
+                const spec = fieldSpec(query.entityType, row.field);
+                const listOp = isListOperator(row.operator);
+                return (
+                  <Stack key={i} direction={{ xs: "column", sm: "row" }} spacing={1} alignItems={{ sm: "center" }}>
+                    <Autocomplete
+                      freeSolo
+                      size="small"
+                      options={fields}
+                      inputValue={row.field}
+                      onInputChange={(_, v) => setRow(i, { field: v })}
+                      renderInput={(params) => <TextField {...params} label="Field" />}
+                      sx={{ width: { xs: "100%", sm: 220 } }}
+                    />
+                    <TextField
+                      select
+                      size="small"
+                      label="Operator"
+                      value={row.operator}
+                      onChange={(e) => setRow(i, { operator: e.target.value as SearchOperator })}
+                      sx={{ width: { xs: "100%", sm: 190 } }}
+                    >
+                      {SEARCH_OPERATORS.map((op) => (
+                        <MenuItem key={op.value} value={op.value}>
+                          <Box component="span" sx={{ fontFamily: "monospace", mr: 1 }}>
+                            {op.value}
+                          </Box>
+                          <Typography variant="caption" color="text.secondary">
+                            {op.label}
+                          </Typography>
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    {spec?.options && !listOp ? (
+                      <Autocomplete
+                        freeSolo
+                        size="small"
+                        options={spec.options as string[]}
+                        inputValue={row.value}
+                        onInputChange={(_, v) => setRow(i, { value: v })}
+                        renderInput={(params) => <TextField {...params} label="Value" />}
+                        sx={{ flex: 1, minWidth: 160 }}
+                      />
+                    ) : (
+                      <TextField
+                        size="small"
+                        label="Value"
+                        value={row.value}
+                        onChange={(e) => setRow(i, { value: e.target.value })}
+                        placeholder={listOp ? "a, b, c" : spec?.ref ? `${spec.ref} ID` : undefined}
+                        helperText={listOp ? "Comma-separated" : undefined}
+                        sx={{ flex: 1, minWidth: 160 }}
+                      />
+                    )}
+                    <IconButton
+                      size="small"
+                      disabled={query.rows.length === 1}
+                      onClick={() => setQuery((q) => ({ ...q, rows: q.rows.filter((_, j) => j !== i) }))}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Stack>
+                );
+              })}
+            </Stack>
+
+            {!isSearch && (
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setQuery((q) => ({ ...q, rows: [...q.rows, emptyRow()] }))}
+                sx={{ mt: 1.5 }}
+              >
+                Add filter
+              </Button>
+            )}
+
+            {!isSearch && (
+              <Stack direction="row" spacing={1} mt={2} alignItems="center">
+                <Autocomplete
+                  freeSolo
+                  size="small"
+                  options={fields}
+                  inputValue={query.sort?.field ?? ""}
+                  onInputChange={(_, v) =>
+                    setQuery((q) => ({ ...q, sort: v ? { field: v, direction: q.sort?.direction ?? "asc" } : null }))
+                  }
+                  renderInput={(params) => <TextField {...params} label="Sort by" />}
+                  sx={{ width: 220 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="Direction"
+                  value={query.sort?.direction ?? "asc"}
+                  disabled={!query.sort}
+                  onChange={(e) =>
+                    setQuery((q) =>
+                      q.sort ? { ...q, sort: { ...q.sort, direction: e.target.value as "asc" | "desc" } } : q
+                    )
+                  }
+                  sx={{ width: 130 }}
+                >
+                  <MenuItem value="asc">Ascending</MenuItem>
+                  <MenuItem value="desc">Descending</MenuItem>
+                </TextField>
+              </Stack>
+            )}
+
+            <Stack direction="row" spacing={1} mt={3} alignItems="center" flexWrap="wrap" useFlexGap>
+              <Button
+                variant="contained"
+                startIcon={<PlayArrowIcon />}
+                onClick={() => setSubmitted(query)}
+                disabled={isSearch && completeRows(query.rows).length === 0}
+              >
+                Run
+              </Button>
+              <Button onClick={() => setQuery(emptyQuery(query.entityType))}>Reset</Button>
+              <Box flex={1} />
+              <TextField
+                size="small"
+                placeholder="Query name"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                sx={{ width: 200 }}
+              />
+              <Button startIcon={<SaveIcon />} onClick={handleSave} disabled={!saveName.trim()}>
+                Save
+              </Button>
+            </Stack>
+          </Paper>
+
+          {submitted && <QueryResults worldId={worldId} query={submitted} />}
+        </Grid>
+
+        {/* Saved queries */}
+        <Grid size={{ xs: 12, md: 3 }}>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="overline" color="text.secondary">
+              Saved Queries
+            </Typography>
+            {saved.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" mt={1}>
+                Nothing saved for this world yet.
+              </Typography>
+            ) : (
+              <List dense disablePadding>
+                {saved.map((entry) => (
+                  <ListItem
+                    key={entry.id}
+                    disablePadding
+                    secondaryAction={
+                      <Tooltip title="Delete">
+                        <IconButton
+                          edge="end"
+                          size="small"
+                          onClick={() => updateSaved(saved.filter((q) => q.id !== entry.id))}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemButton onClick={() => handleLoad(entry)}>
+                      <ListItemText
+                        primary={entry.name}
+                        secondary={`${ENTITY_LABELS[entry.entityType]} · ${completeRows(entry.rows).length} filter(s)`}
+                      />
+                    </ListItemButton>
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+}
+
+function QueryResults({ worldId, query }: { worldId: string; query: BuiltQuery }) {
+  const navigate = useNavigate();
+  const { toolName, args } = toToolCall(worldId, query);
+  const { data, loading, loadingMore, error, hasMore, totalCount, loadMore, refetch } =
+    useInfiniteToolQuery<Entity>(toolName, args, PAGE_SIZE);
+
+  // Name column, then whatever the query filtered / sorted on
+  const columns = [
+    ...new Set(
+      [...completeRows(query.rows).map((r) => r.field.trim()), query.sort?.field].filter(
+        (f): f is string => !!f && f !== "name" && f !== "title"
+      )
+    ),
+  ];
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle2" sx={{ fontFamily: "monospace" }}>
+          {toolName}
+        </Typography>
+        {data && (
+          <Typography variant="body2" color="text.secondary">
+            {totalCount !== undefined ? `${data.length} of ${totalCount}` : `${data.length} result(s)`}
+          </Typography>
+        )}
+      </Stack>
+
+      <LoadingState loading={loading} error={error} onRetry={refetch}>
+        {data && data.length === 0 ? (
+          <Typography color="text.secondary" textAlign="center" py={4}>
+            No matching {ENTITY_LABELS[query.entityType].toLowerCase()}.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  {columns.map((c) => (
+                    <TableCell key={c}>{c}</TableCell>
+                  ))}
+                  <TableCell>ID</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {data?.map((entity) => (
+                  <TableRow
+                    key={entity.id}
+                    hover
+                    sx={{ cursor: "pointer" }}
+                    onClick={() =>
+                      navigate(`/worlds/${worldId}/${query.entityType}/${entity.id}`, { state: { entity } })
+                    }
+                  >
+                    <TableCell sx={{ fontWeight: 600 }}>{entity.name || entity.title || "—"}</TableCell>
+                    {columns.map((c) => (
+                      <TableCell key={c}>{formatCell(entity[c])}</TableCell>
+                    ))}
+                    <TableCell sx={{ fontFamily: "monospace", fontSize: "0.75rem", color: "text.secondary" }}>
+                      {entity.id}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {hasMore && (
+          <Box display="flex" justifyContent="center" mt={2}>
+            <Button
+              variant="outlined"
+              onClick={loadMore}
+              disabled={loadingMore}
+              startIcon={loadingMore ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              Load More
+            </Button>
+          </Box>
+        )}
+      </LoadingState>
+    </Paper>
+  );
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (Array.isArray(value)) return value.map((v) => (typeof v === "object" ? JSON.stringify(v) : String(v))).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -1,10 +1,9 @@
-import { useState } from "react";
+import { useState, useReducer, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   Box,
   Typography,
   Paper,
-  TextField,
   Button,
   Chip,
   Stack,
@@ -14,48 +13,182 @@ import {
   MenuItem,
   Grid,
   alpha,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
 } from "@mui/material";
 import HubIcon from "@mui/icons-material/Hub";
 import SearchIcon from "@mui/icons-material/Search";
-import { useToolQuery } from "../hooks/useWorldbuilder";
+import OpenInNewIcon from "@mui/icons-material/OpenInNew";
+import RouteIcon from "@mui/icons-material/Route";
+import { fetchQuery } from "../api/queryCache";
 import LoadingState from "../components/LoadingState";
-import type { Relationship } from "../types";
-import { ENTITY_TYPES, ENTITY_LABELS } from "../types";
+import RelationshipGraph, { type GraphNode } from "../components/RelationshipGraph";
+import EntityPicker from "../components/EntityPicker";
+import EntityIcon from "../components/EntityIcon";
+import type { EntityRef, EntityType, Relationship } from "../types";
+import { ENTITY_SINGULAR } from "../types";
+import { RELATIONSHIP_TYPES } from "../types/fields";
+import { entityColor } from "../theme/entityColors";
+import { findShortestPaths, type EntityPath, type PathSearchResult } from "../utils/pathFinding";
 
-const RELATIONSHIP_TYPES = [
-  "ALLIED_WITH", "ENEMY_OF", "MEMBER_OF", "LEADER_OF", "LOCATED_AT",
-  "LOCATED_ON", "PARENT_OF", "CHILD_OF", "TRADES_WITH", "CONTROLS",
-  "CREATED_BY", "OWNS", "SERVES", "WORSHIPS", "MENTORS", "PROTECTS",
-  "THREATENS", "INHABITS", "CUSTOM",
-];
+// ─── Graph state ────────────────────────────────────────────────
+interface GraphState {
+  /** Bumped on every new search so late responses from the old one are dropped */
+  searchId: number;
+  nodes: Record<string, GraphNode>;
+  edges: Record<string, Relationship>;
+  rootError: string | null;
+}
+
+type GraphAction =
+  | { type: "reset"; searchId: number; root: GraphNode }
+  | { type: "loading"; searchId: number; id: string }
+  | { type: "expanded"; searchId: number; id: string; relationships: Relationship[] }
+  | { type: "failed"; searchId: number; id: string; error: string }
+  | { type: "labels"; searchId: number; labels: Record<string, string> };
+
+const EMPTY_GRAPH: GraphState = { searchId: 0, nodes: {}, edges: {}, rootError: null };
+
+function graphReducer(state: GraphState, action: GraphAction): GraphState {
+  if (action.type === "reset") {
+    return { searchId: action.searchId, nodes: { [action.root.id]: action.root }, edges: {}, rootError: null };
+  }
+  if (action.searchId !== state.searchId) return state;
+
+  switch (action.type) {
+    case "loading":
+      return { ...state, nodes: { ...state.nodes, [action.id]: { ...state.nodes[action.id], loading: true } } };
+    case "failed": {
+      const node = state.nodes[action.id];
+      return {
+        ...state,
+        nodes: { ...state.nodes, [action.id]: { ...node, loading: false } },
+        rootError: node?.root ? action.error : state.rootError,
+      };
+    }
+    case "expanded": {
+      const nodes = { ...state.nodes };
+      const edges = { ...state.edges };
+      const self = nodes[action.id];
+      nodes[action.id] = { ...self, expanded: true, loading: false };
+      for (const rel of action.relationships) {
+        edges[rel.id] = rel;
+        for (const [id, type] of [
+          [rel.sourceId, rel.sourceType],
+          [rel.targetId, rel.targetType],
+        ]) {
+          if (!nodes[id]) {
+            nodes[id] = { id, entityType: type, label: id, expanded: false, parentId: action.id };
+          } else if (!nodes[id].entityType) {
+            nodes[id] = { ...nodes[id], entityType: type };
+          }
+        }
+      }
+      return { ...state, nodes, edges };
+    }
+    case "labels": {
+      const nodes = { ...state.nodes };
+      for (const [id, label] of Object.entries(action.labels)) {
+        if (nodes[id]) nodes[id] = { ...nodes[id], label };
+      }
+      return { ...state, nodes };
+    }
+  }
+}
+
+/** Display name for an entity, through the shared query cache */
+async function resolveLabel(worldId: string, entityType: string | undefined, id: string): Promise<string | null> {
+  const singular = ENTITY_SINGULAR[entityType as EntityType];
+  if (!singular) return null;
+  try {
+    const res = await fetchQuery<{ name?: string; title?: string }>(`get_${singular}`, { worldId, id });
+    return res.data?.name ?? res.data?.title ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Names for many entities at once (id → type in, id → name out; unresolved ones are left out) */
+async function resolveLabels(worldId: string, entities: Map<string, string>): Promise<Record<string, string>> {
+  const resolved = await Promise.all(
+    [...entities].map(async ([id, type]) => [id, await resolveLabel(worldId, type, id)] as const)
+  );
+  return Object.fromEntries(resolved.filter(([, label]) => label)) as Record<string, string>;
+}
 
 export default function RelationshipsPage() {
   const { worldId } = useParams<{ worldId: string }>();
   const navigate = useNavigate();
 
-  const [entityId, setEntityId] = useState("");
-  const [entityTypeFilter, setEntityTypeFilter] = useState("");
+  const [mode, setMode] = useState<"explore" | "path">("explore");
+  const [target, setTarget] = useState<EntityRef | null>(null);
   const [relType, setRelType] = useState("");
-  const [searched, setSearched] = useState(false);
+  const [view, setView] = useState<"graph" | "list">("graph");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
-  const shouldFetch = searched && !!entityId;
+  const [graph, dispatch] = useReducer(graphReducer, EMPTY_GRAPH);
+  const searchIdRef = useRef(0);
 
-  const args: Record<string, unknown> = {
-    worldId: worldId!,
-    entityId,
-    limit: 100,
-  };
-  if (entityTypeFilter) args.entityType = entityTypeFilter;
-  if (relType) args.relationshipType = relType;
+  const expand = async (node: GraphNode) => {
+    if (node.expanded || node.loading) return;
+    const searchId = searchIdRef.current;
+    dispatch({ type: "loading", searchId, id: node.id });
+    try {
+      const res = await fetchQuery("find_entity_relationships", {
+        worldId: worldId!,
+        entityId: node.id,
+        limit: 100,
+        ...(node.entityType ? { entityType: node.entityType as EntityType } : {}),
+        ...(relType ? { relationshipType: relType } : {}),
+      });
+      if (!res.success) throw new Error(res.error ?? "Unknown error");
+      const relationships = res.data ?? [];
+      dispatch({ type: "expanded", searchId, id: node.id, relationships });
 
-  const { data, loading, error, refetch } = useToolQuery<Relationship[]>(
-    "find_entity_relationships",
-    shouldFetch ? args : { worldId: worldId!, entityId: "__none__" },
-    [worldId, entityId, entityTypeFilter, relType, searched]
-  );
+      // Replace ID labels with entity names as they resolve
+      const neighbours = new Map<string, string>();
+      for (const rel of relationships) {
+        neighbours.set(rel.sourceId, rel.sourceType);
+        neighbours.set(rel.targetId, rel.targetType);
+      }
+      const labels = await resolveLabels(worldId!, neighbours);
+      if (Object.keys(labels).length > 0) dispatch({ type: "labels", searchId, labels });
+    } catch (err: unknown) {
+      dispatch({
+        type: "failed",
+        searchId,
+        id: node.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
 
   const handleSearch = () => {
-    setSearched(true);
+    if (!target) return;
+    const id = target.id;
+    const searchId = ++searchIdRef.current;
+    const root: GraphNode = {
+      id,
+      entityType: target.type || undefined,
+      label: id,
+      expanded: false,
+      root: true,
+    };
+    dispatch({ type: "reset", searchId, root });
+    setSelectedId(id);
+    expand(root);
+  };
+
+  const nodes = Object.values(graph.nodes);
+  const data = Object.values(graph.edges);
+  const root = nodes.find((n) => n.root);
+  const selected = selectedId ? graph.nodes[selectedId] : undefined;
+  const labelOf = (id: string) => graph.nodes[id]?.label ?? id;
+
+  const handleNodeClick = (node: GraphNode) => {
+    setSelectedId(node.id);
+    expand(node);
   };
 
   return (
@@ -63,53 +196,330 @@ export default function RelationshipsPage() {
       <Box display="flex" alignItems="center" gap={1} mb={3}>
         <HubIcon color="secondary" sx={{ fontSize: 32 }} />
         <Typography variant="h4">Relationship Graph</Typography>
+        <Box flex={1} />
+        <ToggleButtonGroup size="small" exclusive value={mode} onChange={(_, v) => v && setMode(v)}>
+          <ToggleButton value="explore">
+            <HubIcon fontSize="small" sx={{ mr: 0.5 }} /> Explore
+          </ToggleButton>
+          <ToggleButton value="path">
+            <RouteIcon fontSize="small" sx={{ mr: 0.5 }} /> Find path
+          </ToggleButton>
+        </ToggleButtonGroup>
       </Box>
 
-      {/* Search controls */}
+      {mode === "path" && <PathFinder worldId={worldId!} />}
+
+      {mode === "explore" && (
+        <>
+          {/* Search controls */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="subtitle2" mb={2}>
+              Find relationships for an entity
+            </Typography>
+            <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap alignItems="flex-end">
+              <Box sx={{ flex: 1, minWidth: 280, maxWidth: 420 }}>
+                <EntityPicker label="Entity" value={target} onChange={setTarget} fullWidth />
+              </Box>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Relationship Type</InputLabel>
+                <Select
+                  value={relType}
+                  label="Relationship Type"
+                  onChange={(e) => setRelType(e.target.value)}
+                >
+                  <MenuItem value="">Any</MenuItem>
+                  {RELATIONSHIP_TYPES.map((t) => (
+                    <MenuItem key={t} value={t}>
+                      {t.replace(/_/g, " ")}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button
+                variant="contained"
+                startIcon={<SearchIcon />}
+                onClick={handleSearch}
+                disabled={!target}
+              >
+                Search
+              </Button>
+            </Stack>
+          </Paper>
+
+          {/* Results */}
+          {root && (
+            <LoadingState loading={!root.expanded && !graph.rootError} error={graph.rootError} onRetry={handleSearch}>
+              {data.length === 0 && (
+                <Typography color="text.secondary" textAlign="center" py={6}>
+                  No relationships found for this entity.
+                </Typography>
+              )}
+
+              {data.length > 0 && (
+                <Stack direction="row" alignItems="center" spacing={2} mb={2} flexWrap="wrap" useFlexGap>
+                  <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, v) => v && setView(v)}>
+                    <ToggleButton value="graph">Graph</ToggleButton>
+                    <ToggleButton value="list">List</ToggleButton>
+                  </ToggleButtonGroup>
+                  <Typography variant="body2" color="text.secondary">
+                    {nodes.length} entities · {data.length} relationships
+                  </Typography>
+                  {selected && (
+                    <>
+                      <Box flex={1} />
+                      <Chip label={selected.entityType ?? "unknown"} size="small" variant="outlined" />
+                      <Typography variant="subtitle2">{selected.label}</Typography>
+                      {selected.entityType && (
+                        <Button
+                          size="small"
+                          endIcon={<OpenInNewIcon fontSize="small" />}
+                          onClick={() => navigate(`/worlds/${worldId}/${selected.entityType}/${selected.id}`)}
+                        >
+                          Open
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </Stack>
+              )}
+
+              {data.length > 0 && view === "graph" && (
+                <RelationshipGraph nodes={nodes} edges={data} selectedId={selectedId} onNodeClick={handleNodeClick} />
+              )}
+
+              {view === "list" && (
+                <Grid container spacing={2}>
+                  {data.map((rel) => (
+                    <Grid size={{ xs: 12, sm: 6, md: 4 }} key={rel.id}>
+                      <Paper sx={{ p: 2, height: "100%" }}>
+                        {/* Relationship type badge */}
+                        <Chip
+                          label={(rel.type || "CUSTOM").replace(/_/g, " ")}
+                          size="small"
+                          color="primary"
+                          sx={{ mb: 1.5, fontWeight: 600 }}
+                        />
+
+                        {/* Source → Target */}
+                        <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                          <Chip
+                            label={`${rel.sourceType}/${labelOf(rel.sourceId)}`}
+                            size="small"
+                            variant="outlined"
+                            clickable
+                            onClick={() =>
+                              navigate(
+                                `/worlds/${worldId}/${rel.sourceType}/${rel.sourceId}`
+                              )
+                            }
+                          />
+                          <Typography variant="body2" color="text.secondary">
+                            {rel.bidirectional ? "⟷" : "→"}
+                          </Typography>
+                          <Chip
+                            label={`${rel.targetType}/${labelOf(rel.targetId)}`}
+                            size="small"
+                            variant="outlined"
+                            clickable
+                            onClick={() =>
+                              navigate(
+                                `/worlds/${worldId}/${rel.targetType}/${rel.targetId}`
+                              )
+                            }
+                          />
+                        </Box>
+
+                        {/* Strength */}
+                        {rel.strength !== undefined && (
+                          <Box mt={1}>
+                            <Typography variant="caption" color="text.secondary">
+                              Strength: {rel.strength}/10
+                            </Typography>
+                            <Box
+                              sx={(t) => ({
+                                height: 4,
+                                borderRadius: 2,
+                                bgcolor: alpha(t.palette.divider, 0.3),
+                                mt: 0.5,
+                              })}
+                            >
+                              <Box
+                                sx={{
+                                  height: "100%",
+                                  width: `${((rel.strength ?? 0) / 10) * 100}%`,
+                                  borderRadius: 2,
+                                  bgcolor: "primary.main",
+                                }}
+                              />
+                            </Box>
+                          </Box>
+                        )}
+
+                        {rel.description && (
+                          <Typography variant="body2" color="text.secondary" mt={1}>
+                            {rel.description}
+                          </Typography>
+                        )}
+
+                        {rel.status && (
+                          <Chip
+                            label={rel.status}
+                            size="small"
+                            sx={{ mt: 1, textTransform: "capitalize" }}
+                            color={rel.status === "active" ? "success" : "default"}
+                          />
+                        )}
+                      </Paper>
+                    </Grid>
+                  ))}
+                </Grid>
+              )}
+            </LoadingState>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
+
+// ─── Path finding ───────────────────────────────────────────────
+const HOP_OPTIONS = [1, 2, 3, 4, 5, 6];
+
+type PathSearch =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "done"; result: PathSearchResult; labels: Record<string, string> };
+
+/** Sum of strengths along a path (missing strengths count as the middle of the scale) */
+function pathStrength(path: EntityPath): number {
+  return path.edges.reduce((sum, e) => sum + (e.strength ?? 5), 0);
+}
+
+/** Arrow for `rel` as walked from `fromId` */
+function stepArrow(rel: Relationship, fromId: string): string {
+  if (rel.bidirectional) return "⟷";
+  return rel.sourceId === fromId ? "→" : "←";
+}
+
+/**
+ * Shortest chains of relationships between two entities, found by a
+ * bidirectional breadth-first search up to a hop limit.
+ */
+function PathFinder({ worldId }: { worldId: string }) {
+  const navigate = useNavigate();
+
+  const [from, setFrom] = useState<EntityRef | null>(null);
+  const [to, setTo] = useState<EntityRef | null>(null);
+  const [maxHops, setMaxHops] = useState(4);
+  const [directed, setDirected] = useState(false);
+  const [relType, setRelType] = useState("");
+  const [search, setSearch] = useState<PathSearch>({ status: "idle" });
+  const [selectedPath, setSelectedPath] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const searchIdRef = useRef(0);
+
+  const handleSearch = async () => {
+    if (!from || !to) return;
+    const searchId = ++searchIdRef.current;
+    setSearch({ status: "loading" });
+    setSelectedPath(null);
+    setSelectedId(null);
+    try {
+      const result = await findShortestPaths(from, to, { maxHops, directed }, async (node, direction) => {
+        const res = await fetchQuery("find_entity_relationships", {
+          worldId,
+          entityId: node.id,
+          direction,
+          limit: 100,
+          ...(node.type ? { entityType: node.type as EntityType } : {}),
+          ...(relType ? { relationshipType: relType } : {}),
+        });
+        if (!res.success) throw new Error(res.error ?? "Unknown error");
+        return res.data ?? [];
+      });
+      result.paths.sort((a, b) => pathStrength(b) - pathStrength(a));
+
+      const entities = new Map<string, string>();
+      for (const path of result.paths) for (const n of path.nodes) entities.set(n.id, n.type);
+      const labels = await resolveLabels(worldId, entities);
+      if (searchId === searchIdRef.current) setSearch({ status: "done", result, labels });
+    } catch (err: unknown) {
+      if (searchId === searchIdRef.current) {
+        setSearch({ status: "error", error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  };
+
+  const result = search.status === "done" ? search.result : null;
+  const labels = search.status === "done" ? search.labels : {};
+  const labelOf = (id: string) => labels[id] ?? id;
+
+  // Union of all paths for the graph; the endpoints are drawn as roots
+  const graphNodes = new Map<string, GraphNode>();
+  const graphEdges = new Map<string, Relationship>();
+  for (const path of result?.paths ?? []) {
+    const ends = [path.nodes[0].id, path.nodes[path.nodes.length - 1].id];
+    for (const n of path.nodes) {
+      graphNodes.set(n.id, {
+        id: n.id,
+        entityType: n.type || undefined,
+        label: labelOf(n.id),
+        expanded: true,
+        root: ends.includes(n.id),
+      });
+    }
+    for (const e of path.edges) graphEdges.set(e.id, e);
+  }
+  const nodes = [...graphNodes.values()];
+  const edges = [...graphEdges.values()];
+
+  const shownPaths =
+    selectedPath !== null && result?.paths[selectedPath] ? [result.paths[selectedPath]] : result?.paths ?? [];
+  const highlight = {
+    nodeIds: new Set(shownPaths.flatMap((p) => p.nodes.map((n) => n.id))),
+    edgeIds: new Set(shownPaths.flatMap((p) => p.edges.map((e) => e.id))),
+  };
+
+  const selected = selectedId ? graphNodes.get(selectedId) : undefined;
+
+  return (
+    <>
       <Paper sx={{ p: 3, mb: 3 }}>
         <Typography variant="subtitle2" mb={2}>
-          Find relationships for an entity
+          Find how two entities are connected
         </Typography>
         <Stack direction="row" spacing={2} flexWrap="wrap" useFlexGap alignItems="flex-end">
-          <TextField
-            label="Entity ID"
-            size="small"
-            value={entityId}
-            onChange={(e) => {
-              setEntityId(e.target.value);
-              setSearched(false);
-            }}
-            sx={{ minWidth: 250 }}
-            placeholder="e.g. commander-kira-voss"
-          />
-          <FormControl size="small" sx={{ minWidth: 150 }}>
-            <InputLabel>Entity Type</InputLabel>
-            <Select
-              value={entityTypeFilter}
-              label="Entity Type"
-              onChange={(e) => {
-                setEntityTypeFilter(e.target.value);
-                setSearched(false);
-              }}
-            >
-              <MenuItem value="">Any</MenuItem>
-              {ENTITY_TYPES.map((t) => (
-                <MenuItem key={t} value={t}>
-                  {ENTITY_LABELS[t]}
+          <Box sx={{ flex: 1, minWidth: 240, maxWidth: 340 }}>
+            <EntityPicker label="From" value={from} onChange={setFrom} worldId={worldId} fullWidth />
+          </Box>
+          <Box sx={{ flex: 1, minWidth: 240, maxWidth: 340 }}>
+            <EntityPicker label="To" value={to} onChange={setTo} worldId={worldId} fullWidth />
+          </Box>
+          <FormControl size="small" sx={{ minWidth: 110 }}>
+            <InputLabel>Max hops</InputLabel>
+            <Select value={maxHops} label="Max hops" onChange={(e) => setMaxHops(Number(e.target.value))}>
+              {HOP_OPTIONS.map((n) => (
+                <MenuItem key={n} value={n}>
+                  {n}
                 </MenuItem>
               ))}
             </Select>
           </FormControl>
-          <FormControl size="small" sx={{ minWidth: 180 }}>
-            <InputLabel>Relationship Type</InputLabel>
+          <FormControl size="small" sx={{ minWidth: 170 }}>
+            <InputLabel>Direction</InputLabel>
             <Select
-              value={relType}
-              label="Relationship Type"
-              onChange={(e) => {
-                setRelType(e.target.value);
-                setSearched(false);
-              }}
+              value={directed ? "directed" : "any"}
+              label="Direction"
+              onChange={(e) => setDirected(e.target.value === "directed")}
             >
+              <MenuItem value="any">Any direction</MenuItem>
+              <MenuItem value="directed">From → To only</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Relationship Type</InputLabel>
+            <Select value={relType} label="Relationship Type" onChange={(e) => setRelType(e.target.value)}>
               <MenuItem value="">Any</MenuItem>
               {RELATIONSHIP_TYPES.map((t) => (
                 <MenuItem key={t} value={t}>
@@ -120,111 +530,122 @@ export default function RelationshipsPage() {
           </FormControl>
           <Button
             variant="contained"
-            startIcon={<SearchIcon />}
+            startIcon={<RouteIcon />}
             onClick={handleSearch}
-            disabled={!entityId}
+            disabled={!from || !to || search.status === "loading"}
           >
-            Search
+            Find paths
           </Button>
         </Stack>
       </Paper>
 
-      {/* Results */}
-      {shouldFetch && (
-        <LoadingState loading={loading} error={error} onRetry={refetch}>
-          {data && data.length === 0 && (
+      {search.status !== "idle" && (
+        <LoadingState
+          loading={search.status === "loading"}
+          error={search.status === "error" ? search.error : null}
+          onRetry={handleSearch}
+        >
+          {result && result.paths.length === 0 && (
             <Typography color="text.secondary" textAlign="center" py={6}>
-              No relationships found for this entity.
+              {result.truncated
+                ? `Gave up after exploring ${result.explored} entities without finding a path.`
+                : `No path within ${maxHops} ${maxHops === 1 ? "hop" : "hops"}.`}
             </Typography>
           )}
 
-          <Grid container spacing={2}>
-            {data?.map((rel) => (
-              <Grid size={{ xs: 12, sm: 6, md: 4 }} key={rel.id}>
-                <Paper sx={{ p: 2, height: "100%" }}>
-                  {/* Relationship type badge */}
-                  <Chip
-                    label={(rel.type || "CUSTOM").replace(/_/g, " ")}
-                    size="small"
-                    color="primary"
-                    sx={{ mb: 1.5, fontWeight: 600 }}
-                  />
-
-                  {/* Source → Target */}
-                  <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
-                    <Chip
-                      label={`${rel.sourceType}/${rel.sourceId}`}
-                      size="small"
-                      variant="outlined"
-                      clickable
-                      onClick={() =>
-                        navigate(
-                          `/worlds/${worldId}/${rel.sourceType}/${rel.sourceId}`
-                        )
-                      }
-                    />
-                    <Typography variant="body2" color="text.secondary">
-                      {rel.bidirectional ? "⟷" : "→"}
-                    </Typography>
-                    <Chip
-                      label={`${rel.targetType}/${rel.targetId}`}
-                      size="small"
-                      variant="outlined"
-                      clickable
-                      onClick={() =>
-                        navigate(
-                          `/worlds/${worldId}/${rel.targetType}/${rel.targetId}`
-                        )
-                      }
-                    />
-                  </Box>
-
-                  {/* Strength */}
-                  {rel.strength !== undefined && (
-                    <Box mt={1}>
-                      <Typography variant="caption" color="text.secondary">
-                        Strength: {rel.strength}/10
-                      </Typography>
-                      <Box
-                        sx={(t) => ({
-                          height: 4,
-                          borderRadius: 2,
-                          bgcolor: alpha(t.palette.divider, 0.3),
-                          mt: 0.5,
-                        })}
+          {result && result.paths.length > 0 && (
+            <>
+              <Stack direction="row" alignItems="center" spacing={2} mb={2} flexWrap="wrap" useFlexGap>
+                <Typography variant="body2" color="text.secondary">
+                  {result.paths.length} shortest {result.paths.length === 1 ? "path" : "paths"} · {result.hops}{" "}
+                  {result.hops === 1 ? "hop" : "hops"} · {result.explored} entities explored
+                </Typography>
+                {selectedPath !== null && (
+                  <Button size="small" onClick={() => setSelectedPath(null)}>
+                    Show all
+                  </Button>
+                )}
+                {selected && (
+                  <>
+                    <Box flex={1} />
+                    <Chip label={selected.entityType ?? "unknown"} size="small" variant="outlined" />
+                    <Typography variant="subtitle2">{selected.label}</Typography>
+                    {selected.entityType && (
+                      <Button
+                        size="small"
+                        endIcon={<OpenInNewIcon fontSize="small" />}
+                        onClick={() => navigate(`/worlds/${worldId}/${selected.entityType}/${selected.id}`)}
                       >
-                        <Box
-                          sx={{
-                            height: "100%",
-                            width: `${((rel.strength ?? 0) / 10) * 100}%`,
-                            borderRadius: 2,
-                            bgcolor: "primary.main",
-                          }}
-                        />
-                      </Box>
-                    </Box>
-                  )}
+                        Open
+                      </Button>
+                    )}
+                  </>
+                )}
+              </Stack>
 
-                  {rel.description && (
-                    <Typography variant="body2" color="text.secondary" mt={1}>
-                      {rel.description}
-                    </Typography>
-                  )}
+              {result.truncated && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  The search hit its limit; some paths of this length may be missing.
+                </Alert>
+              )}
 
-                  {rel.status && (
-                    <Chip
-                      label={rel.status}
-                      size="small"
-                      sx={{ mt: 1, textTransform: "capitalize" }}
-                      color={rel.status === "active" ? "success" : "default"}
-                    />
-                  )}
-                </Paper>
-              </Grid>
-            ))}
-          </Grid>
+              <RelationshipGraph
+                nodes={nodes}
+                edges={edges}
+                selectedId={selectedId}
+                onNodeClick={(n) => setSelectedId(n.id)}
+                highlight={highlight}
+                height={480}
+              />
+
+              {/* Path list, strongest first */}
+              <Stack spacing={1.5} mt={3}>
+                {result.paths.map((path, i) => (
+                  <Paper
+                    key={path.edges.map((e) => e.id).join("|")}
+                    variant="outlined"
+                    onClick={() => setSelectedPath(selectedPath === i ? null : i)}
+                    sx={{
+                      p: 1.5,
+                      cursor: "pointer",
+                      borderColor: selectedPath === i ? "secondary.main" : undefined,
+                    }}
+                  >
+                    <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                      {path.nodes.map((n, j) => (
+                        <Box key={`${n.id}-${j}`} display="flex" alignItems="center" gap={1}>
+                          {j > 0 && (
+                            <Box textAlign="center" sx={{ px: 0.5 }}>
+                              <Typography variant="caption" color="text.secondary" display="block" lineHeight={1.2}>
+                                {path.edges[j - 1].type.replace(/_/g, " ")}
+                                {path.edges[j - 1].strength !== undefined && ` · ${path.edges[j - 1].strength}/10`}
+                              </Typography>
+                              <Typography variant="body2" color="text.secondary" lineHeight={1}>
+                                {stepArrow(path.edges[j - 1], path.nodes[j - 1].id)}
+                              </Typography>
+                            </Box>
+                          )}
+                          <Chip
+                            icon={<EntityIcon type={n.type} sx={{ "&&": { color: entityColor(n.type) } }} />}
+                            label={labelOf(n.id)}
+                            size="small"
+                            variant="outlined"
+                            clickable
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (n.type) navigate(`/worlds/${worldId}/${n.type}/${n.id}`);
+                            }}
+                          />
+                        </Box>
+                      ))}
+                    </Box>
+                  </Paper>
+                ))}
+              </Stack>
+            </>
+          )}
         </LoadingState>
       )}
-    </Box>
+    </>
   );
 }
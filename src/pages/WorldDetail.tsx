@@ -12,60 +12,22 @@ import {
   alpha,
   Paper,
 } from "@mui/material";
-import PersonIcon from "@mui/icons-material/Person";
-import GroupsIcon from "@mui/icons-material/Groups";
-import PublicIcon from "@mui/icons-material/Public";
-import PlaceIcon from "@mui/icons-material/Place";
-import MemoryIcon from "@mui/icons-material/Memory";
-import DirectionsCarIcon from "@mui/icons-material/DirectionsCar";
-import PetsIcon from "@mui/icons-material/Pets";
-import Inventory2Icon from "@mui/icons-material/Inventory2";
-import AssignmentTurnedInIcon from "@mui/icons-material/AssignmentTurnedIn";
-import EventIcon from "@mui/icons-material/Event";
-import MenuBookIcon from "@mui/icons-material/MenuBook";
-import AccountBalanceIcon from "@mui/icons-material/AccountBalance";
 import HubIcon from "@mui/icons-material/Hub";
 import TimelineIcon from "@mui/icons-material/Timeline";
-import AutoAwesomeIcon from "@mui/icons-material/AutoAwesome";
-import LocalFireDepartmentIcon from "@mui/icons-material/LocalFireDepartment";
-import RadarIcon from "@mui/icons-material/Radar";
-import SelfImprovementIcon from "@mui/icons-material/SelfImprovement";
-import StarsIcon from "@mui/icons-material/Stars";
 import MapIcon from "@mui/icons-material/Map";
+import ManageSearchIcon from "@mui/icons-material/ManageSearch";
 import { useToolQuery } from "../hooks/useWorldbuilder";
 import LoadingState from "../components/LoadingState";
-import type { EntityType, WorldSummary } from "../types";
+import EntityIcon from "../components/EntityIcon";
 import { ENTITY_TYPES, ENTITY_LABELS } from "../types";
 
-const ICONS: Record<EntityType, React.ReactNode> = {
-  characters: <PersonIcon />,
-  factions: <GroupsIcon />,
-  planets: <PublicIcon />,
-  locations: <PlaceIcon />,
-  technologies: <MemoryIcon />,
-  vehicles: <DirectionsCarIcon />,
-  species: <PetsIcon />,
-  items: <Inventory2Icon />,
-  quests: <AssignmentTurnedInIcon />,
-  events: <EventIcon />,
-  lore: <MenuBookIcon />,
-  economies: <AccountBalanceIcon />,
-  relationships: <HubIcon />,
-  abilities: <AutoAwesomeIcon />,
-  conflicts: <LocalFireDepartmentIcon />,
-  "galactic-regions": <RadarIcon />,
-  religions: <SelfImprovementIcon />,
-  "star-systems": <StarsIcon />,
-};
-
 export default function WorldDetail() {
   const { worldId } = useParams<{ worldId: string }>();
   const navigate = useNavigate();
 
-  const { data: summary, loading, error, refetch } = useToolQuery<WorldSummary>(
+  const { data: summary, loading, error, refetch } = useToolQuery(
     "get_world_summary",
-    { worldId: worldId! },
-    [worldId]
+    { worldId: worldId! }
   );
 
   const world = summary?.world;
@@ -158,7 +120,9 @@ export default function WorldDetail() {
                         sx={{ height: "100%" }}
                       >
                         <CardContent sx={{ textAlign: "center", py: 3 }}>
-                          <Box sx={{ color: "primary.main", mb: 1 }}>{ICONS[et]}</Box>
+                          <Box sx={{ color: "primary.main", mb: 1 }}>
+                            <EntityIcon type={et} />
+                          </Box>
                           <Typography variant="subtitle2" fontWeight={600}>
                             {ENTITY_LABELS[et]}
                           </Typography>
@@ -173,9 +137,9 @@ export default function WorldDetail() {
               })}
             </Grid>
 
-            {/* Timeline / Graph / Galaxy shortcuts */}
+            {/* Timeline / Graph / Galaxy / Query shortcuts */}
             <Grid container spacing={2} mb={4}>
-              <Grid size={{ xs: 12, sm: 4 }}>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
                 <Card>
                   <CardActionArea onClick={() => navigate(`/worlds/${worldId}/timeline`)}>
                     <CardContent sx={{ display: "flex", alignItems: "center", gap: 2 }}>
@@ -192,7 +156,7 @@ export default function WorldDetail() {
                   </CardActionArea>
                 </Card>
               </Grid>
-              <Grid size={{ xs: 12, sm: 4 }}>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
                 <Card>
                   <CardActionArea onClick={() => navigate(`/worlds/${worldId}/graph`)}>
                     <CardContent sx={{ display: "flex", alignItems: "center", gap: 2 }}>
@@ -209,7 +173,7 @@ export default function WorldDetail() {
                   </CardActionArea>
                 </Card>
               </Grid>
-              <Grid size={{ xs: 12, sm: 4 }}>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
                 <Card>
                   <CardActionArea onClick={() => navigate(`/worlds/${worldId}/galaxy`)}>
                     <CardContent sx={{ display: "flex", alignItems: "center", gap: 2 }}>
@@ -226,6 +190,23 @@ export default function WorldDetail() {
                   </CardActionArea>
                 </Card>
               </Grid>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                <Card>
+                  <CardActionArea onClick={() => navigate(`/worlds/${worldId}/query`)}>
+                    <CardContent sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                      <ManageSearchIcon color="secondary" sx={{ fontSize: 36 }} />
+                      <Box>
+                        <Typography variant="subtitle1" fontWeight={600}>
+                          Advanced Query
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          Build and save custom queries
+                        </Typography>
+                      </Box>
+                    </CardContent>
+                  </CardActionArea>
+                </Card>
+              </Grid>
             </Grid>
 
             {/* Notable entities from summary */}
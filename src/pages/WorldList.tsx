@@ -12,10 +12,9 @@ import {
 import { useNavigate } from "react-router-dom";
 import { useToolQuery } from "../hooks/useWorldbuilder";
 import LoadingState from "../components/LoadingState";
-import type { World } from "../types";
 
 export default function WorldList() {
-  const { data, loading, error, refetch } = useToolQuery<World[]>("list_worlds", { limit: 100 });
+  const { data, loading, error, refetch } = useToolQuery("list_worlds", { limit: 100 });
   const navigate = useNavigate();
 
   return (
@@ -0,0 +1,29 @@
+import type { EntityType } from "../types";
+
+/** Distinct hue per collection, used wherever entities are drawn as marks */
+export const ENTITY_COLORS: Record<EntityType, string> = {
+  characters: "#7c4dff",
+  factions: "#ff5252",
+  planets: "#00e5ff",
+  locations: "#26a69a",
+  technologies: "#40c4ff",
+  vehicles: "#90a4ae",
+  species: "#66bb6a",
+  items: "#ffd740",
+  quests: "#ffab40",
+  events: "#ec407a",
+  lore: "#b39ddb",
+  economies: "#c6ff00",
+  relationships: "#78909c",
+  abilities: "#e040fb",
+  conflicts: "#ff6e40",
+  "galactic-regions": "#5c6bc0",
+  religions: "#ffe082",
+  "star-systems": "#fff176",
+};
+
+const FALLBACK = "#9e9e9e";
+
+export function entityColor(entityType: string | undefined): string {
+  return ENTITY_COLORS[entityType as EntityType] ?? FALLBACK;
+}
@@ -0,0 +1,54 @@
+import type { StrategicValue, TradeRisk } from "../types";
+
+/** Well-separated hues for faction territory */
+const FACTION_PALETTE = [
+  "#ef5350",
+  "#42a5f5",
+  "#66bb6a",
+  "#ffca28",
+  "#ab47bc",
+  "#26c6da",
+  "#ff7043",
+  "#d4e157",
+  "#ec407a",
+  "#5c6bc0",
+  "#8d6e63",
+  "#26a69a",
+];
+
+export const UNCLAIMED_COLOR = "#607d8b";
+export const CONTESTED_COLOR = "#ff1744";
+
+/**
+ * Palette colors for a world's factions. IDs are sorted first so each
+ * faction keeps its color between visits, and neighbours in the list
+ * never share one until the palette runs out.
+ */
+export function assignFactionColors(factionIds: string[]): Record<string, string> {
+  const sorted = [...new Set(factionIds)].sort();
+  return Object.fromEntries(sorted.map((id, i) => [id, FACTION_PALETTE[i % FACTION_PALETTE.length]]));
+}
+
+/** Cold-to-hot ramp for the strategic value heat mode */
+export const STRATEGIC_VALUE_COLORS: Record<StrategicValue, string> = {
+  negligible: "#455a64",
+  low: "#1e88e5",
+  moderate: "#fdd835",
+  high: "#fb8c00",
+  critical: "#e53935",
+};
+
+export const STRATEGIC_VALUES = Object.keys(STRATEGIC_VALUE_COLORS) as StrategicValue[];
+
+export function strategicColor(value: string | undefined): string {
+  return STRATEGIC_VALUE_COLORS[value as StrategicValue] ?? UNCLAIMED_COLOR;
+}
+
+/** Trade route flows, from safe lanes to pirate-infested ones */
+export const TRADE_RISK_COLORS: Record<TradeRisk, string> = {
+  safe: "#66bb6a",
+  low: "#9ccc65",
+  moderate: "#ffca28",
+  high: "#ff7043",
+  extreme: "#e53935",
+};
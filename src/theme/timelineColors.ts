@@ -0,0 +1,35 @@
+import type { Conflict } from "../types";
+
+export function significanceColor(sig?: string): string {
+  switch (sig) {
+    case "world-changing":
+      return "#ff1744";
+    case "major":
+      return "#ff9100";
+    case "moderate":
+      return "#00e5ff";
+    case "minor":
+    default:
+      return "#90a4ae";
+  }
+}
+
+/** Background bands, muted so event markers stay readable over them */
+const ERA_PALETTE = ["#5c6bc0", "#26a69a", "#8d6e63", "#ab47bc", "#78909c", "#9ccc65", "#ffa726", "#ec407a"];
+
+export function eraColor(index: number): string {
+  return ERA_PALETTE[index % ERA_PALETTE.length];
+}
+
+export const CONFLICT_STATUS_COLORS: Record<NonNullable<Conflict["status"]>, string> = {
+  brewing: "#ffca28",
+  active: "#ef5350",
+  escalating: "#ff1744",
+  stalemate: "#ab47bc",
+  ceasefire: "#42a5f5",
+  resolved: "#78909c",
+};
+
+export function conflictStatusColor(status: Conflict["status"]): string {
+  return status ? CONFLICT_STATUS_COLORS[status] : CONFLICT_STATUS_COLORS.active;
+}
@@ -0,0 +1,408 @@
+import type { EntityType } from "./index";
+
+// ─── Editable field specs ───────────────────────────────────────
+// Mirrors the entity schemas in server-doc.md. Used to build the
+// create / edit forms; anything not listed here is edited as raw JSON.
+
+export type FieldKind =
+  | "string" // single-line text
+  | "text" // multi-line text
+  | "number"
+  | "boolean"
+  | "enum" // one of `options`
+  | "string[]" // comma-separated list
+  | "json"; // objects / arrays of objects
+
+export interface FieldSpec {
+  key: string;
+  kind: FieldKind;
+  required?: boolean;
+  /** Allowed values for "enum", suggested values for "string" */
+  options?: readonly string[];
+  /** Entity collection referenced by an *Id / *Ids field */
+  ref?: EntityType;
+}
+
+export const RELATIONSHIP_TYPES = [
+  "ALLIED_WITH", "ENEMY_OF", "MEMBER_OF", "LEADER_OF", "LOCATED_AT",
+  "LOCATED_ON", "PARENT_OF", "CHILD_OF", "TRADES_WITH", "CONTROLS",
+  "CREATED_BY", "OWNS", "SERVES", "WORSHIPS", "MENTORS", "PROTECTS",
+  "THREATENS", "INHABITS", "CUSTOM",
+] as const;
+
+const STRATEGIC_VALUES = ["negligible", "low", "moderate", "high", "critical"] as const;
+
+const name: FieldSpec = { key: "name", kind: "string", required: true };
+const description: FieldSpec = { key: "description", kind: "text" };
+const history: FieldSpec = { key: "history", kind: "text" };
+const tags: FieldSpec = { key: "tags", kind: "string[]" };
+
+export const ENTITY_FIELDS: Record<EntityType, FieldSpec[]> = {
+  characters: [
+    name,
+    { key: "title", kind: "string" },
+    description,
+    { key: "speciesId", kind: "string", ref: "species" },
+    { key: "factionId", kind: "string", ref: "factions" },
+    { key: "locationId", kind: "string", ref: "locations" },
+    { key: "planetId", kind: "string", ref: "planets" },
+    { key: "role", kind: "string", options: ["npc", "leader", "merchant", "villain"] },
+    { key: "backstory", kind: "text" },
+    { key: "personality", kind: "text" },
+    { key: "traits", kind: "string[]" },
+    { key: "skills", kind: "json" },
+    { key: "stats", kind: "json" },
+    { key: "inventoryItemIds", kind: "string[]", ref: "items" },
+    { key: "appearance", kind: "text" },
+    { key: "age", kind: "string" },
+    { key: "status", kind: "enum", options: ["alive", "dead", "missing", "unknown", "imprisoned", "exiled"] },
+    { key: "dialogue", kind: "json" },
+    { key: "motivations", kind: "string[]" },
+    { key: "fears", kind: "string[]" },
+    { key: "secrets", kind: "string[]" },
+    tags,
+  ],
+  factions: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["government", "military", "religious", "criminal", "guild", "corporation", "tribe", "resistance"] },
+    { key: "alignment", kind: "string" },
+    { key: "territory", kind: "text" },
+    { key: "leaderCharacterId", kind: "string", ref: "characters" },
+    { key: "parentFactionId", kind: "string", ref: "factions" },
+    { key: "resources", kind: "string[]" },
+    { key: "goals", kind: "string[]" },
+    { key: "values", kind: "string[]" },
+    { key: "headquartersLocationId", kind: "string", ref: "locations" },
+    { key: "emblem", kind: "string" },
+    { key: "motto", kind: "string" },
+    { key: "strength", kind: "string" },
+    { key: "publicOpinion", kind: "string" },
+    history,
+    tags,
+  ],
+  planets: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["terrestrial", "gas-giant", "ice-world", "desert", "ocean", "moon", "station", "ringworld", "artificial"] },
+    { key: "climate", kind: "string" },
+    { key: "atmosphere", kind: "string" },
+    { key: "gravity", kind: "string" },
+    { key: "population", kind: "string" },
+    { key: "dominantSpeciesId", kind: "string", ref: "species" },
+    { key: "controllingFactionId", kind: "string", ref: "factions" },
+    { key: "starSystemId", kind: "string", ref: "star-systems" },
+    { key: "parentPlanetId", kind: "string", ref: "planets" },
+    { key: "systemName", kind: "string" },
+    { key: "resources", kind: "string[]" },
+    { key: "coordinates", kind: "json" },
+    { key: "orbit", kind: "json" },
+    { key: "render", kind: "json" },
+    { key: "moons", kind: "string[]" },
+    { key: "hazards", kind: "string[]" },
+    { key: "pointsOfInterest", kind: "string[]" },
+    history,
+    tags,
+  ],
+  locations: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["city", "dungeon", "outpost", "landmark", "building", "region", "district", "ruins", "fortress", "space-station", "port"] },
+    { key: "planetId", kind: "string", ref: "planets" },
+    { key: "parentLocationId", kind: "string", ref: "locations" },
+    { key: "coordinates", kind: "json" },
+    { key: "population", kind: "string" },
+    { key: "controllingFactionId", kind: "string", ref: "factions" },
+    { key: "dangerLevel", kind: "number" },
+    { key: "resources", kind: "string[]" },
+    { key: "pointsOfInterest", kind: "string[]" },
+    { key: "connectedLocationIds", kind: "string[]", ref: "locations" },
+    { key: "atmosphere", kind: "string" },
+    { key: "economy", kind: "text" },
+    { key: "notableNpcIds", kind: "string[]", ref: "characters" },
+    history,
+    tags,
+  ],
+  technologies: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["weapon", "transport", "medical", "communication", "energy", "manufacturing", "agricultural", "defense", "computing", "biotech"] },
+    { key: "techLevel", kind: "string", options: ["primitive", "medieval", "industrial", "modern", "advanced", "futuristic", "quantum", "transcendent"] },
+    { key: "originFactionId", kind: "string", ref: "factions" },
+    { key: "originSpeciesId", kind: "string", ref: "species" },
+    { key: "prerequisites", kind: "string[]", ref: "technologies" },
+    { key: "effects", kind: "text" },
+    { key: "availability", kind: "enum", options: ["common", "uncommon", "rare", "restricted", "secret", "lost", "theoretical"] },
+    { key: "era", kind: "string" },
+    { key: "risks", kind: "text" },
+    { key: "socialImpact", kind: "text" },
+    tags,
+  ],
+  vehicles: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["ship", "starship", "aircraft", "ground-vehicle", "mech", "mount", "submarine", "hover"] },
+    { key: "class", kind: "string", options: ["fighter", "cruiser", "transport", "capital", "scout", "cargo"] },
+    { key: "manufacturer", kind: "string" },
+    { key: "manufacturerFactionId", kind: "string", ref: "factions" },
+    { key: "speed", kind: "string" },
+    { key: "capacity", kind: "string" },
+    { key: "armament", kind: "string[]" },
+    { key: "technologyIds", kind: "string[]", ref: "technologies" },
+    { key: "cost", kind: "string" },
+    { key: "rarity", kind: "enum", options: ["common", "uncommon", "rare", "legendary", "unique", "prototype"] },
+    { key: "dimensions", kind: "string" },
+    { key: "crew", kind: "string" },
+    { key: "range", kind: "string" },
+    { key: "specialFeatures", kind: "string[]" },
+    history,
+    tags,
+  ],
+  species: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["sentient", "beast", "synthetic", "hybrid", "undead", "elemental", "plant", "fungal"] },
+    { key: "homePlanetId", kind: "string", ref: "planets" },
+    { key: "physiology", kind: "text" },
+    { key: "traits", kind: "string[]" },
+    { key: "abilities", kind: "string[]" },
+    { key: "culture", kind: "text" },
+    { key: "governance", kind: "string" },
+    { key: "lifespan", kind: "string" },
+    { key: "population", kind: "string" },
+    { key: "language", kind: "string" },
+    { key: "diet", kind: "string" },
+    { key: "reproduction", kind: "string" },
+    { key: "weaknesses", kind: "string[]" },
+    { key: "relations", kind: "json" },
+    history,
+    tags,
+  ],
+  items: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["weapon", "armor", "consumable", "artifact", "tool", "currency", "material", "quest-item", "key"] },
+    { key: "rarity", kind: "enum", options: ["common", "uncommon", "rare", "epic", "legendary", "unique", "artifact"] },
+    { key: "value", kind: "number" },
+    { key: "weight", kind: "number" },
+    { key: "effects", kind: "string[]" },
+    { key: "requirements", kind: "string" },
+    { key: "craftingRecipe", kind: "json" },
+    { key: "technologyId", kind: "string", ref: "technologies" },
+    { key: "loreText", kind: "text" },
+    { key: "stackable", kind: "boolean" },
+    { key: "maxStack", kind: "number" },
+    tags,
+  ],
+  quests: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["main", "side", "bounty", "fetch", "escort", "exploration", "puzzle", "repeatable"] },
+    { key: "giverCharacterId", kind: "string", ref: "characters" },
+    { key: "locationId", kind: "string", ref: "locations" },
+    { key: "prerequisites", kind: "string[]", ref: "quests" },
+    { key: "objectives", kind: "json" },
+    { key: "rewards", kind: "json" },
+    { key: "difficulty", kind: "string", options: ["trivial", "easy", "medium", "hard", "legendary"] },
+    { key: "status", kind: "enum", options: ["available", "active", "completed", "failed", "hidden"] },
+    { key: "chainQuestIds", kind: "string[]", ref: "quests" },
+    { key: "levelRequirement", kind: "number" },
+    { key: "timeLimit", kind: "string" },
+    { key: "consequences", kind: "text" },
+    { key: "loreText", kind: "text" },
+    tags,
+  ],
+  events: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["battle", "discovery", "founding", "disaster", "treaty", "assassination", "revolution", "migration"] },
+    { key: "date", kind: "string" },
+    { key: "sortOrder", kind: "number" },
+    { key: "era", kind: "string" },
+    { key: "significance", kind: "enum", options: ["minor", "moderate", "major", "world-changing"] },
+    { key: "participantIds", kind: "json" },
+    { key: "locationId", kind: "string", ref: "locations" },
+    { key: "planetId", kind: "string", ref: "planets" },
+    { key: "consequences", kind: "string[]" },
+    { key: "relatedEventIds", kind: "string[]", ref: "events" },
+    { key: "outcome", kind: "text" },
+    { key: "casualties", kind: "string" },
+    tags,
+  ],
+  lore: [
+    { key: "title", kind: "string", required: true },
+    { key: "content", kind: "text", required: true },
+    { key: "category", kind: "string", options: ["myth", "history", "science", "religion", "law", "culture", "prophecy", "legend"] },
+    { key: "relatedEntityIds", kind: "json" },
+    { key: "era", kind: "string" },
+    { key: "confidentiality", kind: "enum", options: ["public", "faction-secret", "lost", "forbidden", "restricted", "classified"] },
+    { key: "author", kind: "string" },
+    { key: "reliability", kind: "enum", options: ["verified", "mostly-true", "disputed", "legend", "propaganda", "false"] },
+    { key: "language", kind: "string" },
+    tags,
+  ],
+  economies: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["planetary", "faction", "regional", "black-market", "interstellar", "tribal"] },
+    { key: "currencyName", kind: "string" },
+    { key: "currencySymbol", kind: "string" },
+    { key: "scope", kind: "json" },
+    { key: "resources", kind: "json" },
+    { key: "tradeRoutes", kind: "json" },
+    { key: "taxRate", kind: "string" },
+    { key: "wealthDistribution", kind: "text" },
+    { key: "economicSystem", kind: "string", options: ["free-market", "command", "feudal", "mixed", "barter", "post-scarcity"] },
+    { key: "majorIndustries", kind: "string[]" },
+    tags,
+  ],
+  relationships: [
+    { key: "type", kind: "enum", required: true, options: RELATIONSHIP_TYPES },
+    { key: "sourceType", kind: "string", required: true },
+    { key: "sourceId", kind: "string", required: true },
+    { key: "targetType", kind: "string", required: true },
+    { key: "targetId", kind: "string", required: true },
+    { key: "strength", kind: "number" },
+    description,
+    { key: "metadata", kind: "json" },
+    { key: "bidirectional", kind: "boolean" },
+    { key: "status", kind: "enum", options: ["active", "inactive", "broken", "secret", "historical"] },
+    tags,
+  ],
+  abilities: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["psionic", "biotic", "technological", "magical", "genetic", "cybernetic", "divine", "elemental", "temporal"] },
+    { key: "category", kind: "string", options: ["offensive", "defensive", "utility", "support", "passive"] },
+    { key: "rarity", kind: "enum", options: ["common", "uncommon", "rare", "legendary", "unique"] },
+    { key: "source", kind: "string" },
+    { key: "effects", kind: "string[]" },
+    { key: "risks", kind: "string[]" },
+    { key: "cost", kind: "string" },
+    { key: "cooldown", kind: "string" },
+    { key: "duration", kind: "string" },
+    { key: "range", kind: "string" },
+    { key: "requirements", kind: "string" },
+    { key: "learnable", kind: "boolean" },
+    { key: "prerequisiteAbilityIds", kind: "string[]", ref: "abilities" },
+    { key: "speciesRestrictionIds", kind: "string[]", ref: "species" },
+    { key: "technologyId", kind: "string", ref: "technologies" },
+    { key: "loreText", kind: "text" },
+    tags,
+  ],
+  conflicts: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["war", "civil-war", "rebellion", "border-conflict", "trade-war", "cold-war", "siege", "proxy-war", "insurgency", "genocide"] },
+    { key: "status", kind: "enum", options: ["brewing", "active", "ceasefire", "resolved", "stalemate", "escalating"] },
+    { key: "cause", kind: "text" },
+    { key: "startDate", kind: "string" },
+    { key: "endDate", kind: "string" },
+    { key: "era", kind: "string" },
+    { key: "belligerents", kind: "json" },
+    { key: "commanderCharacterIds", kind: "string[]", ref: "characters" },
+    { key: "theaterSystemIds", kind: "string[]", ref: "star-systems" },
+    { key: "theaterPlanetIds", kind: "string[]", ref: "planets" },
+    { key: "theaterLocationIds", kind: "string[]", ref: "locations" },
+    { key: "strategicObjectives", kind: "string[]" },
+    { key: "consequences", kind: "string[]" },
+    { key: "outcome", kind: "text" },
+    { key: "casualties", kind: "string" },
+    { key: "economicImpact", kind: "text" },
+    { key: "publicSentiment", kind: "string" },
+    { key: "technologicalBreakthroughIds", kind: "string[]", ref: "technologies" },
+    { key: "relatedEventIds", kind: "string[]", ref: "events" },
+    { key: "treatyName", kind: "string" },
+    tags,
+  ],
+  "galactic-regions": [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["core", "arm", "rim", "void", "nebula", "cluster", "halo", "rift"] },
+    { key: "bounds", kind: "json" },
+    { key: "center", kind: "json" },
+    { key: "color", kind: "string" },
+    { key: "opacity", kind: "number" },
+    { key: "density", kind: "string", options: ["sparse", "moderate", "dense"] },
+    { key: "navigability", kind: "string", options: ["safe", "moderate", "dangerous", "uncharted", "impassable"] },
+    { key: "strategicValue", kind: "string", options: STRATEGIC_VALUES },
+    { key: "controllingFactionId", kind: "string", ref: "factions" },
+    { key: "connectedRegionIds", kind: "string[]", ref: "galactic-regions" },
+    { key: "resources", kind: "string[]" },
+    { key: "hazards", kind: "string[]" },
+    history,
+    tags,
+  ],
+  religions: [
+    name,
+    description,
+    { key: "type", kind: "string", options: ["monotheistic", "polytheistic", "animistic", "ancestor-worship", "philosophical", "cosmic", "machine-cult", "void-worship", "deistic", "pantheistic"] },
+    { key: "status", kind: "enum", options: ["active", "declining", "extinct", "underground", "state-religion"] },
+    { key: "alignment", kind: "string", options: ["benevolent", "neutral", "malevolent", "ambiguous"] },
+    { key: "influence", kind: "string", options: ["fringe", "minor", "regional", "planetary", "interstellar", "universal"] },
+    { key: "deities", kind: "json" },
+    { key: "beliefs", kind: "string[]" },
+    { key: "practices", kind: "string[]" },
+    { key: "taboos", kind: "string[]" },
+    { key: "prophecies", kind: "string[]" },
+    { key: "holyTexts", kind: "json" },
+    { key: "symbol", kind: "string" },
+    { key: "organizationStructure", kind: "text" },
+    { key: "founderCharacterId", kind: "string", ref: "characters" },
+    { key: "foundingEra", kind: "string" },
+    { key: "controllingFactionId", kind: "string", ref: "factions" },
+    { key: "followingSpeciesIds", kind: "string[]", ref: "species" },
+    { key: "sacredLocationIds", kind: "string[]", ref: "locations" },
+    { key: "sacredItemIds", kind: "string[]", ref: "items" },
+    { key: "afterlifeBeliefs", kind: "text" },
+    history,
+    tags,
+  ],
+  "star-systems": [
+    name,
+    description,
+    { key: "systemType", kind: "string", options: ["single", "binary", "trinary", "quaternary"] },
+    { key: "status", kind: "enum", options: ["explored", "uncharted", "restricted", "contested", "abandoned"] },
+    { key: "galacticRegionId", kind: "string", ref: "galactic-regions" },
+    { key: "position", kind: "json" },
+    { key: "stars", kind: "json" },
+    { key: "numberOfPlanets", kind: "number" },
+    { key: "controllingFactionId", kind: "string", ref: "factions" },
+    { key: "discoveredByFactionId", kind: "string", ref: "factions" },
+    { key: "discoveryDate", kind: "string" },
+    { key: "strategicValue", kind: "string", options: STRATEGIC_VALUES },
+    { key: "habitableZone", kind: "string" },
+    { key: "connectedSystemIds", kind: "string[]", ref: "star-systems" },
+    { key: "resources", kind: "string[]" },
+    { key: "hazards", kind: "string[]" },
+    { key: "age", kind: "string" },
+    { key: "luminosity", kind: "string" },
+    history,
+    tags,
+  ],
+};
+
+// ─── List filters ───────────────────────────────────────────────
+// The "List filters" documented for each collection in server-doc.md.
+// Every key here is also a field in ENTITY_FIELDS.
+
+export const LIST_FILTERS: Record<EntityType, string[]> = {
+  characters: ["factionId", "speciesId", "locationId", "planetId", "role", "status"],
+  factions: ["type", "alignment"],
+  planets: ["type", "controllingFactionId", "systemName"],
+  locations: ["planetId", "type", "controllingFactionId", "parentLocationId"],
+  technologies: ["type", "techLevel", "availability", "originFactionId"],
+  vehicles: ["type", "class", "manufacturerFactionId", "rarity"],
+  species: ["type", "homePlanetId"],
+  items: ["type", "rarity"],
+  quests: ["type", "status", "giverCharacterId", "locationId", "difficulty"],
+  events: ["type", "era", "significance", "planetId", "locationId"],
+  lore: ["category", "era", "confidentiality", "reliability"],
+  economies: ["type", "economicSystem"],
+  relationships: ["type", "sourceType", "targetType", "status"],
+  abilities: ["type", "category", "rarity"],
+  conflicts: ["type", "status", "era"],
+  "galactic-regions": ["type", "controllingFactionId", "density", "navigability"],
+  religions: ["type", "status", "alignment", "influence"],
+  "star-systems": ["systemType", "status", "galacticRegionId", "controllingFactionId", "strategicValue"],
+};
@@ -100,7 +100,7 @@ export const ENTITY_TYPES: EntityType[] = [
 ];
 
 /** Maps collection name → singular tool name */
-export const ENTITY_SINGULAR: Record<EntityType, string> = {
+export const ENTITY_SINGULAR = {
   characters: "character",
   factions: "faction",
   planets: "planet",
@@ -119,7 +119,9 @@ export const ENTITY_SINGULAR: Record<EntityType, string> = {
   "galactic-regions": "galactic_region",
   religions: "religion",
   "star-systems": "star_system",
-};
+} as const satisfies Record<EntityType, string>;
+
+export type EntitySingular<E extends EntityType = EntityType> = (typeof ENTITY_SINGULAR)[E];
 
 /** Human-readable labels */
 export const ENTITY_LABELS: Record<EntityType, string> = {
@@ -166,6 +168,10 @@ export const ENTITY_ICONS: Record<EntityType, string> = {
 };
 
 // ─── Generic entity (common fields) ────────────────────────────
+/**
+ * Loose shape shared by every entity — used by the generic list / detail
+ * pages. Use the per-type interfaces below (via EntityOf) for typed access.
+ */
 export interface Entity {
   id: string;
   name?: string;
@@ -173,43 +179,519 @@ export interface Entity {
   description?: string;
   type?: string;
   status?: string;
+  role?: string;
+  category?: string;
   tags?: string[];
   createdAt?: string;
   updatedAt?: string;
   [key: string]: unknown;
 }
 
-// ─── Timeline event ─────────────────────────────────────────────
-export interface TimelineEvent extends Entity {
+/** Fields every stored entity carries */
+export interface BaseEntity {
+  id: string;
+  worldId?: string;
+  description?: string;
+  tags?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Reference to an entity in any collection */
+export interface EntityRef {
+  type: string;
+  id: string;
+}
+
+// ─── Characters ─────────────────────────────────────────────────
+export type CharacterStatus = "alive" | "dead" | "missing" | "unknown" | "imprisoned" | "exiled";
+
+export interface CharacterDialogue {
+  greeting?: string;
+  farewell?: string;
+  topics?: string[];
+  personality_notes?: string;
+}
+
+export interface Character extends BaseEntity {
+  name: string;
+  title?: string;
+  speciesId?: string;
+  factionId?: string;
+  locationId?: string;
+  planetId?: string;
+  role?: string;
+  backstory?: string;
+  personality?: string;
+  traits?: string[];
+  skills?: Record<string, number>;
+  stats?: Record<string, number>;
+  inventoryItemIds?: string[];
+  appearance?: string;
+  age?: string;
+  status?: CharacterStatus;
+  dialogue?: CharacterDialogue;
+  motivations?: string[];
+  fears?: string[];
+  secrets?: string[];
+}
+
+// ─── Factions ───────────────────────────────────────────────────
+export interface Faction extends BaseEntity {
+  name: string;
+  type?: string;
+  alignment?: string;
+  territory?: string;
+  leaderCharacterId?: string;
+  parentFactionId?: string;
+  resources?: string[];
+  goals?: string[];
+  values?: string[];
+  headquartersLocationId?: string;
+  emblem?: string;
+  motto?: string;
+  strength?: string;
+  publicOpinion?: string;
+  history?: string;
+}
+
+// ─── Planets ────────────────────────────────────────────────────
+/** Orbital elements used by the galaxy map (angles in degrees, period in days) */
+export interface PlanetOrbit {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  orbitalPeriod: number;
+  currentAngle: number;
+}
+
+/** Rendering hints used by the galaxy map */
+export interface PlanetRender {
+  radius: number;
+  primaryColor: string;
+  secondaryColor: string;
+  atmosphereColor: string;
+  atmosphereIntensity: number;
+  texture: string;
+  cloudCover: number;
+}
+
+export interface Planet extends BaseEntity {
+  name: string;
+  type?: string;
+  climate?: string;
+  atmosphere?: string;
+  gravity?: string;
+  population?: string;
+  habitability?: string;
+  dominantSpeciesId?: string;
+  controllingFactionId?: string;
+  resources?: string[];
+  coordinates?: { x: number; y: number; z: number };
+  starSystemId?: string;
+  parentPlanetId?: string;
+  systemName?: string;
+  orbit?: PlanetOrbit;
+  render?: PlanetRender;
+  moons?: string[];
+  hazards?: string[];
+  pointsOfInterest?: string[];
+  history?: string;
+}
+
+// ─── Locations ──────────────────────────────────────────────────
+export interface WorldLocation extends BaseEntity {
+  name: string;
+  type?: string;
+  planetId?: string;
+  parentLocationId?: string;
+  coordinates?: { x: number; y: number; z?: number };
+  population?: string;
+  controllingFactionId?: string;
+  dangerLevel?: number;
+  resources?: string[];
+  pointsOfInterest?: string[];
+  connectedLocationIds?: string[];
+  atmosphere?: string;
+  economy?: string;
+  notableNpcIds?: string[];
+  history?: string;
+}
+
+// ─── Technologies ───────────────────────────────────────────────
+export interface Technology extends BaseEntity {
+  name: string;
+  type?: string;
+  techLevel?: string;
+  originFactionId?: string;
+  originSpeciesId?: string;
+  prerequisites?: string[];
+  effects?: string;
+  availability?: "common" | "uncommon" | "rare" | "restricted" | "secret" | "lost" | "theoretical";
+  era?: string;
+  risks?: string;
+  socialImpact?: string;
+}
+
+// ─── Vehicles ───────────────────────────────────────────────────
+export interface Vehicle extends BaseEntity {
+  name: string;
+  type?: string;
+  class?: string;
+  manufacturer?: string;
+  manufacturerFactionId?: string;
+  speed?: string;
+  capacity?: string;
+  armament?: string[];
+  technologyIds?: string[];
+  cost?: string;
+  rarity?: "common" | "uncommon" | "rare" | "legendary" | "unique" | "prototype";
+  dimensions?: string;
+  crew?: string;
+  range?: string;
+  specialFeatures?: string[];
+  history?: string;
+}
+
+// ─── Species ────────────────────────────────────────────────────
+export interface Species extends BaseEntity {
+  name: string;
+  type?: string;
+  homePlanetId?: string;
+  physiology?: string;
+  traits?: string[];
+  abilities?: string[];
+  culture?: string;
+  governance?: string;
+  lifespan?: string;
+  population?: string;
+  language?: string;
+  diet?: string;
+  reproduction?: string;
+  weaknesses?: string[];
+  relations?: Record<string, string>;
+  history?: string;
+}
+
+// ─── Items ──────────────────────────────────────────────────────
+export interface CraftingRecipe {
+  ingredients: { itemId?: string; name: string; quantity: number }[];
+  skillRequired?: string;
+  facility?: string;
+}
+
+export interface Item extends BaseEntity {
+  name: string;
+  type?: string;
+  rarity?: "common" | "uncommon" | "rare" | "epic" | "legendary" | "unique" | "artifact";
+  value?: number;
+  weight?: number;
+  effects?: string[];
+  requirements?: string;
+  craftingRecipe?: CraftingRecipe;
+  technologyId?: string;
+  loreText?: string;
+  stackable?: boolean;
+  maxStack?: number;
+}
+
+// ─── Quests ─────────────────────────────────────────────────────
+export interface QuestObjective {
+  description: string;
+  type?: string;
+  targetId?: string;
+  quantity?: number;
+  completed?: boolean;
+  optional?: boolean;
+}
+
+export interface QuestReward {
+  type: string;
+  itemId?: string;
+  amount?: number;
+  factionId?: string;
+  description?: string;
+}
+
+export interface Quest extends BaseEntity {
+  name: string;
+  type?: string;
+  giverCharacterId?: string;
+  locationId?: string;
+  prerequisites?: string[];
+  objectives?: QuestObjective[];
+  rewards?: QuestReward[];
+  difficulty?: string;
+  status?: "available" | "active" | "completed" | "failed" | "hidden";
+  chainQuestIds?: string[];
+  levelRequirement?: number;
+  timeLimit?: string;
+  consequences?: string;
+  loreText?: string;
+}
+
+// ─── Events ─────────────────────────────────────────────────────
+export type EventSignificance = "minor" | "moderate" | "major" | "world-changing";
+
+export interface EventParticipant extends EntityRef {
+  role?: string;
+}
+
+export interface TimelineEvent extends BaseEntity {
+  name: string;
+  type?: string;
   date?: string;
   sortOrder?: number;
   era?: string;
-  significance?: string;
-  participantIds?: { type: string; id: string; role?: string }[];
+  significance?: EventSignificance;
+  participantIds?: EventParticipant[];
   locationId?: string;
   planetId?: string;
   consequences?: string[];
+  relatedEventIds?: string[];
   outcome?: string;
+  casualties?: string;
+}
+
+// ─── Lore ───────────────────────────────────────────────────────
+export interface Lore extends BaseEntity {
+  title: string;
+  content: string;
+  category?: string;
+  relatedEntityIds?: EntityRef[];
+  era?: string;
+  confidentiality?: "public" | "faction-secret" | "lost" | "forbidden" | "restricted" | "classified";
+  author?: string;
+  reliability?: "verified" | "mostly-true" | "disputed" | "legend" | "propaganda" | "false";
+  language?: string;
+}
+
+// ─── Economies ──────────────────────────────────────────────────
+export type SupplyLevel = "surplus" | "abundant" | "stable" | "scarce" | "critical";
+export type TradeRisk = "safe" | "low" | "moderate" | "high" | "extreme";
+
+export interface EconomyResource {
+  itemId?: string;
+  name: string;
+  basePrice?: number;
+  supply?: SupplyLevel;
+  demand?: SupplyLevel;
+  description?: string;
+}
+
+export interface TradeRoute {
+  fromLocationId: string;
+  toLocationId: string;
+  goods: string[];
+  risk: TradeRisk;
+  description?: string;
+}
+
+export interface Economy extends BaseEntity {
+  name: string;
+  type?: string;
+  currencyName?: string;
+  currencySymbol?: string;
+  scope?: { planetId?: string; factionId?: string; locationId?: string };
+  resources?: EconomyResource[];
+  tradeRoutes?: TradeRoute[];
+  taxRate?: string;
+  wealthDistribution?: string;
+  economicSystem?: string;
+  majorIndustries?: string[];
+}
+
+// ─── Abilities ──────────────────────────────────────────────────
+export interface Ability extends BaseEntity {
+  name: string;
+  type?: string;
+  category?: string;
+  rarity?: "common" | "uncommon" | "rare" | "legendary" | "unique";
+  source?: string;
+  effects?: string[];
+  risks?: string[];
+  cost?: string;
+  cooldown?: string;
+  duration?: string;
+  range?: string;
+  requirements?: string;
+  learnable?: boolean;
+  prerequisiteAbilityIds?: string[];
+  speciesRestrictionIds?: string[];
+  technologyId?: string;
+  loreText?: string;
+}
+
+// ─── Conflicts ──────────────────────────────────────────────────
+export interface Belligerent {
+  factionId: string;
+  role: "aggressor" | "defender" | "ally" | "neutral-observer";
+  strength?: string;
 }
 
-// ─── Relationship ───────────────────────────────────────────────
-export interface Relationship extends Entity {
+export interface Conflict extends BaseEntity {
+  name: string;
+  type?: string;
+  status?: "brewing" | "active" | "ceasefire" | "resolved" | "stalemate" | "escalating";
+  cause?: string;
+  startDate?: string;
+  endDate?: string;
+  era?: string;
+  belligerents?: Belligerent[];
+  commanderCharacterIds?: string[];
+  theaterSystemIds?: string[];
+  theaterPlanetIds?: string[];
+  theaterLocationIds?: string[];
+  strategicObjectives?: string[];
+  consequences?: string[];
+  outcome?: string;
+  casualties?: string;
+  economicImpact?: string;
+  publicSentiment?: string;
+  technologicalBreakthroughIds?: string[];
+  relatedEventIds?: string[];
+  treatyName?: string;
+}
+
+// ─── Galactic Regions ───────────────────────────────────────────
+export type StrategicValue = "negligible" | "low" | "moderate" | "high" | "critical";
+
+/** Cylindrical galactic coordinates (azimuth in degrees) */
+export interface GalacticPosition {
+  azimuth: number;
+  distance: number;
+  elevation: number;
+}
+
+export interface RegionBounds {
+  azimuthStart: number;
+  azimuthEnd: number;
+  distanceMin: number;
+  distanceMax: number;
+  elevationMin?: number;
+  elevationMax?: number;
+}
+
+export interface GalacticRegion extends BaseEntity {
+  name: string;
+  type?: string;
+  bounds?: RegionBounds;
+  center?: GalacticPosition;
+  color?: string;
+  opacity?: number;
+  density?: string;
+  navigability?: string;
+  strategicValue?: StrategicValue;
+  controllingFactionId?: string;
+  connectedRegionIds?: string[];
+  resources?: string[];
+  hazards?: string[];
+  history?: string;
+}
+
+// ─── Religions ──────────────────────────────────────────────────
+export interface Religion extends BaseEntity {
+  name: string;
+  type?: string;
+  status?: "active" | "declining" | "extinct" | "underground" | "state-religion";
+  alignment?: string;
+  influence?: string;
+  deities?: { name: string; title?: string; domain?: string; description?: string }[];
+  beliefs?: string[];
+  practices?: string[];
+  taboos?: string[];
+  prophecies?: string[];
+  holyTexts?: { name: string; description?: string }[];
+  symbol?: string;
+  organizationStructure?: string;
+  founderCharacterId?: string;
+  foundingEra?: string;
+  controllingFactionId?: string;
+  followingSpeciesIds?: string[];
+  sacredLocationIds?: string[];
+  sacredItemIds?: string[];
+  afterlifeBeliefs?: string;
+  history?: string;
+}
+
+// ─── Star Systems ───────────────────────────────────────────────
+export interface StarData {
+  name: string;
+  spectralClass?: string;
+  color?: string;
+  radius?: number;
+  mass?: number;
+  luminosityClass?: string;
+  surfaceTemperature?: number;
+  orbitRadius?: number;
+  orbitAngle?: number;
+}
+
+export interface StarSystem extends BaseEntity {
+  name: string;
+  systemType?: string;
+  status?: "explored" | "uncharted" | "restricted" | "contested" | "abandoned";
+  galacticRegionId?: string;
+  position?: GalacticPosition;
+  stars?: StarData[];
+  numberOfPlanets?: number;
+  controllingFactionId?: string;
+  discoveredByFactionId?: string;
+  discoveryDate?: string;
+  strategicValue?: StrategicValue;
+  habitableZone?: string;
+  connectedSystemIds?: string[];
+  resources?: string[];
+  hazards?: string[];
+  age?: string;
+  luminosity?: string;
+  history?: string;
+}
+
+// ─── Relationships ──────────────────────────────────────────────
+export interface Relationship extends BaseEntity {
+  type: string;
   sourceType: string;
   sourceId: string;
   targetType: string;
   targetId: string;
   strength?: number;
-  bidirectional?: boolean;
   metadata?: Record<string, unknown>;
+  bidirectional?: boolean;
+  status?: "active" | "inactive" | "broken" | "secret" | "historical";
 }
 
+/** Collection name → entity interface */
+export interface EntityTypeMap {
+  characters: Character;
+  factions: Faction;
+  planets: Planet;
+  locations: WorldLocation;
+  technologies: Technology;
+  vehicles: Vehicle;
+  species: Species;
+  items: Item;
+  quests: Quest;
+  events: TimelineEvent;
+  lore: Lore;
+  economies: Economy;
+  relationships: Relationship;
+  abilities: Ability;
+  conflicts: Conflict;
+  "galactic-regions": GalacticRegion;
+  religions: Religion;
+  "star-systems": StarSystem;
+}
+
+export type EntityOf<E extends EntityType> = EntityTypeMap[E];
+
 // ─── World Summary ──────────────────────────────────────────────
 export interface WorldSummary {
   world: World;
   entityCounts: Record<string, number>;
-  keyFactions?: Entity[];
-  majorPlanets?: Entity[];
-  notableCharacters?: Entity[];
-  recentEvents?: Entity[];
-  species?: Entity[];
+  keyFactions?: Faction[];
+  majorPlanets?: Planet[];
+  notableCharacters?: Character[];
+  recentEvents?: TimelineEvent[];
+  species?: Species[];
 }
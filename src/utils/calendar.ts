@@ -0,0 +1,300 @@
+// ─── In-world calendars ─────────────────────────────────────────
+// Dates are free text ("Year 3042, Month 7, Day 3", "14 Frostfall 412 AR",
+// "412 BCE"), so they are read into a day number counted from the
+// calendar's year 0 — the ordinal everything sorts by. Which calendar a
+// world uses comes from `WorldSettings.calendarSystem`: a registered
+// calendar when it names one ("Gregorian"), otherwise one built from the
+// description itself ("a 400-day year; months: Thaw, Bloom, …; eras: Old
+// Reckoning (-5000), After Reckoning (0)"), falling back to 365 days in
+// twelve numbered months.
+
+import type { TimelineEvent } from "../types";
+
+export const DEFAULT_DAYS_PER_YEAR = 365;
+const DEFAULT_MONTH_COUNT = 12;
+
+export interface CalendarMonth {
+  name: string;
+  days: number;
+}
+
+export interface CalendarEra {
+  name: string;
+  /** Spellings recognised in dates; the first is used when formatting */
+  aliases: string[];
+  /** Absolute year that year 0 of this era falls on */
+  offset: number;
+  /** Years count down from `offset` (BCE-style) */
+  backwards?: boolean;
+  /** Left off formatted dates (the everyday era, e.g. CE) */
+  implicit?: boolean;
+}
+
+export interface CalendarDefinition {
+  id: string;
+  label: string;
+  /** Words in `calendarSystem` that select this calendar */
+  keywords: string[];
+  months: CalendarMonth[];
+  eras: CalendarEra[];
+}
+
+export interface Calendar extends CalendarDefinition {
+  daysPerYear: number;
+  /** Day number of a date string, or null when it holds no recognisable year */
+  parse: (date: string | undefined) => number | null;
+  /** "Year 3042, Month 7, Day 3" / "Year 412 AR, 14 Frostfall" for a day number */
+  format: (day: number) => string;
+  /** Fractional absolute year of a day number */
+  yearOf: (day: number) => number;
+}
+
+// ─── Registry ───────────────────────────────────────────────────
+const COMMON_ERAS: CalendarEra[] = [
+  { name: "Common Era", aliases: ["CE", "AD", "A.D."], offset: 0, implicit: true },
+  { name: "Before Common Era", aliases: ["BCE", "BC", "B.C.", "B.C.E."], offset: 0, backwards: true },
+];
+
+const GREGORIAN: CalendarDefinition = {
+  id: "gregorian",
+  label: "Gregorian",
+  keywords: ["gregorian", "earth calendar", "terran calendar"],
+  months: [
+    ["January", 31],
+    ["February", 28],
+    ["March", 31],
+    ["April", 30],
+    ["May", 31],
+    ["June", 30],
+    ["July", 31],
+    ["August", 31],
+    ["September", 30],
+    ["October", 31],
+    ["November", 30],
+    ["December", 31],
+  ].map(([name, days]) => ({ name: name as string, days: days as number })),
+  eras: COMMON_ERAS,
+};
+
+const registry: CalendarDefinition[] = [GREGORIAN];
+const cache = new Map<string, Calendar>();
+
+/** Add a calendar that worlds can select by naming one of its keywords */
+export function registerCalendar(definition: CalendarDefinition) {
+  registry.unshift(definition);
+  cache.clear();
+}
+
+/** The calendar described by a world's `calendarSystem` setting */
+export function calendarFor(calendarSystem?: string): Calendar {
+  const key = calendarSystem ?? "";
+  let calendar = cache.get(key);
+  if (!calendar) {
+    const text = key.toLowerCase();
+    const registered = registry.find((d) => d.keywords.some((k) => text.includes(k)));
+    calendar = createCalendar(registered ?? describedCalendar(key));
+    cache.set(key, calendar);
+  }
+  return calendar;
+}
+
+// ─── Calendars built from a description ─────────────────────────
+function listAfter(text: string, label: string): string[] {
+  const match = text.match(new RegExp(`\\b${label}\\s*[:=]\\s*([^;\\n]+)`, "i"));
+  // Commas inside parentheses belong to the entry ("After Reckoning (AR, 0)")
+  return match ? match[1].split(/,(?![^(]*\))/).map((s) => s.trim()).filter(Boolean) : [];
+}
+
+/** Spread `total` days over `count` months, the remainder going to the first months */
+function evenMonths(names: string[], total: number): CalendarMonth[] {
+  const base = Math.floor(total / names.length);
+  const extra = Math.round(total - base * names.length);
+  return names.map((name, i) => ({ name, days: base + (i < extra ? 1 : 0) }));
+}
+
+function describedCalendar(calendarSystem: string): CalendarDefinition {
+  const daysMatch = calendarSystem.match(/(\d+(?:\.\d+)?)[\s-]*days?\b/i);
+  const days = daysMatch && Number(daysMatch[1]) >= 1 ? Math.round(Number(daysMatch[1])) : DEFAULT_DAYS_PER_YEAR;
+
+  let monthNames = listAfter(calendarSystem, "months");
+  if (monthNames.length === 0) {
+    const countMatch = calendarSystem.match(/(\d+)[\s-]*months?\b/i);
+    const count = countMatch ? Math.min(days, Math.max(1, Number(countMatch[1]))) : DEFAULT_MONTH_COUNT;
+    monthNames = Array.from({ length: count }, (_, i) => `Month ${i + 1}`);
+  }
+
+  // "eras: Old Reckoning (-5000), After Reckoning (AR, 0)" — abbreviations then start year
+  const eras: CalendarEra[] = listAfter(calendarSystem, "eras").flatMap((entry) => {
+    const match = entry.match(/^(.+?)\s*\(([^)]*?)\s*(-?\d+)\s*\)$/);
+    if (!match) return [];
+    const name = match[1].trim();
+    const abbreviations = match[2].split(/[\s,]+/).filter(Boolean);
+    const initials = name.split(/\s+/).map((w) => w[0].toUpperCase()).join("");
+    const aliases = [...abbreviations, ...(initials.length > 1 ? [initials] : []), name];
+    return [{ name, aliases, offset: Number(match[3]) }];
+  });
+
+  return {
+    id: "described",
+    label: calendarSystem || "Standard",
+    keywords: [],
+    months: evenMonths(monthNames, days),
+    eras: [...eras, ...COMMON_ERAS.map((e) => ({ ...e, implicit: e.implicit && eras.length === 0 }))],
+  };
+}
+
+// ─── Parsing and formatting ─────────────────────────────────────
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Word-bounded match that also works for aliases ending in "." */
+function wordPattern(word: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}])${escapeRegExp(word)}(?![\\p{L}])`, "iu");
+}
+
+function takeLabelled(text: string, labels: string): { value: number | null; rest: string } {
+  const pattern = new RegExp(`\\b(?:${labels})\\.?\\s*(-?\\d+)`, "i");
+  const match = text.match(pattern);
+  return match ? { value: Number(match[1]), rest: text.replace(pattern, " ") } : { value: null, rest: text };
+}
+
+function isNumbered(month: CalendarMonth): boolean {
+  return /^Month \d+$/.test(month.name);
+}
+
+export function createCalendar(definition: CalendarDefinition): Calendar {
+  const { months, eras } = definition;
+  const daysPerYear = months.reduce((sum, m) => sum + m.days, 0) || DEFAULT_DAYS_PER_YEAR;
+  const monthStarts = months.map((_, i) => months.slice(0, i).reduce((sum, m) => sum + m.days, 0));
+
+  // Longest spellings first, so "BCE" wins over "BC" and "Second Age" over "Age"
+  const eraAliases = eras
+    .flatMap((era) => era.aliases.map((alias) => ({ era, pattern: wordPattern(alias), length: alias.length })))
+    .sort((a, b) => b.length - a.length);
+  const monthAliases = months
+    .flatMap((m, i) =>
+      isNumbered(m) ? [] : [m.name, ...(m.name.length > 4 ? [m.name.slice(0, 3)] : [])].map((alias) => ({ index: i, alias }))
+    )
+    .sort((a, b) => b.alias.length - a.alias.length)
+    .map(({ index, alias }) => ({ index, pattern: wordPattern(alias) }));
+
+  const parse = (date: string | undefined): number | null => {
+    if (!date?.trim()) return null;
+    let rest = date;
+
+    const eraMatch = eraAliases.find((a) => a.pattern.test(rest));
+    if (eraMatch) rest = rest.replace(eraMatch.pattern, "$1 ");
+
+    // Numeric forms: "3042-07-15", "3042/7"
+    let year: number | null = null;
+    let month: number | null = null;
+    let day: number | null = null;
+    const compact = rest.trim().match(/^(-?\d+)[-/.](\d{1,2})(?:[-/.](\d{1,2}))?$/);
+    if (compact) {
+      [year, month, day] = [Number(compact[1]), Number(compact[2]), compact[3] ? Number(compact[3]) : null];
+    } else {
+      const named = monthAliases.find((m) => m.pattern.test(rest));
+      if (named) {
+        month = named.index + 1;
+        // Keep a marker where the month was, to find the day beside it
+        rest = rest.replace(named.pattern, "$1 | ");
+      }
+      let taken = takeLabelled(rest, "year|yr|y");
+      year = taken.value;
+      rest = taken.rest;
+      if (month === null) {
+        taken = takeLabelled(rest, "month|mo");
+        month = taken.value;
+        rest = taken.rest;
+      }
+      taken = takeLabelled(rest, "day|d");
+      day = taken.value;
+      rest = taken.rest;
+
+      // Next to a named month the day comes first: "15 March 44" or "March 15, 44"
+      if (named && year === null && day === null && (rest.match(/-?\d+/g)?.length ?? 0) > 1) {
+        const beside = rest.match(/(\d+)(?:st|nd|rd|th)?[\s,.]*\|/i) ?? rest.match(/\|[\s,.]*(\d+)(?!\d)/);
+        if (beside) {
+          day = Number(beside[1]);
+          rest = rest.replace(beside[0], " ");
+        }
+      }
+
+      // Unlabelled numbers: the widest is the year (years outgrow months and
+      // days, and come last on a tie); the rest fill in order
+      const numbers = rest.match(/-?\d+/g)?.map(Number) ?? [];
+      if (year === null && numbers.length > 0) {
+        const widest = numbers.reduce((best, n) => (String(Math.abs(n)).length >= String(Math.abs(best)).length ? n : best));
+        year = widest;
+        numbers.splice(numbers.lastIndexOf(widest), 1);
+      }
+      if (month === null && numbers.length > 1) month = numbers.shift()!;
+      if (day === null && numbers.length > 0) day = numbers.shift()!;
+    }
+    if (year === null) return null;
+
+    let absolute = year;
+    if (eraMatch) absolute = eraMatch.era.backwards ? eraMatch.era.offset - Math.abs(year) : eraMatch.era.offset + year;
+
+    const monthIndex = Math.min(months.length, Math.max(1, month ?? 1)) - 1;
+    const dayOfMonth = Math.min(months[monthIndex].days, Math.max(1, day ?? 1));
+    return absolute * daysPerYear + monthStarts[monthIndex] + dayOfMonth - 1;
+  };
+
+  /** The era a year is written in: the latest forward era it falls in, else the backwards one before it */
+  const eraFor = (year: number): { era: CalendarEra | null; year: number } => {
+    const forward = eras.filter((e) => !e.backwards && e.offset <= year).sort((a, b) => b.offset - a.offset)[0];
+    if (forward) return { era: forward, year: year - forward.offset };
+    const backward = eras.filter((e) => e.backwards && e.offset > year).sort((a, b) => a.offset - b.offset)[0];
+    if (backward) return { era: backward, year: backward.offset - year };
+    return { era: null, year };
+  };
+
+  const format = (day: number): string => {
+    const absolute = Math.floor(day / daysPerYear);
+    const dayOfYear = Math.floor(day - absolute * daysPerYear);
+    let monthIndex = months.length - 1;
+    while (monthIndex > 0 && monthStarts[monthIndex] > dayOfYear) monthIndex--;
+    const dayOfMonth = dayOfYear - monthStarts[monthIndex] + 1;
+
+    const { era, year } = eraFor(absolute);
+    const yearLabel = era && !era.implicit ? `${year} ${era.aliases[0]}` : `${year}`;
+    const month = months[monthIndex];
+    const monthLabel = isNumbered(month) ? `${month.name}, Day ${dayOfMonth}` : `${dayOfMonth} ${month.name}`;
+    return `Year ${yearLabel}, ${monthLabel}`;
+  };
+
+  return { ...definition, daysPerYear, parse, format, yearOf: (day) => day / daysPerYear };
+}
+
+// ─── Helpers over world data ────────────────────────────────────
+/**
+ * Day number of an event: its date when readable, otherwise its
+ * `sortOrder` taken as a year.
+ */
+export function eventDay(event: Pick<TimelineEvent, "date" | "sortOrder">, calendar: Calendar): number | null {
+  const day = calendar.parse(event.date);
+  if (day !== null) return day;
+  return event.sortOrder != null ? event.sortOrder * calendar.daysPerYear : null;
+}
+
+/** A date field for display: the calendar's spelling, or the text as written when it can't be read */
+export function displayDate(date: string, calendar: Calendar): string {
+  const day = calendar.parse(date);
+  return day === null ? date : calendar.format(day);
+}
+
+/**
+ * A character `age` written as a birth date ("born Year 3010, Month 4")
+ * spelled out as years at `presentDay`. Plain ages ("34", "ancient") come
+ * back as null.
+ */
+export function describeAge(age: string, calendar: Calendar, presentDay: number | null): string | null {
+  if (!/\b(born|b\.)|\byear\b/i.test(age)) return null;
+  const birth = calendar.parse(age.replace(/\b(born|b\.)\s*/i, ""));
+  if (birth === null) return null;
+  const born = `born ${calendar.format(birth)}`;
+  if (presentDay === null || presentDay < birth) return born;
+  return `${Math.floor((presentDay - birth) / calendar.daysPerYear)} years (${born})`;
+}
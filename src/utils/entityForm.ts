@@ -0,0 +1,87 @@
+import type { EntityType } from "../types";
+import { ENTITY_FIELDS, type FieldSpec } from "../types/fields";
+
+/** Fields managed by the server — never shown in forms or sent in updates */
+export const SYSTEM_FIELDS = ["id", "createdAt", "updatedAt", "worldId"];
+
+/**
+ * Field specs for a form: the documented fields for the entity type, plus any
+ * extra keys present on `entity` (edited as JSON so nothing gets lost).
+ */
+export function formFields(entityType: EntityType, entity?: Record<string, unknown>): FieldSpec[] {
+  const specs = ENTITY_FIELDS[entityType] ?? [];
+  if (!entity) return specs;
+  const known = new Set(specs.map((s) => s.key));
+  const extras: FieldSpec[] = Object.keys(entity)
+    .filter((k) => !known.has(k) && !SYSTEM_FIELDS.includes(k))
+    .map((key) => ({ key, kind: "json" }));
+  return [...specs, ...extras];
+}
+
+/** Entity value → form input */
+export function toInput(spec: FieldSpec, value: unknown): string {
+  if (value === undefined || value === null) return "";
+  switch (spec.kind) {
+    case "string[]":
+      return Array.isArray(value) ? value.join(", ") : String(value);
+    case "json":
+      return JSON.stringify(value, null, 2);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Form input → entity value. Empty inputs become `undefined`.
+ * Returns an error message instead when the input can't be parsed.
+ * `stored` is the entity's current value, which an enum keeps accepting
+ * even when it's outside the documented options (legacy data).
+ */
+export function fromInput(spec: FieldSpec, input: string, stored?: unknown): { value: unknown } | { error: string } {
+  const text = input.trim();
+  if (!text) {
+    return spec.required ? { error: "Required" } : { value: undefined };
+  }
+  switch (spec.kind) {
+    case "number": {
+      const n = Number(text);
+      return Number.isFinite(n) ? { value: n } : { error: "Must be a number" };
+    }
+    case "boolean":
+      return { value: text === "true" };
+    case "string[]":
+      return { value: text.split(",").map((s) => s.trim()).filter(Boolean) };
+    case "json":
+      try {
+        return { value: JSON.parse(text) };
+      } catch {
+        return { error: "Invalid JSON" };
+      }
+    case "enum":
+      return spec.options && !spec.options.includes(text) && text !== toInput(spec, stored).trim()
+        ? { error: `Must be one of: ${spec.options.join(", ")}` }
+        : { value: text };
+    default:
+      return { value: spec.kind === "text" ? input : text };
+  }
+}
+
+/**
+ * Compute the fields that differ between the original entity and the edited
+ * values. Cleared fields are sent as `null` so the server removes them.
+ */
+export function changedFields(
+  original: Record<string, unknown>,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const before = original[key];
+    if (value === undefined) {
+      if (before !== undefined && before !== null && before !== "") changes[key] = null;
+      continue;
+    }
+    if (JSON.stringify(value) !== JSON.stringify(before)) changes[key] = value;
+  }
+  return changes;
+}
@@ -0,0 +1,93 @@
+// ─── Force-directed layout ──────────────────────────────────────
+// Small damped simulation: pairwise repulsion, springs along links and a
+// weak pull toward the origin. Mutates node positions in place so it can
+// run every animation frame. `alpha` is the cooling temperature.
+
+export interface ForceNode {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  /** Pinned nodes keep their position and ignore forces */
+  pinned?: boolean;
+}
+
+export interface ForceLink {
+  source: string;
+  target: string;
+  /** Preferred distance between the endpoints */
+  length: number;
+}
+
+const REPULSION = 9000;
+const SPRING = 0.04;
+const GRAVITY = 0.01;
+const DAMPING = 0.6;
+const MIN_DIST_SQ = 100;
+
+/** Below this the layout is considered settled */
+export const ALPHA_MIN = 0.005;
+export const ALPHA_DECAY = 0.98;
+
+/** Advance the simulation one step at the given temperature */
+export function stepForces(nodes: ForceNode[], links: ForceLink[], alpha: number) {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  // Repulsion (O(n²) — fine for the few hundred nodes an expanded graph has)
+  for (let i = 0; i < nodes.length; i++) {
+    const a = nodes[i];
+    for (let j = i + 1; j < nodes.length; j++) {
+      const b = nodes[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      let distSq = dx * dx + dy * dy;
+      if (distSq === 0) {
+        // Coincident nodes: nudge apart in a deterministic direction
+        dx = (i - j) * 0.1;
+        dy = 0.1;
+        distSq = dx * dx + dy * dy;
+      }
+      distSq = Math.max(distSq, MIN_DIST_SQ);
+      const dist = Math.sqrt(distSq);
+      const force = (REPULSION * alpha) / distSq;
+      const fx = (dx / dist) * force;
+      const fy = (dy / dist) * force;
+      a.vx -= fx;
+      a.vy -= fy;
+      b.vx += fx;
+      b.vy += fy;
+    }
+  }
+
+  // Springs
+  for (const link of links) {
+    const a = byId.get(link.source);
+    const b = byId.get(link.target);
+    if (!a || !b || a === b) continue;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = (dist - link.length) * SPRING * alpha * 10;
+    const fx = (dx / dist) * force;
+    const fy = (dy / dist) * force;
+    a.vx += fx;
+    a.vy += fy;
+    b.vx -= fx;
+    b.vy -= fy;
+  }
+
+  for (const n of nodes) {
+    if (n.pinned) {
+      n.vx = 0;
+      n.vy = 0;
+      continue;
+    }
+    n.vx -= n.x * GRAVITY * alpha;
+    n.vy -= n.y * GRAVITY * alpha;
+    n.vx *= DAMPING;
+    n.vy *= DAMPING;
+    n.x += n.vx;
+    n.y += n.vy;
+  }
+}
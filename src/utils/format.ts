@@ -0,0 +1,5 @@
+/** Field key → readable label: "starSystemId" → "Star System Id", "dark_matter" → "Dark matter" */
+export function formatLabel(key: string): string {
+  const spaced = key.replace(/([A-Z])/g, " $1").replace(/[_-]/g, " ").trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
@@ -0,0 +1,84 @@
+// ─── Fuzzy name matching ────────────────────────────────────────
+// Query characters must appear in order in the text. Contiguous runs,
+// word starts and an early first match score higher, so "ken" ranks
+// "Kenari Prime" above "Outer Keldan Nebula".
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indices into the text of the matched characters, for highlighting */
+  indices: number[];
+}
+
+export interface FuzzyResult<T> extends FuzzyMatch {
+  item: T;
+}
+
+function isWordStart(text: string, i: number): boolean {
+  return i === 0 || /[\s\-_'.]/.test(text[i - 1]);
+}
+
+/** Score `text` against `query`; null when the query isn't a subsequence */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return null;
+  const t = text.toLowerCase();
+
+  // A plain substring beats any scattered match; prefer one at a word start
+  let at = -1;
+  for (let i = t.indexOf(q); i !== -1; i = t.indexOf(q, i + 1)) {
+    if (at === -1) at = i;
+    if (isWordStart(t, i)) {
+      at = i;
+      break;
+    }
+  }
+  if (at !== -1) {
+    const indices = Array.from({ length: q.length }, (_, k) => at + k);
+    const score = 100 + q.length * 4 + (isWordStart(t, at) ? 20 : 0) - at - (t.length - q.length) * 0.1;
+    return { score, indices };
+  }
+
+  // Greedy in-order scan; jumping ahead to word starts can strand later
+  // characters, so fall back to the plain scan when it does
+  return scan(q, t, true) ?? scan(q, t, false);
+}
+
+function scan(q: string, t: string, preferWordStarts: boolean): FuzzyMatch | null {
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const ch of q) {
+    if (ch === " ") continue;
+    let i = t.indexOf(ch, from);
+    if (i === -1) return null;
+    if (preferWordStarts) {
+      for (let j = i; j !== -1 && j - i < 6; j = t.indexOf(ch, j + 1)) {
+        if (isWordStart(t, j)) {
+          i = j;
+          break;
+        }
+      }
+    }
+    const prev = indices[indices.length - 1];
+    score += 1;
+    if (prev !== undefined && i === prev + 1) score += 3;
+    else if (prev !== undefined) score -= Math.min(i - prev - 1, 5) * 0.5;
+    if (isWordStart(t, i)) score += 2;
+    indices.push(i);
+    from = i + 1;
+  }
+  if (indices.length === 0) return null;
+  return { score: score - indices[0] * 0.2, indices };
+}
+
+/** Items matching `query`, best first */
+export function fuzzySearch<T>(items: T[], query: string, text: (item: T) => string, limit = 20): FuzzyResult<T>[] {
+  const results: FuzzyResult<T>[] = [];
+  for (const item of items) {
+    const m = fuzzyMatch(query, text(item));
+    if (m) results.push({ item, ...m });
+  }
+  return results
+    .sort((a, b) => b.score - a.score || text(a.item).localeCompare(text(b.item)))
+    .slice(0, limit);
+}
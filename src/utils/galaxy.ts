@@ -0,0 +1,76 @@
+// ─── Galactic coordinates ───────────────────────────────────────
+// Positions are stored cylindrically around the galactic core:
+// azimuth in degrees, distance from the core, elevation above the plane.
+
+import type { GalacticPosition, RegionBounds } from "../types";
+
+export const DEG2RAD = Math.PI / 180;
+
+/** Convert cylindrical (azimuth°, distance, elevation) → Cartesian */
+export function cylToCartesian(azimuth: number, distance: number, elevation: number): [number, number, number] {
+  const a = azimuth * DEG2RAD;
+  return [
+    distance * Math.cos(a),
+    elevation,
+    distance * Math.sin(a),
+  ];
+}
+
+/** Map spectral class to hex color */
+export function spectralColor(spectralClass?: string): string {
+  const map: Record<string, string> = {
+    O: "#5c7aff",
+    B: "#7a9fff",
+    A: "#a4bfff",
+    F: "#f5f0ff",
+    G: "#ffe44d",
+    K: "#ff8c00",
+    M: "#ff4500",
+  };
+  return map[spectralClass?.toUpperCase() ?? ""] ?? "#ffffff";
+}
+
+/** Star display radius — brighter bigger */
+export function starDisplayRadius(spectralClass?: string, stellarRadius = 1): number {
+  const base = 0.12;
+  const scale = spectralClass === "O" || spectralClass === "B" ? 1.6 :
+    spectralClass === "F" ? 1.2 :
+    spectralClass === "G" ? 1.0 :
+    spectralClass === "K" ? 0.85 :
+    spectralClass === "M" ? 0.65 : 1;
+  return base * scale * Math.max(0.6, Math.min(stellarRadius, 2));
+}
+
+/** Azimuth sweep of a region in degrees, allowing bounds that wrap past 360° */
+export function azimuthSpan(bounds: RegionBounds): number {
+  const span = bounds.azimuthEnd - bounds.azimuthStart;
+  return span <= 0 ? span + 360 : Math.min(span, 360);
+}
+
+/** Midpoint of a region's bounds, used when it has no explicit `center` */
+export function boundsCenter(bounds: RegionBounds): GalacticPosition {
+  return {
+    azimuth: bounds.azimuthStart + azimuthSpan(bounds) / 2,
+    distance: (bounds.distanceMin + bounds.distanceMax) / 2,
+    elevation: ((bounds.elevationMin ?? 0) + (bounds.elevationMax ?? 0)) / 2,
+  };
+}
+
+/** Whether a position falls inside a region's sector (missing elevations are unbounded) */
+export function regionContains(bounds: RegionBounds, position: GalacticPosition): boolean {
+  const offset = (((position.azimuth - bounds.azimuthStart) % 360) + 360) % 360;
+  return (
+    offset <= azimuthSpan(bounds) &&
+    position.distance >= bounds.distanceMin &&
+    position.distance <= bounds.distanceMax &&
+    position.elevation >= (bounds.elevationMin ?? -Infinity) &&
+    position.elevation <= (bounds.elevationMax ?? Infinity)
+  );
+}
+
+/** Straight-line distance between two galactic positions */
+export function galacticDistance(a: GalacticPosition, b: GalacticPosition): number {
+  const [ax, ay, az] = cylToCartesian(a.azimuth, a.distance, a.elevation);
+  const [bx, by, bz] = cylToCartesian(b.azimuth, b.distance, b.elevation);
+  return Math.hypot(ax - bx, ay - by, az - bz);
+}
@@ -0,0 +1,267 @@
+// ─── Procedural galaxy backdrop ─────────────────────────────────
+// Particle cloud generated from a world's galaxy settings. Coordinates
+// are produced in settings units (light-years) and multiplied by `scale`
+// so they land in the same space as star system positions. A seeded PRNG
+// makes every world look the same on every visit.
+
+import type { WorldSettings } from "../types";
+
+export type GalaxyShape = "spiral" | "barred" | "elliptical" | "ring" | "lenticular" | "irregular";
+
+export interface GalaxyParams {
+  shape: GalaxyShape;
+  radius: number;
+  armCount: number;
+  /** Radians of extra rotation the arms gain per galaxy radius (×2π) */
+  armWinding: number;
+  barLength: number;
+  bulgeRadius: number;
+  diskThickness: number;
+  ellipticity: number;
+  ringInnerRadius: number;
+  ringOuterRadius: number;
+}
+
+export interface GalaxyParticles {
+  positions: Float32Array;
+  colors: Float32Array;
+  count: number;
+}
+
+const DEFAULT_RADIUS = 50000;
+
+const SHAPE_ALIASES: Record<string, GalaxyShape> = {
+  spiral: "spiral",
+  barred: "barred",
+  "barred-spiral": "barred",
+  "barred spiral": "barred",
+  elliptical: "elliptical",
+  ring: "ring",
+  lenticular: "lenticular",
+  irregular: "irregular",
+};
+
+const clampPositive = (v: number | undefined, fallback: number) => (v !== undefined && v > 0 ? v : fallback);
+
+/** Fill in missing galaxy settings with proportions typical for the shape */
+export function galaxyParams(settings: WorldSettings | undefined): GalaxyParams {
+  const s = settings ?? {};
+  const shape = SHAPE_ALIASES[s.galaxyShape?.trim().toLowerCase() ?? ""] ?? "spiral";
+  const radius = clampPositive(s.galaxyRadius, DEFAULT_RADIUS);
+  const ringOuter = Math.min(radius, clampPositive(s.galaxyRingOuterRadius, radius * 0.8));
+  return {
+    shape,
+    radius,
+    armCount: Math.max(1, Math.round(clampPositive(s.galaxyArmCount, 4))),
+    armWinding: clampPositive(s.galaxyArmWindingAngle, 0.5),
+    barLength: clampPositive(s.galaxyBarLength, shape === "barred" ? radius * 0.3 : 0),
+    bulgeRadius: clampPositive(s.galaxyBulgeRadius, radius * 0.1),
+    diskThickness: clampPositive(s.galaxyDiskThickness, radius * (shape === "lenticular" ? 0.05 : 0.02)),
+    ellipticity: Math.min(0.9, Math.max(0, s.galaxyEllipticity ?? 0.3)),
+    ringInnerRadius: Math.min(ringOuter, clampPositive(s.galaxyRingInnerRadius, radius * 0.5)),
+    ringOuterRadius: ringOuter,
+  };
+}
+
+// ─── Seeded randomness ──────────────────────────────────────────
+/** 32-bit FNV-1a hash of a string, used as a PRNG seed */
+export function hashSeed(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: small, fast, good enough for scattering particles */
+function createRandom(seed: number) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  /** Standard normal via Box–Muller */
+  const gauss = () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next());
+  return { next, gauss };
+}
+
+// ─── Colors ─────────────────────────────────────────────────────
+const CORE_COLOR: [number, number, number] = [1.0, 0.85, 0.6];
+const DISK_COLOR: [number, number, number] = [0.75, 0.82, 1.0];
+const NEBULA_COLOR: [number, number, number] = [1.0, 0.55, 0.75];
+const OLD_COLOR: [number, number, number] = [1.0, 0.75, 0.55];
+
+function mix(a: [number, number, number], b: [number, number, number], t: number): [number, number, number] {
+  const k = Math.min(1, Math.max(0, t));
+  return [a[0] + (b[0] - a[0]) * k, a[1] + (b[1] - a[1]) * k, a[2] + (b[2] - a[2]) * k];
+}
+
+// ─── Generation ─────────────────────────────────────────────────
+/**
+ * Scatter `count` particles for the galaxy described by `params`.
+ * The result is in scene units: settings lengths × `scale`.
+ */
+export function generateGalaxy(params: GalaxyParams, seed: number, count: number, scale: number): GalaxyParticles {
+  const rand = createRandom(seed);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const R = params.radius;
+  const halfThickness = params.diskThickness / 2;
+
+  let i = 0;
+  const emit = (x: number, y: number, z: number, color: [number, number, number], brightness = 1) => {
+    if (i >= count) return;
+    const b = brightness * (0.55 + rand.next() * 0.45);
+    positions.set([x * scale, y * scale, z * scale], i * 3);
+    colors.set([color[0] * b, color[1] * b, color[2] * b], i * 3);
+    i++;
+  };
+
+  const bulge = (n: number, radius: number, flatten = 0.6) => {
+    for (let k = 0; k < n; k++) {
+      const r = Math.abs(rand.gauss()) * radius * 0.5;
+      const theta = rand.next() * Math.PI * 2;
+      const phi = Math.acos(2 * rand.next() - 1);
+      emit(
+        r * Math.sin(phi) * Math.cos(theta),
+        r * Math.cos(phi) * flatten,
+        r * Math.sin(phi) * Math.sin(theta),
+        mix(CORE_COLOR, OLD_COLOR, r / radius),
+        1.2
+      );
+    }
+  };
+
+  /** Exponential disk with scale length R/3 */
+  const disk = (n: number, innerRadius = 0) => {
+    for (let k = 0; k < n; k++) {
+      const r = innerRadius + -Math.log(1 - rand.next() * 0.95) * (R / 3);
+      if (r > R) continue;
+      const theta = rand.next() * Math.PI * 2;
+      emit(r * Math.cos(theta), rand.gauss() * halfThickness, r * Math.sin(theta), mix(OLD_COLOR, DISK_COLOR, r / R), 0.6);
+    }
+  };
+
+  /** Arms wind outward from `startRadius`; barred galaxies start them at the bar ends */
+  const arms = (n: number, startRadius: number) => {
+    for (let k = 0; k < n; k++) {
+      const arm = k % params.armCount;
+      const t = Math.pow(rand.next(), 0.7);
+      const r = startRadius + t * (R - startRadius);
+      const theta = (arm / params.armCount) * Math.PI * 2 + t * params.armWinding * Math.PI * 4;
+      // Arms fan out toward the rim
+      const spread = (0.04 + 0.1 * t) * R;
+      const nebula = rand.next() < 0.06;
+      emit(
+        r * Math.cos(theta) + rand.gauss() * spread,
+        rand.gauss() * halfThickness * (1 - 0.5 * t),
+        r * Math.sin(theta) + rand.gauss() * spread,
+        nebula ? NEBULA_COLOR : mix(CORE_COLOR, DISK_COLOR, t * 1.5),
+        nebula ? 1.3 : 1
+      );
+    }
+  };
+
+  switch (params.shape) {
+    case "spiral":
+      bulge(count * 0.15, params.bulgeRadius);
+      arms(count * 0.65, params.bulgeRadius * 0.5);
+      disk(count * 0.2);
+      break;
+
+    case "barred": {
+      const half = params.barLength / 2;
+      bulge(count * 0.1, params.bulgeRadius);
+      for (let k = 0; k < count * 0.15; k++) {
+        const x = (rand.next() * 2 - 1) * half;
+        const w = params.bulgeRadius * 0.35 * (1 - (0.5 * Math.abs(x)) / Math.max(half, 1));
+        emit(x, rand.gauss() * halfThickness, rand.gauss() * w, CORE_COLOR, 1.1);
+      }
+      arms(count * 0.55, half);
+      disk(count * 0.2);
+      break;
+    }
+
+    case "elliptical": {
+      // Triaxial Gaussian: ellipticity squashes the minor axes
+      const minor = 1 - params.ellipticity;
+      for (let k = 0; k < count; k++) {
+        const x = rand.gauss() * R * 0.35;
+        const y = rand.gauss() * R * 0.35 * minor * 0.8;
+        const z = rand.gauss() * R * 0.35 * minor;
+        const r = Math.sqrt(x * x + y * y + z * z);
+        emit(x, y, z, mix(CORE_COLOR, OLD_COLOR, r / R), r < R * 0.15 ? 1.2 : 0.8);
+      }
+      break;
+    }
+
+    case "ring": {
+      bulge(count * 0.2, params.bulgeRadius);
+      const mid = (params.ringInnerRadius + params.ringOuterRadius) / 2;
+      const width = Math.max((params.ringOuterRadius - params.ringInnerRadius) / 2, R * 0.02);
+      for (let k = 0; k < count * 0.7; k++) {
+        const r = mid + rand.gauss() * width * 0.6;
+        const theta = rand.next() * Math.PI * 2;
+        const nebula = rand.next() < 0.08;
+        emit(
+          r * Math.cos(theta),
+          rand.gauss() * halfThickness,
+          r * Math.sin(theta),
+          nebula ? NEBULA_COLOR : DISK_COLOR,
+          nebula ? 1.3 : 1
+        );
+      }
+      disk(count * 0.1);
+      break;
+    }
+
+    case "lenticular":
+      bulge(count * 0.35, params.bulgeRadius * 1.5, 0.7);
+      disk(count * 0.65);
+      break;
+
+    case "irregular": {
+      // A handful of clumps scattered over the disk
+      const clumps = 4 + Math.floor(rand.next() * 5);
+      const centers = Array.from({ length: clumps }, () => {
+        const r = rand.next() * R * 0.7;
+        const theta = rand.next() * Math.PI * 2;
+        return { x: r * Math.cos(theta), z: r * Math.sin(theta), size: R * (0.1 + rand.next() * 0.2) };
+      });
+      for (let k = 0; k < count; k++) {
+        const c = centers[k % clumps];
+        const nebula = rand.next() < 0.1;
+        emit(
+          c.x + rand.gauss() * c.size,
+          rand.gauss() * halfThickness * 2,
+          c.z + rand.gauss() * c.size,
+          nebula ? NEBULA_COLOR : mix(DISK_COLOR, OLD_COLOR, rand.next()),
+          nebula ? 1.3 : 0.9
+        );
+      }
+      break;
+    }
+  }
+
+  // Rounding and skipped samples can leave a few slots empty; fill them with disk
+  while (i < count) disk(count - i);
+
+  return { positions, colors, count };
+}
+
+/**
+ * Scene units per settings unit. Positions that already fit inside
+ * `galaxyRadius` at a comparable magnitude are taken to share its unit.
+ * Otherwise the galaxy is sized to enclose them, with the outermost mapped
+ * system at 90% of the radius; with nothing mapped the radius spans
+ * `fallbackRadius` scene units.
+ */
+export function galaxyScale(params: GalaxyParams, farthestDistance: number, fallbackRadius = 30): number {
+  if (farthestDistance > params.radius * 0.1 && farthestDistance <= params.radius) return 1;
+  const sceneRadius = farthestDistance > 0 ? farthestDistance / 0.9 : fallbackRadius;
+  return sceneRadius / params.radius;
+}
@@ -0,0 +1,159 @@
+// ─── Hyperlane network + route planning ─────────────────────────
+// Lanes come from star systems' `connectedSystemIds`, treated as
+// two-way links. Routes are found with Dijkstra over those lanes, with
+// optional penalties or exclusions for hazardous systems and for systems
+// in poorly navigable regions.
+
+import type { GalacticPosition, GalacticRegion, RegionBounds, StarSystem } from "../types";
+import { galacticDistance, regionContains } from "./galaxy";
+
+export type RoutableSystem = Pick<StarSystem, "id" | "connectedSystemIds" | "hazards" | "galacticRegionId"> & {
+  position: GalacticPosition;
+};
+
+export type RoutableRegion = Pick<GalacticRegion, "id" | "navigability"> & { bounds?: RegionBounds };
+
+export interface Lane {
+  a: string;
+  b: string;
+  length: number;
+}
+
+export type RouteMetric = "jumps" | "distance";
+
+/** How a hazard source affects routing */
+export type HazardHandling = "ignore" | "penalize" | "avoid";
+
+export interface RouteOptions {
+  metric: RouteMetric;
+  /** Systems with entries in `hazards` */
+  hazards: HazardHandling;
+  /** Systems in regions whose `navigability` is dangerous or uncharted */
+  navigability: HazardHandling;
+}
+
+export interface Route {
+  systemIds: string[];
+  jumps: number;
+  distance: number;
+  /** Total weighted cost the planner minimised */
+  cost: number;
+}
+
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = { metric: "jumps", hazards: "penalize", navigability: "penalize" };
+
+/** Cost multiplier for entering a system, by its region's navigability */
+const NAVIGABILITY_PENALTY: Record<string, number> = {
+  safe: 1,
+  moderate: 1.25,
+  uncharted: 1.75,
+  dangerous: 2.5,
+};
+
+/** Extra cost multiplier per listed hazard */
+const HAZARD_PENALTY = 0.5;
+
+/** Navigability levels a route avoids when told to */
+const RISKY_NAVIGABILITY = new Set(["dangerous", "uncharted"]);
+
+/** Unique two-way lanes between known systems */
+export function buildLanes(systems: RoutableSystem[]): Lane[] {
+  const byId = new Map(systems.map((s) => [s.id, s]));
+  const seen = new Set<string>();
+  const lanes: Lane[] = [];
+  for (const sys of systems) {
+    for (const otherId of sys.connectedSystemIds ?? []) {
+      const other = byId.get(otherId);
+      if (!other || other.id === sys.id) continue;
+      const key = sys.id < other.id ? `${sys.id}|${other.id}` : `${other.id}|${sys.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      lanes.push({ a: sys.id, b: other.id, length: galacticDistance(sys.position, other.position) });
+    }
+  }
+  return lanes;
+}
+
+/** The region a system lies in: its `galacticRegionId`, else whichever region's bounds contain it */
+export function regionOf<R extends RoutableRegion>(system: RoutableSystem, regions: R[]): R | undefined {
+  return (
+    regions.find((r) => r.id === system.galacticRegionId) ??
+    regions.find((r) => r.bounds && regionContains(r.bounds, system.position))
+  );
+}
+
+/**
+ * Cheapest route from `originId` to `destinationId`, or null when the
+ * destination can't be reached. Impassable regions are never entered;
+ * the endpoints themselves are always allowed.
+ */
+export function planRoute(
+  systems: RoutableSystem[],
+  regions: RoutableRegion[],
+  originId: string,
+  destinationId: string,
+  options: RouteOptions
+): Route | null {
+  const byId = new Map(systems.map((s) => [s.id, s]));
+  if (!byId.has(originId) || !byId.has(destinationId)) return null;
+
+  // Cost multiplier for entering each system (Infinity = excluded)
+  const penalty = new Map<string, number>();
+  for (const sys of systems) {
+    let p = 1;
+    const nav = regionOf(sys, regions)?.navigability;
+    if (nav === "impassable") p = Infinity;
+    else if (nav && options.navigability === "avoid" && RISKY_NAVIGABILITY.has(nav)) p = Infinity;
+    else if (nav && options.navigability === "penalize") p *= NAVIGABILITY_PENALTY[nav] ?? 1;
+
+    const hazards = sys.hazards?.length ?? 0;
+    if (hazards > 0 && options.hazards === "avoid") p = Infinity;
+    else if (options.hazards === "penalize") p *= 1 + hazards * HAZARD_PENALTY;
+
+    penalty.set(sys.id, p);
+  }
+  // Endpoints are where the GM said to go; never exclude them
+  for (const id of [originId, destinationId]) {
+    if (penalty.get(id) === Infinity) penalty.set(id, 1);
+  }
+
+  const neighbours = new Map<string, Lane[]>();
+  for (const lane of buildLanes(systems)) {
+    neighbours.set(lane.a, [...(neighbours.get(lane.a) ?? []), lane]);
+    neighbours.set(lane.b, [...(neighbours.get(lane.b) ?? []), lane]);
+  }
+
+  // Dijkstra with a linear scan — maps have hundreds of systems, not millions
+  const cost = new Map<string, number>([[originId, 0]]);
+  const previous = new Map<string, string>();
+  const done = new Set<string>();
+  for (;;) {
+    let current: string | null = null;
+    for (const [id, c] of cost) {
+      if (!done.has(id) && (current === null || c < cost.get(current)!)) current = id;
+    }
+    if (current === null) return null;
+    if (current === destinationId) break;
+    done.add(current);
+
+    for (const lane of neighbours.get(current) ?? []) {
+      const next = lane.a === current ? lane.b : lane.a;
+      const p = penalty.get(next) ?? 1;
+      if (done.has(next) || p === Infinity) continue;
+      const step = (options.metric === "jumps" ? 1 : lane.length) * p;
+      const candidate = cost.get(current)! + step;
+      if (candidate < (cost.get(next) ?? Infinity)) {
+        cost.set(next, candidate);
+        previous.set(next, current);
+      }
+    }
+  }
+
+  const systemIds = [destinationId];
+  while (systemIds[0] !== originId) systemIds.unshift(previous.get(systemIds[0])!);
+  let distance = 0;
+  for (let i = 1; i < systemIds.length; i++) {
+    distance += galacticDistance(byId.get(systemIds[i - 1])!.position, byId.get(systemIds[i])!.position);
+  }
+  return { systemIds, jumps: systemIds.length - 1, distance, cost: cost.get(destinationId)! };
+}
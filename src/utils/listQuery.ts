@@ -0,0 +1,84 @@
+import type { EntityType } from "../types";
+import { ENTITY_FIELDS, LIST_FILTERS } from "../types/fields";
+import type { QueryFilter } from "../api/tools";
+
+// ─── Entity list query ⇄ URL search params ─────────────────────
+// `?status=alive&status=exiled&tags=pilot&sort=name&dir=desc`
+// Repeated keys are OR-ed (`in` / `array-contains-any`), different keys AND-ed.
+
+export type SortDirection = "asc" | "desc";
+
+export interface ListQuery {
+  /** List filter key → accepted values */
+  filters: Record<string, string[]>;
+  tags: string[];
+  sort: { field: string; direction: SortDirection } | null;
+}
+
+const SORT_PARAM = "sort";
+const DIR_PARAM = "dir";
+const TAGS_PARAM = "tags";
+
+export function hasTags(entityType: EntityType): boolean {
+  return ENTITY_FIELDS[entityType].some((f) => f.key === "tags");
+}
+
+/** Fields offered in the sort dropdown: the display name, numbers, timestamps */
+export function sortFields(entityType: EntityType): string[] {
+  const specs = ENTITY_FIELDS[entityType];
+  const label = specs.find((f) => f.key === "name" || f.key === "title")?.key;
+  const numeric = specs.filter((f) => f.kind === "number").map((f) => f.key);
+  return [...(label ? [label] : []), ...numeric, "createdAt", "updatedAt"];
+}
+
+export function readListQuery(params: URLSearchParams, entityType: EntityType): ListQuery {
+  const filters: Record<string, string[]> = {};
+  for (const key of LIST_FILTERS[entityType] ?? []) {
+    const values = params.getAll(key).filter(Boolean);
+    if (values.length > 0) filters[key] = values;
+  }
+  const field = params.get(SORT_PARAM);
+  return {
+    filters,
+    tags: hasTags(entityType) ? params.getAll(TAGS_PARAM).filter(Boolean) : [],
+    sort: field ? { field, direction: params.get(DIR_PARAM) === "desc" ? "desc" : "asc" } : null,
+  };
+}
+
+/** Write the query into `params`, leaving unrelated params (e.g. `q`) alone */
+export function writeListQuery(
+  params: URLSearchParams,
+  entityType: EntityType,
+  query: ListQuery
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of [...(LIST_FILTERS[entityType] ?? []), TAGS_PARAM, SORT_PARAM, DIR_PARAM]) {
+    next.delete(key);
+  }
+  for (const [key, values] of Object.entries(query.filters)) {
+    for (const v of values) next.append(key, v);
+  }
+  for (const tag of query.tags) next.append(TAGS_PARAM, tag);
+  if (query.sort) {
+    next.set(SORT_PARAM, query.sort.field);
+    if (query.sort.direction === "desc") next.set(DIR_PARAM, "desc");
+  }
+  return next;
+}
+
+export function isListQueryActive(query: ListQuery): boolean {
+  return Object.keys(query.filters).length > 0 || query.tags.length > 0 || query.sort !== null;
+}
+
+/** `query_world` filters for a list query */
+export function toQueryFilters(query: ListQuery): QueryFilter[] {
+  const filters: QueryFilter[] = Object.entries(query.filters).map(([field, values]) =>
+    values.length === 1
+      ? { field, operator: "==", value: values[0] }
+      : { field, operator: "in", value: values }
+  );
+  if (query.tags.length > 0) {
+    filters.push({ field: "tags", operator: "array-contains-any", value: query.tags });
+  }
+  return filters;
+}
@@ -0,0 +1,78 @@
+// ─── Galaxy map modes ───────────────────────────────────────────
+// Physical shows stars by spectral class. Political tints systems and
+// regions by controlling faction; strategic turns strategicValue into a
+// heat map.
+
+import type { GalacticRegion, StarSystem } from "../types";
+import { UNCLAIMED_COLOR, strategicColor } from "../theme/mapColors";
+
+export type MapMode = "physical" | "political" | "strategic";
+
+export const MAP_MODE_LABELS: Record<MapMode, string> = {
+  physical: "Physical",
+  political: "Political",
+  strategic: "Strategic",
+};
+
+export interface MapModeState {
+  mode: MapMode;
+  factionColors: Record<string, string>;
+  /** Show only this faction's holdings ("" = all) */
+  factionFilter: string;
+}
+
+export interface MarkerStyle {
+  /** Replaces the spectral color */
+  tint?: string;
+  contested?: boolean;
+  dimmed?: boolean;
+}
+
+export interface OverlayStyle {
+  color: string;
+  opacity?: number;
+  hidden?: boolean;
+}
+
+/** How a star marker is drawn in the current mode */
+export function systemStyle(
+  system: Pick<StarSystem, "controllingFactionId" | "status" | "strategicValue">,
+  state: MapModeState
+): MarkerStyle {
+  switch (state.mode) {
+    case "physical":
+      return {};
+    case "political": {
+      const faction = system.controllingFactionId;
+      return {
+        tint: faction ? state.factionColors[faction] ?? UNCLAIMED_COLOR : UNCLAIMED_COLOR,
+        contested: system.status === "contested",
+        dimmed: !!state.factionFilter && faction !== state.factionFilter,
+      };
+    }
+    case "strategic":
+      return { tint: strategicColor(system.strategicValue) };
+  }
+}
+
+/** How a region overlay is drawn in the current mode (undefined = its own color) */
+export function regionStyle(
+  region: Pick<GalacticRegion, "controllingFactionId" | "strategicValue">,
+  state: MapModeState
+): OverlayStyle | undefined {
+  switch (state.mode) {
+    case "physical":
+      return undefined;
+    case "political": {
+      const faction = region.controllingFactionId;
+      if (!faction) return { color: UNCLAIMED_COLOR, opacity: 0.05, hidden: !!state.factionFilter };
+      return {
+        color: state.factionColors[faction] ?? UNCLAIMED_COLOR,
+        opacity: 0.18,
+        hidden: !!state.factionFilter && faction !== state.factionFilter,
+      };
+    }
+    case "strategic":
+      return { color: strategicColor(region.strategicValue), opacity: region.strategicValue ? 0.16 : 0.05 };
+  }
+}
@@ -0,0 +1,100 @@
+// ─── Entity references → star systems ───────────────────────────
+// Trade routes and conflict theaters point at systems, planets or
+// locations. The galaxy map can only draw systems, so every reference is
+// walked up (location → parent location → planet → system) to the
+// system it sits in.
+
+import type { Conflict, Economy, Planet, StarSystem, TradeRisk, WorldLocation } from "../types";
+
+export type SystemResolver = (entityId: string) => string | undefined;
+
+/** How many parentLocationId hops to follow before giving up (guards cycles) */
+const MAX_LOCATION_DEPTH = 8;
+
+export function systemResolver(
+  systems: Pick<StarSystem, "id">[],
+  planets: Pick<Planet, "id" | "starSystemId">[],
+  locations: Pick<WorldLocation, "id" | "planetId" | "parentLocationId">[]
+): SystemResolver {
+  const systemIds = new Set(systems.map((s) => s.id));
+  const planetSystem = new Map(planets.map((p) => [p.id, p.starSystemId]));
+  const locationById = new Map(locations.map((l) => [l.id, l]));
+
+  return (entityId) => {
+    if (systemIds.has(entityId)) return entityId;
+    const viaPlanet = (planetId?: string) => {
+      const systemId = planetId ? planetSystem.get(planetId) : undefined;
+      return systemId && systemIds.has(systemId) ? systemId : undefined;
+    };
+    if (planetSystem.has(entityId)) return viaPlanet(entityId);
+
+    let location = locationById.get(entityId);
+    for (let depth = 0; location && depth < MAX_LOCATION_DEPTH; depth++) {
+      const systemId = viaPlanet(location.planetId);
+      if (systemId) return systemId;
+      location = location.parentLocationId ? locationById.get(location.parentLocationId) : undefined;
+    }
+    return undefined;
+  };
+}
+
+export interface TradeFlow {
+  key: string;
+  economyId: string;
+  economyName: string;
+  fromSystemId: string;
+  toSystemId: string;
+  goods: string[];
+  risk: TradeRisk;
+}
+
+/** Every economy's trade routes whose ends resolve to two different systems */
+export function resolveTradeFlows(economies: Economy[], resolve: SystemResolver): TradeFlow[] {
+  return economies.flatMap((economy) =>
+    (economy.tradeRoutes ?? []).flatMap((route, i) => {
+      const fromSystemId = resolve(route.fromLocationId);
+      const toSystemId = resolve(route.toLocationId);
+      if (!fromSystemId || !toSystemId || fromSystemId === toSystemId) return [];
+      return [
+        {
+          key: `${economy.id}#${i}`,
+          economyId: economy.id,
+          economyName: economy.name,
+          fromSystemId,
+          toSystemId,
+          goods: route.goods ?? [],
+          risk: route.risk ?? "moderate",
+        },
+      ];
+    })
+  );
+}
+
+/** Conflict statuses shown as live theaters */
+export const ACTIVE_CONFLICT_STATUSES: NonNullable<Conflict["status"]>[] = ["active", "escalating", "stalemate"];
+
+export interface Theater {
+  conflictId: string;
+  conflictName: string;
+  status: Conflict["status"];
+  systemIds: string[];
+  /** Belligerent factions, aggressors first */
+  factionIds: string[];
+}
+
+const ROLE_ORDER = ["aggressor", "defender", "ally", "neutral-observer"];
+
+export function resolveTheaters(conflicts: Conflict[], resolve: SystemResolver): Theater[] {
+  return conflicts
+    .filter((c) => c.status && ACTIVE_CONFLICT_STATUSES.includes(c.status))
+    .map((c) => {
+      const refs = [...(c.theaterSystemIds ?? []), ...(c.theaterPlanetIds ?? []), ...(c.theaterLocationIds ?? [])];
+      const systemIds = [...new Set(refs.map(resolve).filter((id): id is string => !!id))];
+      const factionIds = [...(c.belligerents ?? [])]
+        .filter((b) => b.role !== "neutral-observer")
+        .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role))
+        .map((b) => b.factionId);
+      return { conflictId: c.id, conflictName: c.name, status: c.status, systemIds, factionIds };
+    })
+    .filter((t) => t.systemIds.length > 0);
+}
@@ -0,0 +1,67 @@
+// ─── Galaxy map view ⇄ URL search params ───────────────────────
+// `#/worlds/w1/galaxy/sys-1?planet=p-3&speed=0.5&day=1110330&cam=12.5,8,30,10,0,22`
+// The system being viewed stays in the route; these params carry what's
+// selected inside it and where the camera is, so a view can be shared.
+
+export const DEFAULT_TIME_SPEED = 0.25;
+export const MAX_TIME_SPEED = 2;
+
+export interface CameraView {
+  position: [number, number, number];
+  /** Orbit controls target */
+  target: [number, number, number];
+}
+
+export interface MapView {
+  starId: string;
+  planetId: string;
+  timeSpeed: number;
+  /** In-world day the clock was last set to (see utils/calendar) */
+  day: number | null;
+  camera: CameraView | null;
+}
+
+const STAR_PARAM = "star";
+const PLANET_PARAM = "planet";
+const SPEED_PARAM = "speed";
+const DAY_PARAM = "day";
+const CAMERA_PARAM = "cam";
+
+function readCamera(value: string | null): CameraView | null {
+  const n = value?.split(",").map(Number);
+  if (!n || n.length !== 6 || n.some((v) => !Number.isFinite(v))) return null;
+  return { position: [n[0], n[1], n[2]], target: [n[3], n[4], n[5]] };
+}
+
+export function readMapView(params: URLSearchParams): MapView {
+  const speed = Number(params.get(SPEED_PARAM));
+  const day = Number(params.get(DAY_PARAM));
+  return {
+    starId: params.get(STAR_PARAM) ?? "",
+    planetId: params.get(PLANET_PARAM) ?? "",
+    timeSpeed:
+      params.has(SPEED_PARAM) && Number.isFinite(speed)
+        ? Math.min(MAX_TIME_SPEED, Math.max(0, speed))
+        : DEFAULT_TIME_SPEED,
+    day: params.has(DAY_PARAM) && Number.isFinite(day) ? day : null,
+    camera: readCamera(params.get(CAMERA_PARAM)),
+  };
+}
+
+/** Apply `patch` to the view in `params`, leaving unrelated params alone */
+export function writeMapView(params: URLSearchParams, patch: Partial<MapView>): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string) => (value ? next.set(key, value) : next.delete(key));
+
+  if (patch.starId !== undefined) set(STAR_PARAM, patch.starId);
+  if (patch.planetId !== undefined) set(PLANET_PARAM, patch.planetId);
+  if (patch.timeSpeed !== undefined) {
+    set(SPEED_PARAM, patch.timeSpeed === DEFAULT_TIME_SPEED ? "" : String(patch.timeSpeed));
+  }
+  if (patch.day !== undefined) set(DAY_PARAM, patch.day === null ? "" : String(Math.round(patch.day)));
+  if (patch.camera !== undefined) {
+    const round = (v: number) => Math.round(v * 100) / 100;
+    set(CAMERA_PARAM, patch.camera ? [...patch.camera.position, ...patch.camera.target].map(round).join(",") : "");
+  }
+  return next;
+}
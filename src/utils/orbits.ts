@@ -0,0 +1,61 @@
+// ─── Keplerian orbits ───────────────────────────────────────────
+// System-view positions are a function of the in-world day rather than
+// an accumulated phase. `currentAngle` is read as the true anomaly at the
+// calendar epoch (day 0) and `orbitalPeriod` in days; the star sits at the
+// ellipse's focus with periapsis along +x before inclination.
+
+import type { PlanetOrbit } from "../types";
+import { DEG2RAD } from "./galaxy";
+
+/** In-world days that pass per second of animation at 1× time speed */
+export const SIM_DAYS_PER_SECOND = 0.1;
+
+type OrbitElements = Pick<PlanetOrbit, "eccentricity" | "inclination" | "orbitalPeriod" | "currentAngle">;
+
+function clampEccentricity(e: number): number {
+  return Math.min(0.99, Math.max(0, e || 0));
+}
+
+/** Eccentric anomaly E for mean anomaly M (Kepler's equation, Newton's method) */
+export function solveKepler(M: number, e: number): number {
+  let E = e < 0.8 ? M : Math.PI;
+  for (let i = 0; i < 30; i++) {
+    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-9) break;
+  }
+  return E;
+}
+
+function meanFromTrue(nu: number, e: number): number {
+  const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(nu / 2), Math.sqrt(1 + e) * Math.cos(nu / 2));
+  return E - e * Math.sin(E);
+}
+
+/** Eccentric anomaly on `day`; orbits without a period stay at their epoch angle */
+export function eccentricAnomalyAt(orbit: OrbitElements, day: number): number {
+  const e = clampEccentricity(orbit.eccentricity);
+  const M0 = meanFromTrue(orbit.currentAngle * DEG2RAD, e);
+  const M = orbit.orbitalPeriod > 0 ? M0 + (2 * Math.PI * day) / orbit.orbitalPeriod : M0;
+  return solveKepler(M, e);
+}
+
+/** Scene-space point on an orbit of semi-major axis `a` at eccentric anomaly `E` */
+export function orbitPoint(
+  a: number,
+  eccentricity: number,
+  inclinationDeg: number,
+  E: number
+): [number, number, number] {
+  const e = clampEccentricity(eccentricity);
+  const b = a * Math.sqrt(1 - e * e);
+  const inc = inclinationDeg * DEG2RAD;
+  const x = a * (Math.cos(E) - e);
+  const z = b * Math.sin(E);
+  return [x, z * Math.sin(inc), z * Math.cos(inc)];
+}
+
+/** Where a body with these elements is on `day`, for a display semi-major axis `a` */
+export function orbitPositionAt(orbit: OrbitElements, a: number, day: number): [number, number, number] {
+  return orbitPoint(a, orbit.eccentricity, orbit.inclination, eccentricAnomalyAt(orbit, day));
+}
@@ -0,0 +1,189 @@
+// ─── Shortest paths between entities ────────────────────────────
+// Bidirectional breadth-first search over relationships. Neighbours are
+// fetched lazily through a caller-supplied function, one BFS level at a
+// time, always growing the smaller frontier.
+
+import type { EntityRef, Relationship } from "../types";
+
+export type PathDirection = "outgoing" | "incoming" | "both";
+
+/** Fetches the relationships touching one entity in the given direction */
+export type NeighbourFetcher = (node: EntityRef, direction: PathDirection) => Promise<Relationship[]>;
+
+export interface EntityPath {
+  /** Entities from start to goal (edges.length + 1 of them) */
+  nodes: EntityRef[];
+  /** edges[i] connects nodes[i] and nodes[i + 1] */
+  edges: Relationship[];
+}
+
+export interface PathSearchResult {
+  paths: EntityPath[];
+  /** Length of the shortest paths, or null when none was found within the hop limit */
+  hops: number | null;
+  /** Entities whose relationships were fetched */
+  explored: number;
+  /** The request or path budget ran out before the search completed */
+  truncated: boolean;
+}
+
+export interface PathSearchOptions {
+  maxHops: number;
+  /**
+   * "both" treats every relationship as traversable either way. A directed
+   * search walks outgoing edges from the start and incoming edges from the
+   * goal, so only source → target chains are found (bidirectional
+   * relationships may be crossed both ways).
+   */
+  directed: boolean;
+  /** Stop fetching after this many entities have been expanded */
+  maxRequests?: number;
+  /** Stop enumerating after this many paths */
+  maxPaths?: number;
+}
+
+interface Link {
+  rel: Relationship;
+  /** The neighbour one step closer to this side's origin */
+  via: string;
+}
+
+interface Side {
+  dist: Map<string, number>;
+  /** Every equally short way back toward the origin */
+  links: Map<string, Link[]>;
+  types: Map<string, string>;
+  frontier: string[];
+  depth: number;
+  direction: PathDirection;
+}
+
+function newSide(origin: EntityRef, direction: PathDirection): Side {
+  return {
+    dist: new Map([[origin.id, 0]]),
+    links: new Map(),
+    types: new Map([[origin.id, origin.type]]),
+    frontier: [origin.id],
+    depth: 0,
+    direction,
+  };
+}
+
+/** The entity across `rel` from `id`, if the edge may be walked from `id` */
+function across(rel: Relationship, id: string, direction: PathDirection): EntityRef | null {
+  if (rel.sourceId === rel.targetId) return null;
+  if (rel.sourceId === id && (direction !== "incoming" || rel.bidirectional)) {
+    return { type: rel.targetType, id: rel.targetId };
+  }
+  if (rel.targetId === id && (direction !== "outgoing" || rel.bidirectional)) {
+    return { type: rel.sourceType, id: rel.sourceId };
+  }
+  return null;
+}
+
+/** Expand one full BFS level of `side`; returns the number of entities fetched */
+async function expandLevel(side: Side, fetchNeighbours: NeighbourFetcher): Promise<number> {
+  const depth = side.depth + 1;
+  const fetched = await Promise.all(
+    side.frontier.map(async (id) => ({
+      id,
+      relationships: await fetchNeighbours({ type: side.types.get(id) ?? "", id }, side.direction),
+    }))
+  );
+
+  const next: string[] = [];
+  for (const { id, relationships } of fetched) {
+    for (const rel of relationships) {
+      const other = across(rel, id, side.direction);
+      if (!other) continue;
+      const known = side.dist.get(other.id);
+      if (known === undefined) {
+        side.dist.set(other.id, depth);
+        side.types.set(other.id, other.type);
+        side.links.set(other.id, [{ rel, via: id }]);
+        next.push(other.id);
+      } else if (known === depth && !side.links.get(other.id)!.some((l) => l.rel.id === rel.id)) {
+        side.links.get(other.id)!.push({ rel, via: id });
+      }
+    }
+  }
+  side.frontier = next;
+  side.depth = depth;
+  return fetched.length;
+}
+
+/** All shortest chains from `id` back to the side's origin, nearest-first */
+function chainsToOrigin(side: Side, id: string, limit: number): { nodes: string[]; edges: Relationship[] }[] {
+  const links = side.links.get(id);
+  if (!links) return [{ nodes: [id], edges: [] }];
+  const chains: { nodes: string[]; edges: Relationship[] }[] = [];
+  for (const link of links) {
+    for (const rest of chainsToOrigin(side, link.via, limit - chains.length)) {
+      chains.push({ nodes: [id, ...rest.nodes], edges: [link.rel, ...rest.edges] });
+      if (chains.length >= limit) return chains;
+    }
+  }
+  return chains;
+}
+
+/**
+ * Find every shortest path between `start` and `goal` of at most
+ * `maxHops` relationships. Parallel relationships between the same pair
+ * of entities yield separate paths.
+ */
+export async function findShortestPaths(
+  start: EntityRef,
+  goal: EntityRef,
+  options: PathSearchOptions,
+  fetchNeighbours: NeighbourFetcher
+): Promise<PathSearchResult> {
+  const { maxHops, directed, maxRequests = 200, maxPaths = 50 } = options;
+
+  if (start.id === goal.id) {
+    return { paths: [{ nodes: [start], edges: [] }], hops: 0, explored: 0, truncated: false };
+  }
+
+  const forward = newSide(start, directed ? "outgoing" : "both");
+  const backward = newSide(goal, directed ? "incoming" : "both");
+  let explored = 0;
+  let truncated = false;
+
+  while (forward.depth + backward.depth < maxHops) {
+    const side = forward.frontier.length <= backward.frontier.length ? forward : backward;
+    if (side.frontier.length === 0) break;
+    if (explored + side.frontier.length > maxRequests) {
+      truncated = true;
+      break;
+    }
+    explored += await expandLevel(side, fetchNeighbours);
+
+    // The first completed level that makes the two searches touch fixes
+    // the shortest length; every shortest path crosses exactly one of
+    // these meeting points.
+    const other = side === forward ? backward : forward;
+    const meeting = side.frontier.filter((id) => other.dist.has(id));
+    if (meeting.length === 0) continue;
+
+    const hops = forward.depth + backward.depth;
+    const paths: EntityPath[] = [];
+    const toRef = (id: string): EntityRef => ({
+      type: forward.types.get(id) ?? backward.types.get(id) ?? "",
+      id,
+    });
+    for (const mid of meeting) {
+      const tails = chainsToOrigin(backward, mid, maxPaths);
+      for (const head of chainsToOrigin(forward, mid, maxPaths)) {
+        const headNodes = [...head.nodes].reverse();
+        const headEdges = [...head.edges].reverse();
+        for (const tail of tails) {
+          const nodes = [...headNodes, ...tail.nodes.slice(1)];
+          paths.push({ nodes: nodes.map(toRef), edges: [...headEdges, ...tail.edges] });
+          if (paths.length >= maxPaths) return { paths, hops, explored, truncated: true };
+        }
+      }
+    }
+    return { paths, hops, explored, truncated };
+  }
+
+  return { paths: [], hops: null, explored, truncated };
+}
@@ -0,0 +1,132 @@
+import type { EntityType } from "../types";
+import { ENTITY_FIELDS, type FieldSpec } from "../types/fields";
+import type { QueryFilter, SearchOperator } from "../api/tools";
+
+// ─── Advanced query builder helpers ─────────────────────────────
+
+export const SEARCH_OPERATORS: { value: SearchOperator; label: string }[] = [
+  { value: "==", label: "equals" },
+  { value: "!=", label: "not equal" },
+  { value: "<", label: "less than" },
+  { value: "<=", label: "at most" },
+  { value: ">", label: "greater than" },
+  { value: ">=", label: "at least" },
+  { value: "array-contains", label: "array contains" },
+  { value: "in", label: "in" },
+  { value: "array-contains-any", label: "array contains any" },
+];
+
+/** Operators whose value is a list (entered comma-separated) */
+export function isListOperator(operator: SearchOperator): boolean {
+  return operator === "in" || operator === "array-contains-any";
+}
+
+/** One editable filter row; `value` is kept as typed */
+export interface FilterRow {
+  field: string;
+  operator: SearchOperator;
+  value: string;
+}
+
+export interface BuiltQuery {
+  entityType: EntityType;
+  /** "query_world" supports any number of filters + sort; "search" one filter */
+  tool: "query_world" | "search";
+  rows: FilterRow[];
+  sort: { field: string; direction: "asc" | "desc" } | null;
+}
+
+export interface SavedQuery extends BuiltQuery {
+  id: string;
+  name: string;
+  savedAt: string;
+}
+
+export function fieldSpec(entityType: EntityType, field: string): FieldSpec | undefined {
+  return ENTITY_FIELDS[entityType].find((f) => f.key === field);
+}
+
+/** Field names offered for an entity type (documented fields + system fields) */
+export function queryableFields(entityType: EntityType): string[] {
+  return ["id", ...ENTITY_FIELDS[entityType].map((f) => f.key), "createdAt", "updatedAt"];
+}
+
+function parseScalar(spec: FieldSpec | undefined, text: string): unknown {
+  if (spec?.kind === "number") {
+    const n = Number(text);
+    return Number.isFinite(n) ? n : text;
+  }
+  if (spec?.kind === "boolean") return text === "true";
+  return text;
+}
+
+/** Convert a row's typed value to what the server expects for its field + operator */
+export function parseFilterValue(entityType: EntityType, row: FilterRow): unknown {
+  const spec = fieldSpec(entityType, row.field);
+  if (isListOperator(row.operator)) {
+    // Array fields compare their elements, which are strings
+    const itemSpec = spec?.kind === "string[]" ? undefined : spec;
+    return row.value
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((s) => parseScalar(itemSpec, s));
+  }
+  return parseScalar(spec?.kind === "string[]" ? undefined : spec, row.value.trim());
+}
+
+/** Rows with both a field and a value; incomplete rows are ignored */
+export function completeRows(rows: FilterRow[]): FilterRow[] {
+  return rows.filter((r) => r.field.trim() && r.value.trim());
+}
+
+/** Tool name + args for a built query (pagination is added by the caller) */
+export function toToolCall(
+  worldId: string,
+  query: BuiltQuery
+): { toolName: string; args: Record<string, unknown> } {
+  const rows = completeRows(query.rows);
+  if (query.tool === "search" && rows.length > 0) {
+    const [row] = rows;
+    return {
+      toolName: `search_${query.entityType}`,
+      args: {
+        worldId,
+        field: row.field.trim(),
+        operator: row.operator,
+        value: parseFilterValue(query.entityType, row),
+      },
+    };
+  }
+  const filters: QueryFilter[] = rows.map((row) => ({
+    field: row.field.trim(),
+    operator: row.operator,
+    value: parseFilterValue(query.entityType, row),
+  }));
+  return {
+    toolName: "query_world",
+    args: {
+      worldId,
+      entityType: query.entityType,
+      ...(filters.length > 0 ? { filters } : {}),
+      ...(query.sort ? { sortBy: query.sort } : {}),
+    },
+  };
+}
+
+// ─── Saved queries (localStorage, per world) ────────────────────
+const storageKey = (worldId: string) => `worldbuilder:savedQueries:${worldId}`;
+
+export function loadSavedQueries(worldId: string): SavedQuery[] {
+  try {
+    const raw = localStorage.getItem(storageKey(worldId));
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as SavedQuery[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedQueries(worldId: string, queries: SavedQuery[]) {
+  localStorage.setItem(storageKey(worldId), JSON.stringify(queries));
+}
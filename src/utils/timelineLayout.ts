@@ -0,0 +1,285 @@
+// ─── Horizontal timeline layout ─────────────────────────────────
+// Everything sits on one axis measured in `sortOrder` units. Events use
+// their sortOrder; anything that only has a date (events without one,
+// conflict start/end dates) is placed by the year the world's calendar
+// reads from that date, as sortOrder is conventionally a year.
+
+import type { Conflict, TimelineEvent } from "../types";
+
+/** Axis position of a date string, or null when it can't be read */
+export type DatePosition = (date: string | undefined) => number | null;
+
+export interface PlacedEvent {
+  event: TimelineEvent;
+  position: number;
+}
+
+export function placeEvents(
+  events: TimelineEvent[],
+  datePosition: DatePosition
+): { placed: PlacedEvent[]; unplaced: TimelineEvent[] } {
+  const placed: PlacedEvent[] = [];
+  const unplaced: TimelineEvent[] = [];
+  for (const event of events) {
+    const position = event.sortOrder ?? datePosition(event.date);
+    if (position === null) unplaced.push(event);
+    else placed.push({ event, position });
+  }
+  placed.sort((a, b) => a.position - b.position);
+  return { placed, unplaced };
+}
+
+export interface EraBand {
+  era: string;
+  start: number;
+  end: number;
+}
+
+/** One band per era, spanning the events tagged with it, in order of first event */
+export function eraBands(placed: PlacedEvent[]): EraBand[] {
+  const byEra = new Map<string, EraBand>();
+  for (const { event, position } of placed) {
+    if (!event.era) continue;
+    const band = byEra.get(event.era);
+    if (band) {
+      band.start = Math.min(band.start, position);
+      band.end = Math.max(band.end, position);
+    } else {
+      byEra.set(event.era, { era: event.era, start: position, end: position });
+    }
+  }
+  return [...byEra.values()];
+}
+
+export interface ConflictSpan {
+  conflict: Conflict;
+  start: number;
+  end: number;
+  /** No end yet — the bar runs to the end of the timeline */
+  ongoing: boolean;
+  /** Row below the axis, so overlapping conflicts don't cover each other */
+  lane: number;
+}
+
+/**
+ * Conflict bars from `startDate` to `endDate`. Missing dates fall back to
+ * the conflict's related events; conflicts that haven't resolved and have
+ * no end run on to `timelineEnd`.
+ */
+export function conflictSpans(
+  conflicts: Conflict[],
+  datePosition: DatePosition,
+  eventPositions: Map<string, number>,
+  timelineEnd: number
+): ConflictSpan[] {
+  const spans: Omit<ConflictSpan, "lane">[] = [];
+  for (const conflict of conflicts) {
+    const related = (conflict.relatedEventIds ?? [])
+      .map((id) => eventPositions.get(id))
+      .filter((p): p is number => p !== undefined);
+    const start = datePosition(conflict.startDate) ?? (related.length > 0 ? Math.min(...related) : null);
+    if (start === null) continue;
+    let end = datePosition(conflict.endDate);
+    const ongoing = end === null && conflict.status !== "resolved";
+    if (end === null) end = ongoing ? Math.max(timelineEnd, start) : related.length > 0 ? Math.max(...related) : start;
+    spans.push({ conflict, start, end: Math.max(start, end), ongoing });
+  }
+
+  // Greedy lane packing: each bar takes the first lane that's free by its start
+  spans.sort((a, b) => a.start - b.start);
+  const laneEnds: number[] = [];
+  return spans.map((span) => {
+    let lane = laneEnds.findIndex((end) => end < span.start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = span.end;
+    return { ...span, lane };
+  });
+}
+
+export interface EventCluster<T extends PlacedEvent = PlacedEvent> {
+  /** Mean position of the clustered events */
+  position: number;
+  start: number;
+  end: number;
+  events: T[];
+}
+
+/**
+ * Merge events closer than `minGap` (in axis units) into clusters. `placed`
+ * must be sorted by position.
+ */
+export function clusterEvents<T extends PlacedEvent>(placed: T[], minGap: number): EventCluster<T>[] {
+  const clusters: EventCluster<T>[] = [];
+  for (const p of placed) {
+    const last = clusters[clusters.length - 1];
+    if (last && p.position - last.end < minGap) {
+      last.events.push(p);
+      last.end = p.position;
+    } else {
+      clusters.push({ position: p.position, start: p.position, end: p.position, events: [p] });
+    }
+  }
+  for (const c of clusters) {
+    c.position = c.events.reduce((sum, e) => sum + e.position, 0) / c.events.length;
+  }
+  return clusters;
+}
+
+/** A round tick spacing (1, 2 or 5 × 10ⁿ) giving about `targetTicks` ticks over `span` */
+export function tickStep(span: number, targetTicks = 8): number {
+  const raw = span / targetTicks;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+export function truncateLabel(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, Math.max(1, max - 1))}…` : text;
+}
+
+// ─── Swimlanes ──────────────────────────────────────────────────
+export type LaneType = "factions" | "characters";
+
+export interface Lane {
+  type: LaneType;
+  id: string;
+}
+
+/** Participant refs name their collection either way ("faction" / "factions") */
+export function laneType(type: string): LaneType | null {
+  if (type === "faction" || type === "factions") return "factions";
+  if (type === "character" || type === "characters") return "characters";
+  return null;
+}
+
+/** The factions and characters taking part in the most events, busiest first */
+export function frequentParticipants(events: TimelineEvent[], limit: number): Lane[] {
+  const counts = new Map<string, { lane: Lane; count: number }>();
+  for (const event of events) {
+    for (const p of event.participantIds ?? []) {
+      const type = laneType(p.type);
+      if (!type) continue;
+      const entry = counts.get(p.id) ?? { lane: { type, id: p.id }, count: 0 };
+      entry.count++;
+      counts.set(p.id, entry);
+    }
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map((e) => e.lane);
+}
+
+// ─── Causality ──────────────────────────────────────────────────
+// Events and conflicts linked through `relatedEventIds`. Links have no
+// direction of their own, so each one points from the earlier node to
+// the later; ordering every node by position first keeps the graph
+// acyclic even when linked nodes share a position.
+
+export interface CausalNode {
+  id: string;
+  kind: "event" | "conflict";
+  name: string;
+  position: number;
+  /** One column per distinct position, left to right */
+  column: number;
+  row: number;
+}
+
+export interface CausalEdge {
+  from: string;
+  to: string;
+}
+
+export function causalityGraph(
+  placed: PlacedEvent[],
+  conflicts: ConflictSpan[]
+): { nodes: CausalNode[]; edges: CausalEdge[]; rows: number } {
+  const candidates = [
+    ...placed.map((p) => ({
+      id: p.event.id,
+      kind: "event" as const,
+      name: p.event.name,
+      position: p.position,
+      related: p.event.relatedEventIds ?? [],
+    })),
+    ...conflicts.map((c) => ({
+      id: c.conflict.id,
+      kind: "conflict" as const,
+      name: c.conflict.name,
+      position: c.start,
+      related: c.conflict.relatedEventIds ?? [],
+    })),
+  ].sort((a, b) => a.position - b.position);
+  const rank = new Map(candidates.map((c, i) => [c.id, i]));
+
+  const edges: CausalEdge[] = [];
+  const seen = new Set<string>();
+  for (const node of candidates) {
+    for (const other of node.related) {
+      const a = rank.get(node.id)!;
+      const b = rank.get(other);
+      if (b === undefined || b === a) continue;
+      const [from, to] = a < b ? [node.id, other] : [other, node.id];
+      const key = `${from}>${to}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ from, to });
+    }
+  }
+
+  // Only linked nodes take part
+  const linked = new Set(edges.flatMap((e) => [e.from, e.to]));
+  const parents = new Map<string, string[]>();
+  for (const e of edges) parents.set(e.to, [...(parents.get(e.to) ?? []), e.from]);
+
+  // Each node takes the free row in its column nearest its parents' average row
+  const nodes: CausalNode[] = [];
+  const byId = new Map<string, CausalNode>();
+  let column = -1;
+  let lastPosition = -Infinity;
+  let taken = new Set<number>();
+  let rows = 0;
+  for (const c of candidates) {
+    if (!linked.has(c.id)) continue;
+    if (c.position !== lastPosition) {
+      column++;
+      lastPosition = c.position;
+      taken = new Set();
+    }
+    const parentRows = (parents.get(c.id) ?? []).map((id) => byId.get(id)!.row);
+    const want = parentRows.length > 0 ? Math.round(parentRows.reduce((s, r) => s + r, 0) / parentRows.length) : 0;
+    let row = want;
+    for (let d = 1; taken.has(row) || row < 0; d++) row = want + (d % 2 === 1 ? (d + 1) / 2 : -d / 2);
+    taken.add(row);
+    rows = Math.max(rows, row + 1);
+    const node: CausalNode = { id: c.id, kind: c.kind, name: c.name, position: c.position, column, row };
+    nodes.push(node);
+    byId.set(c.id, node);
+  }
+  return { nodes, edges, rows };
+}
+
+/** Everything `id` follows from and everything that follows from it, with the edges between */
+export function causalChain(edges: CausalEdge[], id: string): { nodeIds: Set<string>; edges: Set<CausalEdge> } {
+  const nodeIds = new Set([id]);
+  const chain = new Set<CausalEdge>();
+  // Downstream along edges, then upstream against them
+  for (const [near, far] of [["from", "to"], ["to", "from"]] as const) {
+    const queue = [id];
+    const visited = new Set([id]);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const e of edges) {
+        if (e[near] !== current) continue;
+        chain.add(e);
+        nodeIds.add(e[far]);
+        if (!visited.has(e[far])) {
+          visited.add(e[far]);
+          queue.push(e[far]);
+        }
+      }
+    }
+  }
+  return { nodeIds, edges: chain };
+}
@@ -0,0 +1,125 @@
+import type { Conflict, EntityRef, EntityType, TimelineEvent } from "../types";
+
+// ─── Timeline filters ⇄ URL search params ──────────────────────
+// `?type=battle&planetId=p1&participant=factions/f1&q=siege`
+// `era`, `significance`, `type`, `planetId` and `locationId` go to the
+// server; the participant and the text search filter what comes back.
+
+export interface TimelineQuery {
+  era: string;
+  significance: string;
+  type: string;
+  planetId: string;
+  locationId: string;
+  /** `type` is "" when only the ID is known */
+  participant: EntityRef | null;
+  q: string;
+}
+
+export const EMPTY_TIMELINE_QUERY: TimelineQuery = {
+  era: "",
+  significance: "",
+  type: "",
+  planetId: "",
+  locationId: "",
+  participant: null,
+  q: "",
+};
+
+const TEXT_PARAMS = ["era", "significance", "type", "planetId", "locationId", "q"] as const;
+const PARTICIPANT_PARAM = "participant";
+
+export function readTimelineQuery(params: URLSearchParams): TimelineQuery {
+  const query = { ...EMPTY_TIMELINE_QUERY };
+  for (const key of TEXT_PARAMS) query[key] = params.get(key) ?? "";
+  const participant = params.get(PARTICIPANT_PARAM);
+  if (participant) {
+    const slash = participant.indexOf("/");
+    query.participant =
+      slash === -1
+        ? { type: "", id: participant }
+        : { type: participant.slice(0, slash), id: participant.slice(slash + 1) };
+  }
+  return query;
+}
+
+/** Write the query into `params`, leaving unrelated params (e.g. `tab`) alone */
+export function writeTimelineQuery(params: URLSearchParams, query: TimelineQuery): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of TEXT_PARAMS) {
+    if (query[key]) next.set(key, query[key]);
+    else next.delete(key);
+  }
+  const { participant } = query;
+  if (participant) {
+    next.set(PARTICIPANT_PARAM, participant.type ? `${participant.type}/${participant.id}` : participant.id);
+  } else {
+    next.delete(PARTICIPANT_PARAM);
+  }
+  return next;
+}
+
+export function isTimelineQueryActive(query: TimelineQuery): boolean {
+  return TEXT_PARAMS.some((key) => query[key] !== "") || query.participant !== null;
+}
+
+/**
+ * Tool and arguments for the server-side part of the query. `get_timeline`
+ * only filters by era and significance; the other filters need `list_events`.
+ */
+export function timelineRequest(
+  worldId: string,
+  query: TimelineQuery
+): { tool: "get_timeline" | "list_events"; args: Record<string, unknown> } {
+  const args: Record<string, unknown> = { worldId };
+  if (query.era) args.era = query.era;
+  if (query.significance) args.significance = query.significance;
+  if (!query.type && !query.planetId && !query.locationId) return { tool: "get_timeline", args };
+  if (query.type) args.type = query.type;
+  if (query.planetId) args.planetId = query.planetId;
+  if (query.locationId) args.locationId = query.locationId;
+  return { tool: "list_events", args };
+}
+
+/**
+ * The fixed part of an entity's own timeline: events on a planet or at a
+ * location, or that the entity took part in. Null for events themselves.
+ */
+export function timelineScope(entityType: EntityType, id: string): Partial<TimelineQuery> | null {
+  if (entityType === "events") return null;
+  if (entityType === "planets") return { planetId: id };
+  if (entityType === "locations") return { locationId: id };
+  return { participant: { type: entityType, id } };
+}
+
+/** The client-side part: participant and free text over name, description, outcome and consequences */
+export function matchesTimelineQuery(event: TimelineEvent, query: TimelineQuery): boolean {
+  const { participant } = query;
+  if (participant && !event.participantIds?.some((p) => p.id === participant.id)) return false;
+  if (query.q) {
+    const q = query.q.toLowerCase();
+    const text = [event.name, event.description, event.outcome, ...(event.consequences ?? [])];
+    if (!text.some((t) => t?.toLowerCase().includes(q))) return false;
+  }
+  return true;
+}
+
+/**
+ * Conflicts kept under an active query: those tied to a shown event, or
+ * that the filtered participant or place takes part in.
+ */
+export function conflictInTimeline(conflict: Conflict, query: TimelineQuery, shownEventIds: Set<string>): boolean {
+  if (!isTimelineQueryActive(query)) return true;
+  if (conflict.relatedEventIds?.some((id) => shownEventIds.has(id))) return true;
+  const { participant } = query;
+  if (
+    participant &&
+    (conflict.belligerents?.some((b) => b.factionId === participant.id) ||
+      conflict.commanderCharacterIds?.includes(participant.id))
+  ) {
+    return true;
+  }
+  if (query.planetId && conflict.theaterPlanetIds?.includes(query.planetId)) return true;
+  if (query.locationId && conflict.theaterLocationIds?.includes(query.locationId)) return true;
+  return false;
+}